@@ -37,6 +37,7 @@ echo "   wrangler secret put GEMINI_API_KEY"
 echo "   wrangler secret put THENEWSAPI_KEY"
 echo "   wrangler secret put TELEGRAM_BOT_TOKEN"
 echo "   wrangler secret put TELEGRAM_CHAT_ID"
+echo "   wrangler secret put API_KEYS   # e.g. {\"ops\":{\"secret\":\"...\",\"scopes\":[\"admin\"]}}"
 echo ""
 echo "2. Optional: Override default configuration:"
 echo "   wrangler secret put SYMBOLS"
@@ -47,7 +48,7 @@ echo "3. Test the deployment:"
 echo "   curl https://crypto-automation.your-subdomain.workers.dev/health"
 echo ""
 echo "4. Manual run:"
-echo "   curl -X POST https://crypto-automation.your-subdomain.workers.dev/run"
+echo "   curl -X POST https://crypto-automation.your-subdomain.workers.dev/run -H \"Authorization: Bearer <API key>\""
 echo ""
 echo "5. Monitor logs:"
 echo "   wrangler tail"
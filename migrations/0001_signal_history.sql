@@ -0,0 +1,47 @@
+-- Signal history: one row per run, per analyzed coin and per tradeable recommendation slot
+
+CREATE TABLE IF NOT EXISTS runs (
+  id TEXT PRIMARY KEY,
+  started_at INTEGER NOT NULL,          -- Unix ms
+  finished_at INTEGER,
+  status TEXT NOT NULL,                 -- running | ok | partial | failed
+  sentiment_json TEXT,
+  successful_coins TEXT,                -- CSV
+  failed_coins TEXT,                    -- CSV
+  error TEXT
+);
+
+CREATE TABLE IF NOT EXISTS run_coins (
+  run_id TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  recommendation_json TEXT,
+  violations_json TEXT,
+  candles_json TEXT,
+  indicators_json TEXT,
+  sentiment_json TEXT,
+  error TEXT,
+  PRIMARY KEY (run_id, symbol)
+);
+
+CREATE TABLE IF NOT EXISTS signals (
+  id TEXT PRIMARY KEY,
+  run_id TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  slot TEXT NOT NULL,                   -- spot.shortTerm | spot.longTerm | leveraged.shortTerm | leveraged.longTerm
+  direction TEXT NOT NULL,              -- long | short
+  entry REAL NOT NULL,
+  stop_loss REAL NOT NULL,
+  take_profit REAL NOT NULL,
+  leverage REAL,
+  rejected INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending', -- pending | open | tp | sl | expired
+  filled_at INTEGER,
+  closed_at INTEGER,
+  checked_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_signals_status ON signals (status);
+CREATE INDEX IF NOT EXISTS idx_signals_symbol ON signals (symbol, created_at);
+CREATE INDEX IF NOT EXISTS idx_run_coins_symbol ON run_coins (symbol, created_at);
@@ -0,0 +1,6 @@
+-- Watchlist edited from Telegram (/symbols add|remove); when empty the SYMBOLS env var is used
+
+CREATE TABLE IF NOT EXISTS watchlist (
+  symbol TEXT PRIMARY KEY,              -- coin ticker, e.g. BTC
+  added_at INTEGER NOT NULL             -- Unix ms
+);
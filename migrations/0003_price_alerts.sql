@@ -0,0 +1,18 @@
+-- Standing price alerts, created over the /alerts API and evaluated by the alert cron
+
+CREATE TABLE IF NOT EXISTS alerts (
+  id TEXT PRIMARY KEY,
+  symbol TEXT NOT NULL,                 -- coin ticker, e.g. BTC
+  condition_json TEXT NOT NULL,         -- AlertCondition
+  mode TEXT NOT NULL,                   -- once | rearm
+  cooldown_ms INTEGER NOT NULL,         -- dedup window between deliveries
+  note TEXT,
+  active INTEGER NOT NULL DEFAULT 1,
+  armed INTEGER NOT NULL DEFAULT 1,
+  created_at INTEGER NOT NULL,          -- Unix ms
+  last_value REAL,
+  last_checked_at INTEGER,
+  last_triggered_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_alerts_active ON alerts (active);
@@ -0,0 +1,4 @@
+-- Prompt template versions behind each run and coin result (JSON)
+
+ALTER TABLE runs ADD COLUMN prompt_versions TEXT;        -- {"sentiment":["v1"],"agent":["v1","v2"]}
+ALTER TABLE run_coins ADD COLUMN prompt_versions TEXT;   -- {"sentiment":"v1","agent":"v2"}
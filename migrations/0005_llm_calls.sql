@@ -0,0 +1,21 @@
+-- LLM usage: one row per provider call, rolled up per coin, run and day for /metrics and the daily budget
+
+CREATE TABLE IF NOT EXISTS llm_calls (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id TEXT,                          -- NULL for on-demand analyses
+  symbol TEXT,                          -- NULL for the run's market sentiment
+  step TEXT NOT NULL,                   -- sentiment | agent
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL,
+  output_tokens INTEGER NOT NULL,
+  total_tokens INTEGER NOT NULL,
+  latency_ms INTEGER NOT NULL,
+  finish_reason TEXT,
+  cost_usd REAL NOT NULL,               -- estimate from the price table
+  ok INTEGER NOT NULL,
+  created_at INTEGER NOT NULL           -- Unix ms
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_calls_created ON llm_calls (created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_calls_run ON llm_calls (run_id, symbol);
@@ -0,0 +1,11 @@
+-- Queue fan-out: one row per coin of a queued run; the summary is sent once no coin is left queued
+
+CREATE TABLE IF NOT EXISTS run_jobs (
+  run_id TEXT NOT NULL,
+  coin TEXT NOT NULL,
+  position INTEGER NOT NULL,            -- watchlist order, keeps the summary deterministic
+  status TEXT NOT NULL,                 -- queued | ok | failed | skipped
+  error TEXT,
+  updated_at INTEGER NOT NULL,          -- Unix ms
+  PRIMARY KEY (run_id, coin)
+);
@@ -0,0 +1,16 @@
+-- Dashboard history: the news behind each run and coin result, and a log of reported errors
+
+ALTER TABLE runs ADD COLUMN articles_json TEXT;        -- Market news the global sentiment was scored from
+ALTER TABLE run_coins ADD COLUMN articles_json TEXT;   -- Coin news the coin sentiment was scored from
+
+CREATE TABLE IF NOT EXISTS error_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  created_at INTEGER NOT NULL,          -- Unix ms
+  error_type TEXT NOT NULL,             -- e.g. AI Agent Error
+  failure_class TEXT,                   -- LLM failure class (SAFETY, MAX_TOKENS, ...) when known
+  message TEXT NOT NULL,
+  details_json TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_error_log_created ON error_log (created_at);
+CREATE INDEX IF NOT EXISTS idx_runs_started ON runs (started_at);
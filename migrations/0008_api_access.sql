@@ -0,0 +1,24 @@
+-- HTTP API access: fixed-window request counters per API key and client IP, and an audit log of key use
+
+CREATE TABLE IF NOT EXISTS rate_limits (
+  bucket TEXT PRIMARY KEY,              -- key:<keyId> or ip:<address>
+  window_start INTEGER NOT NULL,        -- Unix ms
+  count INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS api_audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  created_at INTEGER NOT NULL,          -- Unix ms
+  key_id TEXT,                          -- null when no key could be identified
+  auth_method TEXT,                     -- bearer | basic | hmac
+  scope TEXT NOT NULL,                  -- scope the endpoint requires
+  http_method TEXT NOT NULL,
+  path TEXT NOT NULL,
+  ip TEXT,
+  status INTEGER NOT NULL,
+  outcome TEXT NOT NULL,                -- ok | error | unauthorized | forbidden | rate_limited
+  reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_audit_created ON api_audit_log (created_at);
+CREATE INDEX IF NOT EXISTS idx_api_audit_key ON api_audit_log (key_id, created_at);
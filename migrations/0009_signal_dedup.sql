@@ -0,0 +1,6 @@
+-- Redelivered queue messages must not store a coin's signals twice: one signal per run, symbol and slot
+
+DELETE FROM signals
+ WHERE rowid NOT IN (SELECT MIN(rowid) FROM signals GROUP BY run_id, symbol, slot);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_signals_run_slot ON signals (run_id, symbol, slot);
@@ -0,0 +1,3 @@
+-- Runs whose market news could not be fetched still analyze coins (on a neutral market sentiment); keep why
+
+ALTER TABLE runs ADD COLUMN news_error TEXT;           -- Set when the run had no market news
@@ -0,0 +1,11 @@
+-- HMAC-signed requests already served, kept until their timestamp leaves the allowed skew so a captured request
+-- cannot be replayed
+
+CREATE TABLE IF NOT EXISTS api_signatures (
+  key_id TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  expires_at INTEGER NOT NULL,          -- Unix ms
+  PRIMARY KEY (key_id, signature)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_signatures_expires ON api_signatures (expires_at);
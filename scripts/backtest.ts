@@ -0,0 +1,66 @@
+// =====================================
+// ===== BACKTEST CLI
+// ===== Usage: npm run backtest -- --fixtures ./fixtures [--recordings ./recordings.json] [--step-hours 4] [--out report.json]
+// =====================================
+
+import { existsSync, readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { TimeframeCandles, SentimentJSON, BacktestStats } from '../src/types';
+import { runBacktest } from '../src/backtest/engine';
+import { parseFixture, fixtureFiles } from '../src/backtest/fixtures';
+import { ruleBasedResponder, recordedResponder } from '../src/backtest/responders';
+
+function arg(name: string): string | undefined {
+  const idx = process.argv.indexOf(`--${name}`);
+  return idx >= 0 ? process.argv[idx + 1] : undefined;
+}
+
+function readJson(path: string): unknown {
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+function formatStats(label: string, s: BacktestStats): string {
+  const pct = s.winRate === null ? '—' : `${(s.winRate * 100).toFixed(1)}%`;
+  const avg = s.averageR === null ? '—' : s.averageR.toFixed(2);
+  return `${label.padEnd(10)} signals ${String(s.signals).padStart(4)}  filled ${String(s.filled).padStart(4)}  ` +
+    `W/L ${s.wins}/${s.losses}  win ${pct.padStart(6)}  avgR ${avg.padStart(6)}  ` +
+    `totalR ${s.totalR.toFixed(2).padStart(7)}  maxDD ${s.maxDrawdownR.toFixed(2)}R`;
+}
+
+async function main(): Promise<void> {
+  const dir = arg('fixtures') || 'fixtures';
+  const candles: Record<string, TimeframeCandles[]> = {};
+
+  for (const symbol of readdirSync(dir)) {
+    const symbolDir = join(dir, symbol);
+    if (!statSync(symbolDir).isDirectory()) continue;
+    candles[symbol] = fixtureFiles()
+      .filter(f => existsSync(join(symbolDir, f.file)))
+      .map(f => parseFixture(f.timeframe, readJson(join(symbolDir, f.file))));
+  }
+
+  const sentimentPath = join(dir, 'sentiment.json');
+  const recordingsPath = arg('recordings');
+  const report = await runBacktest({
+    candles,
+    responder: recordingsPath
+      ? recordedResponder(readJson(recordingsPath) as Record<string, unknown>, ruleBasedResponder)
+      : ruleBasedResponder,
+    sentiment: existsSync(sentimentPath) ? readJson(sentimentPath) as SentimentJSON : undefined,
+    stepMs: arg('step-hours') ? Number(arg('step-hours')) * 60 * 60 * 1000 : undefined,
+  });
+
+  console.log(`Backtest ${new Date(report.from).toISOString()} → ${new Date(report.to).toISOString()} (${report.runs} runs)`);
+  console.log(formatStats('ALL', report.overall));
+  for (const [symbol, stats] of Object.entries(report.perCoin)) {
+    console.log(formatStats(symbol, stats));
+  }
+
+  const out = arg('out');
+  if (out) writeFileSync(out, JSON.stringify(report, null, 2));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
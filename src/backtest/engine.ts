@@ -0,0 +1,185 @@
+// =====================================
+// ===== BACKTEST ENGINE
+// ===== Purpose: Replay historical candles through the analysis pipeline offline
+// =====================================
+
+import {
+  Env,
+  Logger,
+  SentimentJSON,
+  TimeframeCandles,
+  BacktestResponder,
+  BacktestTrade,
+  BacktestStats,
+  BacktestReport,
+  JsonCompletion,
+  Candle,
+} from '../types';
+import {
+  INDICATOR_LOOKBACK,
+  TIMEFRAME_MS,
+  OUTCOME_TIMEFRAME,
+  SIGNAL_EXPIRY_MS,
+} from '../config/constants';
+import { createLogger } from '../utils/logger';
+import { extractSignals, evaluateOutcome } from '../utils/outcomes';
+import { buildAnalysisInput } from '../controllers/analysis';
+import { buildAgentInstruction } from '../services/prompts';
+import { generateCheckedRecommendation } from '../services/recommendation';
+
+export interface BacktestOptions {
+  candles: Record<string, TimeframeCandles[]>;  // Full history per symbol (e.g. BTCUSDT), oldest first
+  responder: BacktestResponder;
+  sentiment?: SentimentJSON;
+  stepMs?: number;                              // Time between simulated runs, default 4h (the cron)
+  warmupCandles?: number;                       // Minimum closed candles per timeframe before the first run
+  lookback?: number;                            // Candles per timeframe visible to each run (default 200)
+  includeRejected?: boolean;                    // Also trade recommendations flagged by the guardrails
+  env?: Partial<Env>;                           // Guardrail limits etc.
+  logger?: Logger;
+}
+
+const NEUTRAL_SENTIMENT: SentimentJSON = {
+  shortTermSentiment: { category: "Neutral", score: 0, rationale: "Backtest: no news sentiment available." },
+  longTermSentiment: { category: "Neutral", score: 0, rationale: "Backtest: no news sentiment available." },
+};
+
+// Closed candles visible at simulated time `t`
+function visibleAt(allCandles: TimeframeCandles[], t: number, lookback: number): TimeframeCandles[] {
+  return allCandles.map(tc => ({
+    timeframe: tc.timeframe,
+    candles: tc.candles.filter(c => c.timestamp + TIMEFRAME_MS[tc.timeframe] <= t).slice(-lookback),
+  }));
+}
+
+// Result in R for a resolved trade; expired trades are marked to the last close in the window
+function resultInR(trade: Omit<BacktestTrade, "r">, window: Candle[]): number | null {
+  const risk = Math.abs(trade.entry - trade.stopLoss);
+  if (risk === 0 || trade.filledAt === null) return null;
+  const sign = trade.direction === "long" ? 1 : -1;
+  if (trade.status === "tp") return (sign * (trade.takeProfit - trade.entry)) / risk;
+  if (trade.status === "sl") return -1;
+  if (trade.status === "expired" && window.length) {
+    return (sign * (parseFloat(window[window.length - 1].close) - trade.entry)) / risk;
+  }
+  return null;
+}
+
+// Aggregate trades into win rate, average R and max drawdown (in R, ordered by close time)
+export function computeStats(trades: BacktestTrade[]): BacktestStats {
+  const resolved = trades
+    .filter(t => t.r !== null && t.closedAt !== null)
+    .sort((a, b) => a.closedAt! - b.closedAt!);
+  const wins = trades.filter(t => t.status === "tp").length;
+  const losses = trades.filter(t => t.status === "sl").length;
+
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  for (const t of resolved) {
+    equity += t.r!;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+  }
+
+  return {
+    signals: trades.length,
+    filled: trades.filter(t => t.filledAt !== null).length,
+    wins,
+    losses,
+    expired: trades.filter(t => t.status === "expired").length,
+    winRate: wins + losses > 0 ? wins / (wins + losses) : null,
+    averageR: resolved.length ? equity / resolved.length : null,
+    totalR: equity,
+    maxDrawdownR: maxDrawdown,
+  };
+}
+
+// Replay every symbol through candles → indicators → prompt → recommendation → outcome
+export async function runBacktest(options: BacktestOptions): Promise<BacktestReport> {
+  const logger = options.logger || createLogger("warn");
+  const env = (options.env || {}) as Env;
+  const sentiment = options.sentiment || NEUTRAL_SENTIMENT;
+  const stepMs = options.stepMs || 4 * 60 * 60 * 1000;
+  const warmup = options.warmupCandles ?? 50;
+  const lookback = options.lookback ?? INDICATOR_LOOKBACK;
+
+  const trades: BacktestTrade[] = [];
+  let runs = 0;
+  let from = Infinity;
+  let to = -Infinity;
+
+  for (const [symbol, allCandles] of Object.entries(options.candles)) {
+    const timestamps = allCandles.flatMap(tc => tc.candles.map(c => c.timestamp + TIMEFRAME_MS[tc.timeframe]));
+    if (!timestamps.length) continue;
+    const start = Math.ceil(Math.min(...timestamps) / stepMs) * stepMs;
+    const end = Math.max(...timestamps);
+
+    for (let t = start; t <= end; t += stepMs) {
+      const visible = visibleAt(allCandles, t, lookback);
+      if (visible.some(tc => tc.candles.length < warmup)) continue;
+
+      const input = buildAnalysisInput(symbol, visible, sentiment, sentiment);
+      const { system, user } = buildAgentInstruction(symbol, input);
+      const complete: JsonCompletion = async (_env, _logger, systemPrompt, userPrompt) =>
+        options.responder({ input, time: t, systemPrompt, userPrompt });
+
+      let result;
+      try {
+        result = await generateCheckedRecommendation(env, logger, system, user, input, complete);
+      } catch (error) {
+        logger.warn("Backtest step failed", { symbol, time: new Date(t).toISOString(), error: String(error) });
+        continue;
+      }
+      runs++;
+      from = Math.min(from, t);
+      to = Math.max(to, t);
+
+      const rejected = new Set(result.violations.map(v => v.slot));
+      for (const signal of extractSignals(result.recommendation, rejected)) {
+        if (signal.rejected && !options.includeRejected) continue;
+
+        const horizon = signal.slot.endsWith("shortTerm") ? "shortTerm" : "longTerm";
+        const expiry = SIGNAL_EXPIRY_MS[horizon];
+        const tfId = OUTCOME_TIMEFRAME[horizon];
+        const series = allCandles.find(tc => tc.timeframe === tfId)?.candles || [];
+        const window = series.filter(c => c.timestamp >= t && c.timestamp < t + expiry);
+        const dataEnd = series.length ? series[series.length - 1].timestamp + TIMEFRAME_MS[tfId] : t;
+
+        const outcome = evaluateOutcome(
+          { ...signal, createdAt: t, status: "pending", filledAt: null },
+          window,
+          expiry,
+          dataEnd
+        );
+        const trade = {
+          symbol,
+          slot: signal.slot,
+          time: t,
+          direction: signal.direction,
+          entry: signal.entry,
+          stopLoss: signal.stopLoss,
+          takeProfit: signal.takeProfit,
+          ...outcome,
+          // evaluateOutcome dates an expiry to `now` (the end of the data); the equity curve needs the trade's own expiry
+          closedAt: outcome.status === "expired" ? t + expiry : outcome.closedAt,
+        };
+        trades.push({ ...trade, r: resultInR(trade, window) });
+      }
+    }
+  }
+
+  const perCoin: Record<string, BacktestStats> = {};
+  for (const symbol of Object.keys(options.candles)) {
+    perCoin[symbol] = computeStats(trades.filter(t => t.symbol === symbol));
+  }
+
+  return {
+    from: Number.isFinite(from) ? from : 0,
+    to: Number.isFinite(to) ? to : 0,
+    runs,
+    overall: computeStats(trades),
+    perCoin,
+    trades,
+  };
+}
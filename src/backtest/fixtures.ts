@@ -0,0 +1,20 @@
+// =====================================
+// ===== BACKTEST FIXTURES
+// =====================================
+
+import { KuCoinKlineRaw, TimeframeCandles, TimeframeId, TIMEFRAMES } from '../types';
+import { parseKuCoinKlines } from '../services/exchanges';
+
+// Accepts either a saved KuCoin response body ({ code, data }) or the bare kline array
+export function parseFixture(timeframe: TimeframeId, json: unknown): TimeframeCandles {
+  const data = Array.isArray(json) ? json : (json as { code?: string; data?: unknown })?.data;
+  if (!Array.isArray(data)) {
+    throw new Error(`Fixture for ${timeframe} is not a KuCoin kline response`);
+  }
+  return { timeframe, candles: parseKuCoinKlines(data as KuCoinKlineRaw[]) };
+}
+
+// Fixture file names expected per symbol directory, e.g. fixtures/BTCUSDT/1h.json
+export function fixtureFiles(): Array<{ timeframe: TimeframeId; file: string }> {
+  return TIMEFRAMES.map(tf => ({ timeframe: tf, file: `${tf}.json` }));
+}
@@ -0,0 +1,81 @@
+// =====================================
+// ===== BACKTEST RESPONDERS
+// ===== Purpose: Stand-ins for the agent model during offline replays
+// =====================================
+
+import { BacktestResponder, TradeRecommendation, SpotRecommendation, LeveragedRecommendation, TimeframeIndicators } from '../types';
+import { latestClose } from '../utils/guardrails';
+import { horizonTimeframes } from '../utils/helpers';
+
+const RULE_LEVERAGE = 3;
+const RULE_STOP_ATR = 1.5;
+const RULE_TARGET_ATR = 3;
+
+// Deterministic trend-following stand-in: EMA12/26 trend for direction, ATR-based stop and target
+function ruleTrade(tf: TimeframeIndicators | undefined, close: number): {
+  spot: SpotRecommendation;
+  leveraged: LeveragedRecommendation;
+} {
+  const atr = tf?.atr14 ?? close * 0.02;
+  const isLong = !tf?.ema12 || !tf?.ema26 || tf.ema12 >= tf.ema26;
+  const rsi = tf?.rsi14 ?? 50;
+  const sign = isLong ? 1 : -1;
+  const stopLoss = close - sign * atr * RULE_STOP_ATR;
+  const takeProfit = close + sign * atr * RULE_TARGET_ATR;
+  const rationale = {
+    primarySignals: `EMA12 ${tf?.ema12} vs EMA26 ${tf?.ema26} (${isLong ? "up" : "down"}trend).`,
+    laggingIndicators: `RSI ${rsi}, ATR ${atr}.`,
+    sentimentAnalysis: "Rule-based backtest responder; sentiment not used.",
+  };
+
+  // Spot only trades with the trend when RSI is not stretched
+  const spotAction = isLong ? (rsi < 70 ? "buy" : "hold") : (rsi > 30 ? "sell" : "hold");
+  return {
+    spot: spotAction === "hold"
+      ? { action: "hold", entry: null, stopLoss: null, takeProfit: null, rationale }
+      : { action: spotAction, entry: close, stopLoss, takeProfit, rationale },
+    leveraged: {
+      position: isLong ? "long" : "short",
+      leverage: RULE_LEVERAGE,
+      entry: close,
+      stopLoss,
+      takeProfit,
+      rationale,
+    },
+  };
+}
+
+// Rule-based responder: each horizon follows the trend of its driving timeframe (1h/1d by default)
+export const ruleBasedResponder: BacktestResponder = ({ input }) => {
+  const close = latestClose(input);
+  if (close === null) throw new Error(`No candles available for ${input.symbol}`);
+
+  const horizons = horizonTimeframes(input.indicators.map(i => i.timeframe));
+  const shortTerm = ruleTrade(input.indicators.find(i => i.timeframe === horizons.shortTerm), close);
+  const longTerm = ruleTrade(input.indicators.find(i => i.timeframe === horizons.longTerm), close);
+  const rec: TradeRecommendation = {
+    spot: { shortTerm: shortTerm.spot, longTerm: longTerm.spot },
+    leveraged: { shortTerm: shortTerm.leveraged, longTerm: longTerm.leveraged },
+  };
+  return JSON.stringify(rec);
+};
+
+// Key used to look up recorded responses: "<SYMBOL>|<ISO run time>"
+export function recordingKey(symbol: string, time: number): string {
+  return `${symbol}|${new Date(time).toISOString()}`;
+}
+
+// Replays previously recorded model outputs; falls back to another responder when a run is missing
+export function recordedResponder(
+  recordings: Record<string, unknown>,
+  fallback?: BacktestResponder
+): BacktestResponder {
+  return (ctx) => {
+    const recorded = recordings[recordingKey(ctx.input.symbol, ctx.time)];
+    if (recorded !== undefined) {
+      return typeof recorded === "string" ? recorded : JSON.stringify(recorded);
+    }
+    if (fallback) return fallback(ctx);
+    throw new Error(`No recorded response for ${recordingKey(ctx.input.symbol, ctx.time)}`);
+  };
+}
@@ -6,32 +6,260 @@
 export const DEFAULT_SYMBOLS = ["BTC", "ETH", "SOL", "XRP", "TRX", "XLM", "ADA", "DOT", "BNB"];
 export const PAIRS_SUFFIX = "USDT";
 
+// News aliases used to tag articles per coin (ticker matches are case-sensitive, names are not)
+export const COIN_ALIASES: Record<string, string[]> = {
+  BTC: ["Bitcoin"],
+  ETH: ["Ethereum", "Ether"],
+  SOL: ["Solana"],
+  XRP: ["Ripple"],
+  TRX: ["Tron"],
+  XLM: ["Stellar", "Lumens"],
+  ADA: ["Cardano"],
+  DOT: ["Polkadot"],
+  BNB: ["Binance Coin", "BNB Chain"],
+};
+export const COIN_NEWS_MIN_ARTICLES = 3;     // Below this, fetch news for the coin separately
+export const MAX_COIN_ARTICLES = 10;         // Articles per coin sent to the sentiment model
+
+// News sources
+export const NEWS_SOURCE_IDS = ["thenewsapi", "rss", "cryptopanic", "reddit"] as const;
+export const NEWS_SOURCE_WEIGHTS: Record<string, number> = {
+  thenewsapi: 1,
+  rss: 1,
+  cryptopanic: 0.9,
+  reddit: 0.5,
+};
+export const DEFAULT_RSS_FEEDS = [
+  "https://www.coindesk.com/arc/outboundfeeds/rss/",
+  "https://cointelegraph.com/rss",
+  "https://www.theblock.co/rss.xml",
+];
+export const DEFAULT_SUBREDDITS = ["CryptoCurrency"];
+export const NEWS_TITLE_DUPLICATE_SIMILARITY = 0.8;  // Token overlap above which two titles are the same article
+export const NEWS_CLUSTER_SIMILARITY = 0.5;          // Token overlap above which two titles cover the same story
+export const NEWS_RECENCY_HALF_LIFE_HOURS = 12;      // Relevance halves every 12 hours
+
+// Relevance weights for words in the title (counted double) and description/keywords.
+// Negative weights push promotional content down.
+export const NEWS_KEYWORD_WEIGHTS: Record<string, number> = {
+  "crypto": 1.5,
+  "cryptocurrency": 1.5,
+  "bitcoin": 2,
+  "ethereum": 1.5,
+  "blockchain": 1,
+  "defi": 1,
+  "stablecoin": 1.2,
+  "etf": 2,
+  "sec": 1.5,
+  "regulation": 1.5,
+  "lawsuit": 1.2,
+  "hack": 2,
+  "exploit": 2,
+  "liquidation": 1.5,
+  "halving": 1.5,
+  "fed": 1.5,
+  "interest rate": 1.5,
+  "inflation": 1.2,
+  "nft": 0.5,
+  "market": 0.4,
+  "stock": 0.3,
+  "finance": 0.3,
+  "economy": 0.4,
+  "trading": 0.4,
+  "price prediction": -1.5,
+  "sponsored": -3,
+  "giveaway": -3,
+  "press release": -1.5,
+};
+
+// Publisher reputation multipliers (unknown domains count 1)
+export const NEWS_SOURCE_REPUTATION: Record<string, number> = {
+  "reuters.com": 1.5,
+  "bloomberg.com": 1.5,
+  "coindesk.com": 1.3,
+  "theblock.co": 1.3,
+  "cnbc.com": 1.2,
+  "ft.com": 1.4,
+  "wsj.com": 1.4,
+  "cointelegraph.com": 1.1,
+  "decrypt.co": 1.1,
+  "reddit.com": 0.6,
+};
+export const NEWS_USER_AGENT = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36";
+
 // KuCoin API settings
 export const KUCOIN_BASE_URL = "https://api.kucoin.com";
-export const KUCOIN_REQUEST_DELAY_MS = 100; // Delay between requests to be polite
 export const LAST_N_TO_KEEP = 5;             // Keep the last 5 candles per timeframe
+export const INDICATOR_LOOKBACK = 200;       // Default candles per timeframe used to compute indicators
+export const MAX_LOOKBACK = 5000;            // Upper bound for configured lookbacks
+
+// Market data provider settings
+export const DEFAULT_EXCHANGE = "kucoin";
+export const DEFAULT_EXCHANGE_FALLBACKS = ["binance", "okx", "bybit"];
+export const EXCHANGE_IDS = ["kucoin", "binance", "okx", "bybit"] as const;
+
+// Concurrency: coins (and each coin's timeframes) analyzed in parallel, see MAX_CONCURRENT_REQUESTS
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 3;
+
+// Request rate per upstream, shared by all concurrent tasks
+export const UPSTREAM_RATE_LIMITS: Record<string, { maxRequests: number; windowMs: number }> = {
+  kucoin: { maxRequests: 10, windowMs: 1000 },
+  binance: { maxRequests: 10, windowMs: 1000 },
+  okx: { maxRequests: 10, windowMs: 1000 },
+  bybit: { maxRequests: 10, windowMs: 1000 },
+  gemini: { maxRequests: 60, windowMs: 60 * 1000 },
+  openai: { maxRequests: 60, windowMs: 60 * 1000 },
+  http: { maxRequests: 60, windowMs: 60 * 1000 },
+  telegram: { maxRequests: 1, windowMs: 1000 },     // Telegram asks for at most one message per second per chat
+};
+
+// Queue fan-out (the dead-letter queue name must match wrangler.toml)
+export const ANALYSIS_DLQ_NAME = "crypto-analysis-dlq";
+export const QUEUE_RETRY_DELAY_SECONDS = 30;             // Multiplied by the attempt number
+export const QUEUE_MAX_MESSAGE_BYTES = 120 * 1024;       // Queue messages are limited to 128 KB
+export const ON_DEMAND_DEADLINE_MS = 25 * 1000;          // waitUntil work is cut off about 30s after the response
+
+// HTTP client settings
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+export const LLM_REQUEST_TIMEOUT_MS = 120000;             // Completions may take longer than REQUEST_TIMEOUT_MS
+export const DEFAULT_CACHE_TTL_SECONDS = 300;
+export const HTTP_RETRIABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+export const HTTP_MAX_RETRY_AFTER_MS = 60 * 1000;        // Longer Retry-After waits fail instead of blocking the run
+export const CIRCUIT_BREAKER_THRESHOLD = 5;              // Consecutive failed requests before a host is cut off
+export const CIRCUIT_BREAKER_RESET_MS = 60 * 1000;       // Time before a half-open trial request
+export const CIRCUIT_BREAKER_STATE_TTL_SECONDS = 24 * 60 * 60;
 
 // Telegram settings
 export const TELEGRAM_PARSE_MODE = "HTML";
 export const TELEGRAM_MAX_MESSAGE = 3900; // Safe split under the 4096 hard limit
+// Tags Telegram accepts with parse_mode=HTML; anything else is sent escaped
+export const TELEGRAM_ALLOWED_TAGS = [
+  "b", "strong", "i", "em", "u", "ins", "s", "strike", "del",
+  "a", "code", "pre", "span", "tg-spoiler", "blockquote",
+];
+export const TELEGRAM_MAX_CAPTION = 1024;
+export const TELEGRAM_MAX_MEDIA_GROUP = 10;  // Photos per sendMediaGroup album
+
+// Chart images
+export const CHART_WIDTH = 1024;
+export const CHART_HEIGHT = 576;
+export const CHART_CANDLES = 120;           // Most recent candles drawn per timeframe
+
+// Digest reports (REPORT_MODE=digest)
+export const DIGEST_TOP_SETUPS = 3;          // Setups spelled out above the overview table
+export const DIGEST_BUTTONS_PER_ROW = 4;
+export const TELEGRAM_CALLBACK_COIN = "coin"; // callback_data "coin:<runId>:<symbol>" opens a coin's details
+
+// Price alerts
+export const ALERT_CHECK_CRON = "*/5 * * * *";             // Must match a cron in wrangler.toml
+export const ALERT_PRICE_TIMEFRAME = "1m";                 // Candles used for plain price alerts
+export const ALERT_DEFAULT_COOLDOWN_MS = 60 * 60 * 1000;   // 1 hour between deliveries of the same alert
+export const ALERT_INDICATORS = ["rsi14", "sma20", "sma50", "ema12", "ema26", "ema50", "atr14", "vwap"] as const;
+export const ALERT_OPERATORS = ["above", "below", "crosses_above", "crosses_below"] as const;
+
+// Notification settings
+export const NOTIFIER_IDS = ["telegram", "discord", "slack", "email", "webhook"] as const;
+export const DEFAULT_NOTIFY_ROUTE = ["telegram"];
+export const MAILCHANNELS_API_URL = "https://api.mailchannels.net/tx/v1/send";
+export const DEFAULT_SMTP_PORT = 587;
 
 // Gemini API settings
 export const DEFAULT_GEMINI_BASE = "https://generativelanguage.googleapis.com";
 export const DEFAULT_MODEL = "gemini-2.5-flash";
 
+// LLM provider settings
+export const LLM_PROVIDER_IDS = ["gemini", "openai", "http"] as const;
+export const DEFAULT_LLM_PROVIDER = "gemini";
+export const DEFAULT_OPENAI_BASE = "https://api.openai.com/v1";
+export const LLM_DEFAULT_MODELS: Record<string, string> = {
+  gemini: DEFAULT_MODEL,
+  openai: "gpt-4o-mini",
+  http: "",                                  // the endpoint picks its own model
+};
+
+// LLM prices in USD per 1M tokens (extend or override with LLM_PRICES). Models match exactly or by
+// the longest prefix, so dated variants like gpt-4o-mini-2024-07-18 inherit their base price.
+export const LLM_PRICES: Record<string, { input: number; output: number }> = {
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+};
+export const LLM_MAX_CONTINUATIONS = 2;      // Follow-up turns for output cut off at the token limit
+export const LLM_MAX_SHRINK_STEPS = 2;       // Halvings of the prompt data when the input is too large
+export const LLM_CONTINUE_PROMPT = "Your previous response was cut off. Continue exactly where it stopped, without repeating anything and without any commentary.";
+export const METRICS_DEFAULT_DAYS = 7;
+export const METRICS_MAX_DAYS = 90;
+
+// Web dashboard (/dashboard, scope read)
+export const DASHBOARD_RUNS = 30;            // Runs listed on the overview
+export const DASHBOARD_ERRORS = 50;          // Error log entries listed on the overview
+export const DASHBOARD_COIN_HISTORY = 60;    // Past results on a coin page
+
+// HTTP API access
+export const API_RATE_WINDOW_MS = 60 * 1000;          // Fixed rate limit window
+export const DEFAULT_RATE_LIMIT_PER_KEY = 20;         // Requests per window per API key
+export const DEFAULT_RATE_LIMIT_PER_IP = 30;          // Requests per window per client IP
+export const API_SIGNATURE_TOLERANCE_SECONDS = 300;   // Max clock skew of an HMAC-signed request
+export const API_AUDIT_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;  // api_audit_log rows older than this are pruned
+
+// Prompt templates
+export const DEFAULT_PROMPT_VERSION = "v1";
+export const PROMPT_CACHE_TTL_SECONDS = 300;   // KV edge cache for templates (minimum 60)
+
+// Recommendation guardrail defaults
+export const DEFAULT_MAX_LEVERAGE = 10;
+export const DEFAULT_MIN_REWARD_RISK = 1.5;
+export const DEFAULT_MAX_ENTRY_DISTANCE_PCT = 5;
+export const DEFAULT_MAX_ENTRY_DISTANCE_ATR = 3;
+
+// Signal outcome tracking
+export const OUTCOME_CHECK_CRON = "30 * * * *";            // Must match a cron in wrangler.toml
+export const SIGNAL_EXPIRY_MS = {
+  shortTerm: 3 * 24 * 60 * 60 * 1000,                       // 3 days
+  longTerm: 30 * 24 * 60 * 60 * 1000,                       // 30 days
+};
+export const OUTCOME_TIMEFRAME = { shortTerm: "15m", longTerm: "1h" } as const;
+
 // News API settings
 export const NEWS_LOOKBACK_DAYS = 3;
 export const NEWS_QUERY = "Crypto OR Bitcoin OR Coindesk";
 
 // Timeframe milliseconds mapping
 export const TIMEFRAME_MS: Record<string, number> = {
+  "1m": 60 * 1000,
+  "3m": 3 * 60 * 1000,
+  "5m": 5 * 60 * 1000,
   "15m": 15 * 60 * 1000,
+  "30m": 30 * 60 * 1000,
   "1h": 60 * 60 * 1000,
+  "2h": 2 * 60 * 60 * 1000,
+  "4h": 4 * 60 * 60 * 1000,
+  "6h": 6 * 60 * 60 * 1000,
+  "12h": 12 * 60 * 60 * 1000,
   "1d": 24 * 60 * 60 * 1000,
+  "1w": 7 * 24 * 60 * 60 * 1000,
+};
+
+// Built-in timeframe profiles (extend or override with TIMEFRAME_PROFILES)
+export const DEFAULT_TIMEFRAME_PROFILE = "default";
+export const TIMEFRAME_PROFILES: Record<string, { timeframes: string[]; lookback: number }> = {
+  default: { timeframes: ["15m", "1h", "1d"], lookback: INDICATOR_LOOKBACK },
+  scalp: { timeframes: ["1m", "5m", "15m"], lookback: INDICATOR_LOOKBACK },
+  swing: { timeframes: ["4h", "1d", "1w"], lookback: INDICATOR_LOOKBACK },
 };
 
 // API endpoints
 export const KUCOIN_BASE_URL_FULL = "https://api.kucoin.com";
+export const BINANCE_BASE_URL = "https://api.binance.com";
+export const OKX_BASE_URL = "https://www.okx.com";
+export const BYBIT_BASE_URL = "https://api.bybit.com";
 export const GEMINI_BASE_URL = "https://generativelanguage.googleapis.com";
 export const THENEWSAPI_BASE_URL = "https://api.thenewsapi.com";
 export const TELEGRAM_BASE_URL = "https://api.telegram.org";
+export const CRYPTOPANIC_BASE_URL = "https://cryptopanic.com";
+export const REDDIT_BASE_URL = "https://www.reddit.com";
@@ -0,0 +1,138 @@
+// =====================================
+// ===== PRICE ALERT CONTROLLER
+// =====================================
+
+import { Logger, Env, PriceAlert, AlertEvaluation } from '../types';
+import { PAIRS_SUFFIX } from '../config/constants';
+import { parseAlertInput, evaluateAlert, alertTimeframe, alertLookback, describeAlert } from '../utils/alerts';
+import { fetchKlines } from '../services/crypto-candles';
+import { notify } from '../services/notifications';
+import { isStorageEnabled, listAlerts, insertAlert, deleteAlert, updateAlertState } from '../services/storage';
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+const NO_DB = { ok: false, error: "Price alerts need the D1 database binding (DB)" };
+
+// GET /alerts
+export async function handleListAlerts(env: Env): Promise<Response> {
+  if (!isStorageEnabled(env)) return json(NO_DB, 503);
+  const alerts = await listAlerts(env);
+  return json({ ok: true, alerts: alerts.map(a => ({ ...a, description: describeAlert(a) })) });
+}
+
+// POST /alerts
+export async function handleCreateAlert(request: Request, env: Env, logger: Logger): Promise<Response> {
+  if (!isStorageEnabled(env)) return json(NO_DB, 503);
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ ok: false, errors: ["body must be valid JSON"] }, 400);
+  }
+
+  const { alert: input, errors } = parseAlertInput(body);
+  if (!input) return json({ ok: false, errors }, 400);
+
+  const alert: PriceAlert = {
+    ...input,
+    id: crypto.randomUUID(),
+    active: true,
+    armed: true,
+    createdAt: Date.now(),
+    lastValue: null,
+    lastTriggeredAt: null,
+  };
+  await insertAlert(env, alert);
+  logger.info("Price alert created", { id: alert.id, alert: describeAlert(alert), mode: alert.mode });
+  return json({ ok: true, alert: { ...alert, description: describeAlert(alert) } }, 201);
+}
+
+// DELETE /alerts/:id
+export async function handleDeleteAlert(env: Env, logger: Logger, id: string): Promise<Response> {
+  if (!isStorageEnabled(env)) return json(NO_DB, 503);
+  const deleted = await deleteAlert(env, id);
+  if (!deleted) return json({ ok: false, error: "Alert not found" }, 404);
+  logger.info("Price alert deleted", { id });
+  return json({ ok: true, id });
+}
+
+function formatValue(alert: PriceAlert, value: number): string {
+  return alert.condition.type === "change" ? `${value.toFixed(2)}%` : String(Number(value.toPrecision(8)));
+}
+
+async function deliverAlert(env: Env, logger: Logger, alert: PriceAlert, evaluation: AlertEvaluation): Promise<void> {
+  const description = describeAlert(alert);
+  const now = Date.now();
+  await notify(env, logger, {
+    kind: "alert",
+    level: "warning",
+    title: `Alert: ${description}`,
+    fields: [
+      { name: "Current value", value: evaluation.value === null ? "—" : formatValue(alert, evaluation.value) },
+      { name: "Mode", value: alert.mode === "once" ? "one-shot (now disabled)" : "re-arming" },
+      ...(alert.note ? [{ name: "Note", value: alert.note }] : []),
+      { name: "Time", value: new Date(now).toISOString() },
+    ],
+    sections: [],
+    timestamp: now,
+    data: { alertId: alert.id, symbol: alert.symbol, condition: alert.condition, value: evaluation.value },
+  });
+}
+
+// Evaluate every active alert against fresh candles; one fetch per symbol and timeframe
+export async function handleAlertCheck(
+  env: Env,
+  logger: Logger
+): Promise<{ checked: number; triggered: number }> {
+  if (!isStorageEnabled(env)) {
+    logger.warn("Alert check skipped: no DB binding configured");
+    return { checked: 0, triggered: 0 };
+  }
+
+  const alerts = await listAlerts(env, true);
+  logger.info("Checking price alerts", { active: alerts.length });
+
+  const groups = new Map<string, PriceAlert[]>();
+  for (const alert of alerts) {
+    const key = `${alert.symbol}|${alertTimeframe(alert.condition)}`;
+    groups.set(key, [...(groups.get(key) || []), alert]);
+  }
+
+  let triggered = 0;
+  for (const group of groups.values()) {
+    const { symbol } = group[0];
+    const tf = alertTimeframe(group[0].condition);
+    const lookback = Math.max(...group.map(a => alertLookback(a.condition)));
+
+    try {
+      const { candles } = await fetchKlines(env, `${symbol}${PAIRS_SUFFIX}`, tf, logger, lookback);
+      const checkedAt = Date.now();
+
+      for (const alert of group) {
+        const evaluation = evaluateAlert(alert, candles, checkedAt);
+        if (evaluation.triggered) {
+          try {
+            await deliverAlert(env, logger, alert, evaluation);
+          } catch (error) {
+            // Leave the state untouched so the next check retries the delivery
+            logger.error("Alert delivery failed", { id: alert.id, error: String(error) });
+            continue;
+          }
+          triggered++;
+          logger.info("Price alert triggered", { id: alert.id, alert: describeAlert(alert), value: evaluation.value });
+        }
+        await updateAlertState(env, alert.id, evaluation, checkedAt);
+      }
+    } catch (error) {
+      logger.error("Alert check failed", { symbol, timeframe: tf, error: String(error) });
+    }
+  }
+
+  return { checked: alerts.length, triggered };
+}
@@ -2,175 +2,660 @@
 // ===== ANALYSIS CONTROLLER
 // =====================================
 
-import { Logger, Env, SentimentJSON, AnalysisInput } from '../types';
-import { PAIRS_SUFFIX, DEFAULT_MODEL } from '../config/constants';
-import { buildSymbolList } from '../utils/helpers';
-import { sleep } from '../utils/http';
-import { fetchCryptoNews } from '../services/news';
+import { Logger, Env, SentimentJSON, AnalysisInput, TradeRecommendation, ChartImage, CoinReport, NewsArticle, TimeframeCandles, MarketContext, LLMStep, LLMCall, LLMUsageTotals, PromptVersions, RunPromptVersions, JsonCompletion, CoinJobMessage, RunJobStatus } from '../types';
+import { PAIRS_SUFFIX, LAST_N_TO_KEEP, QUEUE_MAX_MESSAGE_BYTES } from '../config/constants';
+import { mapWithConcurrency } from '../utils/http';
+import { computeAllIndicators } from '../utils/indicators';
+import { fetchCryptoNews, fetchCoinNews } from '../services/news';
 import { fetchAllTimeframes } from '../services/crypto-candles';
-import { 
-  geminiCompletionJSON, 
-  geminiCompletionText, 
-  buildSentimentPrompt, 
-  buildAgentInstruction 
-} from '../services/gemini';
-import { sendTelegram } from '../services/telegram';
-
-// Send error message to Telegram
-async function sendErrorMessage(env: Env, logger: Logger, errorType: string, error: string, details?: any): Promise<void> {
-  const errorMessage = `🚨 <b>Crypto Analysis Error</b>\n\n` +
-    `<b>Error Type:</b> ${errorType}\n` +
-    `<b>Error:</b> ${error}\n` +
-    `<b>Time:</b> ${new Date().toISOString()}\n` +
-    (details ? `\n<b>Details:</b>\n<code>${JSON.stringify(details, null, 2)}</code>` : '');
-  
+import {
+  buildSentimentPrompt,
+  buildAgentInstruction,
+  loadPromptTemplate,
+  shrinkArticles,
+  shrinkAnalysisInput,
+} from '../services/prompts';
+import { completeJSON, withInputShrinking, LLMError, describeLLMFailure } from '../services/llm';
+import { generateCheckedRecommendation } from '../services/recommendation';
+import { sendTelegram, sendTelegramImages } from '../services/telegram';
+import { notify } from '../services/notifications';
+import {
+  startRun,
+  saveCoinResult,
+  finishRun,
+  loadWatchlist,
+  saveLlmCalls,
+  getLlmCostSince,
+  getRunLlmUsage,
+  isStorageEnabled,
+  queueRunJobs,
+  settleRunJob,
+  claimSettledRun,
+  getRunCoinReports,
+  saveRunArticles,
+  saveErrorLog,
+  getLatestRun,
+} from '../services/storage';
+import { renderRecommendationHtml, recommendationNotification } from '../utils/render';
+import { renderCoinCharts } from '../utils/charts';
+import { digestNotification } from '../utils/digest';
+import { coinAliases, llmTargets, selectPromptVersion, dailyBudgetUsd, maxConcurrentRequests, chartsEnabled, digestMode, escapeHtml } from '../utils/helpers';
+import { summarizeCalls, formatUsage, formatCost } from '../utils/usage';
+
+// Provider chain of an LLM step for logs and error reports, e.g. "gemini:gemini-2.5-flash -> openai:llama3.1"
+function describeLlm(env: Env, step: LLMStep): string {
+  return llmTargets(env, step).map(t => `${t.provider}:${t.model || "default"}`).join(" -> ");
+}
+
+// Prompt versions for one coin of a run (stable per run and coin, see PROMPT_AB_SPLIT)
+function coinPromptVersions(env: Env, runId: string, coin: string): PromptVersions {
+  return {
+    sentiment: selectPromptVersion(env, "sentiment", runId, coin),
+    agent: selectPromptVersion(env, "agent", runId, coin),
+  };
+}
+
+// Chart images for a report; a chart that fails to render never holds back the text
+async function coinCharts(
+  env: Env,
+  logger: Logger,
+  symbol: string,
+  allCandles: TimeframeCandles[],
+  recommendation: TradeRecommendation
+): Promise<ChartImage[]> {
+  if (!chartsEnabled(env)) return [];
   try {
-    await sendTelegram(env, logger, errorMessage);
-    logger.info("Error message sent to Telegram", { errorType, error });
-  } catch (telegramError) {
-    logger.error("Failed to send error message to Telegram", { 
+    return await renderCoinCharts(symbol, allCandles, recommendation);
+  } catch (error) {
+    logger.warn("Chart rendering failed", { symbol, error: String(error) });
+    return [];
+  }
+}
+
+// Full report of one coin with its charts to a chat (on-demand analysis and details opened from a digest)
+export async function sendCoinReport(
+  env: Env,
+  logger: Logger,
+  chatId: string,
+  report: CoinReport,
+  allCandles: TimeframeCandles[],
+  date = new Date()
+): Promise<void> {
+  const { symbol, recommendation, violations } = report;
+  await sendTelegram(env, logger, renderRecommendationHtml(symbol, recommendation, violations, date), chatId);
+  const images = await coinCharts(env, logger, symbol, allCandles, recommendation);
+  if (images.length) {
+    await sendTelegramImages(env, logger, images, chatId).catch(error =>
+      logger.warn("Failed to send Telegram images", { symbol, error: String(error) }));
+  }
+}
+
+// Log the error for the dashboard and send it to the error channels; LLM failures also report their class
+// (SAFETY, MAX_TOKENS, ...)
+async function sendErrorMessage(
+  env: Env,
+  logger: Logger,
+  errorType: string,
+  error: string,
+  details?: Record<string, unknown>,
+  cause?: unknown
+): Promise<void> {
+  const now = new Date();
+  const failureClass = describeLLMFailure(cause);
+  await saveErrorLog(env, logger, { errorType, failureClass, message: error, details });
+  try {
+    await notify(env, logger, {
+      kind: "error",
+      level: "error",
+      title: "Crypto Analysis Error",
+      fields: [
+        { name: "Error Type", value: errorType },
+        ...(failureClass ? [{ name: "Failure Class", value: failureClass }] : []),
+        { name: "Error", value: error },
+        { name: "Time", value: now.toISOString() },
+      ],
+      sections: details ? [{ heading: "Details", lines: [JSON.stringify(details, null, 2)], code: true }] : [],
+      timestamp: now.getTime(),
+      data: { errorType, failureClass, error, details: details ?? null },
+    });
+    logger.info("Error message sent", { errorType, error });
+  } catch (notifyError) {
+    logger.error("Failed to send error message", { 
       originalError: error, 
-      telegramError: String(telegramError) 
+      notifyError: String(notifyError) 
     });
   }
 }
 
-// Analyze a single coin
+// Assemble the agent input: indicators use the full history, the prompt only carries the most recent candles
+export function buildAnalysisInput(
+  symbol: string,
+  allCandles: TimeframeCandles[],
+  sentiment: SentimentJSON,
+  marketSentiment: SentimentJSON
+): AnalysisInput {
+  return {
+    symbol,
+    allCandles: allCandles.map(tc => ({
+      timeframe: tc.timeframe,
+      candles: tc.candles.slice(-LAST_N_TO_KEEP),
+    })),
+    indicators: computeAllIndicators(allCandles),
+    sentiment,
+    marketSentiment,
+  };
+}
+
+function neutralSentiment(rationale: string): SentimentJSON {
+  return {
+    shortTermSentiment: { category: "Neutral", score: 0, rationale },
+    longTermSentiment: { category: "Neutral", score: 0, rationale },
+  };
+}
+
+// Score sentiment from news about this coin only; falls back to neutral (never to the market view).
+// Returns the articles it was scored from next to the sentiment.
+export async function fetchCoinSentiment(
+  env: Env,
+  logger: Logger,
+  coin: string,
+  market: MarketContext,
+  promptVersion: string,
+  calls: LLMCall[]
+): Promise<{ sentiment: SentimentJSON; articles: NewsArticle[] }> {
+  const articles = await fetchCoinNews(env, logger, coin, market.articles);
+  if (articles.length === 0) {
+    return { sentiment: neutralSentiment(`No recent news specifically about ${coin}.`), articles };
+  }
+
+  // A missing template is a configuration error, so it fails the coin instead of falling back to neutral
+  const template = await loadPromptTemplate(env, logger, "sentiment", promptVersion);
+  const focus = { coin, aliases: coinAliases(env, coin) };
+
+  try {
+    const raw = await withInputShrinking(logger, `sentiment ${coin}`, level => {
+      const shrunk = shrinkArticles(articles, level);
+      const prompt = buildSentimentPrompt(shrunk, focus, template);
+      logger.debug("Calling Sentiment model for coin", {
+        llm: describeLlm(env, "sentiment"),
+        prompt: promptVersion,
+        coin,
+        articleCount: shrunk.length,
+      });
+      return completeJSON(env, logger, prompt.system, prompt.user, { step: "sentiment", calls });
+    });
+    return { sentiment: JSON.parse(raw) as SentimentJSON, articles };
+  } catch (error) {
+    logger.warn("Coin sentiment failed, using neutral", { coin, error: String(error), failureClass: describeLLMFailure(error) });
+    return { sentiment: neutralSentiment(`Sentiment for ${coin} could not be scored: ${String(error)}`), articles };
+  }
+}
+
+// Analyze a single coin; in digest mode coins of a run are only reported through the run's digest.
+// Queued coins pass reportFailure=false: a failed attempt is retried and only the dead-letter queue reports it.
 export async function analyzeCoin(
   env: Env, 
   logger: Logger, 
   coin: string, 
-  sentiment: SentimentJSON
-): Promise<void> {
+  market: MarketContext,
+  runId?: string,
+  chatId?: string,
+  calls: LLMCall[] = [],
+  reportFailure = true
+): Promise<CoinReport> {
   const symbol = `${coin}${PAIRS_SUFFIX}`;
   logger.info("Fetching candles", { symbol });
   
+  // On-demand requests have no run, so they get a random A/B bucket
+  const prompts = coinPromptVersions(env, runId ?? crypto.randomUUID(), coin);
+
+  let input: AnalysisInput | undefined;
+  let sentiment = market.sentiment;
+  let articles: NewsArticle[] | undefined;
   try {
-    const perCoin = await fetchAllTimeframes(symbol, logger);
+    const perCoin = await fetchAllTimeframes(env, symbol, logger);
+    ({ sentiment, articles } = await fetchCoinSentiment(env, logger, coin, market, prompts.sentiment, calls));
 
-    const input: AnalysisInput = {
-      symbol,
-      allCandles: perCoin.allCandles,
-      sentiment,
-    };
+    input = buildAnalysisInput(symbol, perCoin.allCandles, sentiment, market.sentiment);
+    logger.debug("Computed indicators", { symbol, indicators: input.indicators });
 
-    const model = env.GEMINI_MODEL_AGENT || DEFAULT_MODEL;
-    const { system, user } = buildAgentInstruction(symbol, input);
+    const template = await loadPromptTemplate(env, logger, "agent", prompts.agent);
+    const complete: JsonCompletion = (e, l, sys, usr, options) => completeJSON(e, l, sys, usr, { ...options, calls });
+    const checked = input;
 
-    logger.debug("Calling AI Agent model", { model, symbol });
-    const content = await geminiCompletionText(env, logger, system, user);
+    // The guardrails always check against the full input; only the prompt is shrunk
+    const { recommendation, violations } = await withInputShrinking(logger, `agent ${symbol}`, level => {
+      const { system, user } = buildAgentInstruction(symbol, shrinkAnalysisInput(checked, level), template);
+      logger.debug("Calling AI Agent model", { llm: describeLlm(env, "agent"), prompt: prompts.agent, symbol, shrinkLevel: level });
+      return generateCheckedRecommendation(env, logger, system, user, checked, complete);
+    });
 
-    // Ship to Telegram
-    await sendTelegram(env, logger, content);
+    // Render locally (failed guardrails are flagged as rejected); on-demand requests reply to the asking chat
+    const report: CoinReport = { symbol, recommendation, violations, sentiment };
+    if (chatId) {
+      await sendCoinReport(env, logger, chatId, report, input.allCandles);
+    } else if (runId && digestMode(env)) {
+      logger.debug("Coin report deferred to the run digest", { symbol });
+    } else {
+      const images = await coinCharts(env, logger, symbol, input.allCandles, recommendation);
+      await notify(env, logger, { ...recommendationNotification(symbol, recommendation, violations), images });
+    }
+
+    if (runId) await saveCoinResult(env, logger, { runId, symbol, prompts, input, recommendation, violations, articles }, sentiment);
+    return report;
   } catch (error) {
     logger.error("Coin analysis failed", { coin, error: String(error) });
-    await sendErrorMessage(env, logger, "Crypto Data Error", `Failed to analyze ${coin}`, {
-      coin,
-      error: String(error),
-      symbol
-    });
+    if (runId) await saveCoinResult(env, logger, { runId, symbol, prompts, input, articles, error: String(error) }, sentiment);
+    if (reportFailure) {
+      await sendErrorMessage(env, logger, error instanceof LLMError ? "AI Agent Error" : "Crypto Data Error", `Failed to analyze ${coin}`, {
+        coin,
+        error: String(error),
+        symbol
+      }, error);
+    }
     throw error; // Re-throw to stop processing
+  } finally {
+    if (calls.length) {
+      logger.info("Coin LLM usage", { symbol, usage: formatUsage(summarizeCalls(calls)) });
+      await saveLlmCalls(env, logger, runId ?? null, symbol, calls);
+    }
   }
 }
 
-// Main analysis workflow
-export async function handleRun(env: Env, logger: Logger): Promise<{ ok: boolean; coins: string[]; error?: string }> {
+// Report a queued coin that failed every delivery, with the error of its last attempt
+export async function reportDeadCoinJob(env: Env, logger: Logger, coin: string, lastError: string | null): Promise<void> {
+  await sendErrorMessage(env, logger, "Queue Error", `Failed to analyze ${coin} after every retry`, {
+    coin,
+    symbol: `${coin}${PAIRS_SUFFIX}`,
+    error: lastError ?? "unknown",
+  });
+}
+
+// Without market news the run goes on with a neutral market sentiment: coins still have price data and their own news
+function noMarketNews(reason: string): MarketContext {
+  return {
+    sentiment: neutralSentiment(`No market news available (${reason}); coins are analyzed on price data and their own news.`),
+    articles: [],
+    newsError: reason,
+  };
+}
+
+// Fetch news and score the global market sentiment (news failures fall back to neutral; LLM errors are reported and re-thrown)
+export async function fetchMarketContext(
+  env: Env,
+  logger: Logger,
+  promptVersion = selectPromptVersion(env, "sentiment", crypto.randomUUID()),
+  runId: string | null = null,
+  calls: LLMCall[] = []
+): Promise<MarketContext> {
+  // 1) Fetch & filter news
+  logger.info("Fetching crypto news");
+  let news: NewsArticle[];
   try {
-    // 1) Fetch & filter news
-    logger.info("Fetching crypto news");
-    let news;
-    try {
-      news = await fetchCryptoNews(env, logger);
-    } catch (error) {
-      logger.error("News fetching failed", { error: String(error) });
-      await sendErrorMessage(env, logger, "News API Error", "Failed to fetch crypto news", {
-        error: String(error),
-        service: "TheNewsAPI"
+    news = await fetchCryptoNews(env, logger);
+  } catch (error) {
+    logger.error("News fetching failed, continuing without market news", { error: String(error) });
+    await sendErrorMessage(env, logger, "News API Error", "Failed to fetch crypto news, analyzing without market news", {
+      error: String(error),
+      service: "News sources"
+    });
+    return noMarketNews(String(error));
+  }
+  if (news.length === 0) return noMarketNews("no market news articles found");
+
+  // 2) Sentiment JSON (global market sentiment, kept next to each coin's own sentiment)
+  let sentimentRaw: string;
+  try {
+    const template = await loadPromptTemplate(env, logger, "sentiment", promptVersion);
+    sentimentRaw = await withInputShrinking(logger, "market sentiment", level => {
+      const articles = shrinkArticles(news, level);
+      const sentPrompt = buildSentimentPrompt(articles, undefined, template);
+      logger.debug("Calling Sentiment model", {
+        llm: describeLlm(env, "sentiment"),
+        prompt: promptVersion,
+        articleCount: articles.length,
       });
-      throw error;
+      return completeJSON(env, logger, sentPrompt.system, sentPrompt.user, { step: "sentiment", calls });
+    });
+  } catch (error) {
+    logger.error("Sentiment analysis failed", { error: String(error) });
+    await sendErrorMessage(env, logger, "AI Sentiment Error", "Failed to analyze news sentiment", {
+      error: String(error),
+      service: describeLlm(env, "sentiment"),
+      articleCount: news.length
+    }, error);
+    throw error;
+  } finally {
+    await saveLlmCalls(env, logger, runId, null, calls);
+  }
+
+  let parsedSentiment: SentimentJSON;
+  try {
+    parsedSentiment = JSON.parse(sentimentRaw) as SentimentJSON;
+  } catch (e) {
+    logger.error("Sentiment parse failed", { raw: sentimentRaw, error: String(e) });
+    await sendErrorMessage(env, logger, "AI Response Error", "Failed to parse sentiment analysis", {
+      error: String(e),
+      rawResponse: sentimentRaw.substring(0, 200) + "...",
+      service: describeLlm(env, "sentiment")
+    });
+    throw new Error(`Failed to parse sentiment response: ${e}`);
+  }
+
+  return { sentiment: parsedSentiment, articles: news };
+}
+
+type RunResult = { ok: boolean; runId: string; coins: string[]; queued?: string[]; error?: string };
+
+// Start of the current UTC day (the daily LLM budget resets then)
+function utcDayStart(): number {
+  const dayStart = new Date();
+  dayStart.setUTCHours(0, 0, 0, 0);
+  return dayStart.getTime();
+}
+
+// Whether today's persisted LLM spend has reached LLM_DAILY_BUDGET_USD
+export async function dailyBudgetReached(env: Env): Promise<boolean> {
+  const budget = dailyBudgetUsd(env);
+  return budget !== null && await getLlmCostSince(env, utcDayStart()) >= budget;
+}
+
+// Reply to /analyze when the daily LLM budget is used up
+export function budgetReachedReply(env: Env): string {
+  return `⛔ The daily LLM budget of ${formatCost(dailyBudgetUsd(env) ?? 0)} is used up, try again after 00:00 UTC.`;
+}
+
+// On-demand analysis for a chat (/analyze): reuses the last run's market sentiment (coin news is fetched fresh).
+// The chat always gets an answer: the report, the failure, or a timeout once deadlineMs has passed.
+export async function analyzeForChat(env: Env, logger: Logger, coin: string, chatId: string, deadlineMs?: number): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    if (await dailyBudgetReached(env)) {
+      logger.warn("Daily LLM budget reached, on-demand analysis refused", { coin, budget: dailyBudgetUsd(env) });
+      await sendTelegram(env, logger, budgetReachedReply(env), chatId);
+      return;
     }
 
-    // 2) Sentiment JSON (global market sentiment used for each coin)
-    const model = env.GEMINI_MODEL_SENTIMENT || DEFAULT_MODEL;
-    const sentPrompt = buildSentimentPrompt(news);
-    logger.debug("Calling Sentiment model", { model, articleCount: news.length });
+    const analysis = (async () => {
+      const latest = await getLatestRun(env, true);
+      const market = latest?.sentiment
+        ? { sentiment: latest.sentiment, articles: [] }
+        : await fetchMarketContext(env, logger);
+      await analyzeCoin(env, logger, coin, market, undefined, chatId);
+      return "done" as const;
+    })();
+    const deadline = new Promise<"timeout">(resolve => {
+      if (deadlineMs !== undefined) timer = setTimeout(() => resolve("timeout"), deadlineMs);
+    });
+
+    if (await Promise.race([analysis, deadline]) === "timeout") {
+      // The analysis goes on until the runtime stops it; a later failure is still logged by analyzeCoin
+      analysis.catch(() => undefined);
+      logger.error("On-demand analysis timed out", { coin, deadlineMs });
+      await sendTelegram(env, logger, `⌛ Analysis of <b>${coin}</b> did not finish within ${Math.round(deadlineMs! / 1000)}s, please try again later.`, chatId);
+    }
+  } catch (error) {
+    // analyzeCoin already reports failures to the report chat; tell the requester too
+    logger.error("On-demand analysis failed", { coin, error: String(error) });
+    await sendTelegram(env, logger, `❌ Analysis of <b>${coin}</b> failed: ${escapeHtml(String(error))}`, chatId)
+      .catch(() => undefined);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Send the run summary and record the result (shared by in-process and queued runs)
+async function completeRun(
+  env: Env,
+  logger: Logger,
+  runId: string,
+  outcome: {
+    coins: string[];
+    sentiment: SentimentJSON;
+    promptVersions: RunPromptVersions;
+    successfulCoins: string[];
+    failedCoins: string[];
+    skippedCoins: string[];
+    usage: LLMUsageTotals;
+    usageLines: string[];
+    reports: CoinReport[];       // Successful coins, for the digest
+    newsError: string | null;    // Set when the run had no market news
+  }
+): Promise<RunResult> {
+  const { coins, sentiment, promptVersions, successfulCoins, failedCoins, skippedCoins, usage, newsError } = outcome;
+  logger.info("Run LLM usage", { runId, ...usage });
+  if (skippedCoins.length) {
+    logger.warn("Daily LLM budget reached, coins skipped", { budget: dailyBudgetUsd(env), skippedCoins });
+  }
+
+  // Send the digest or the summary to the report channels; a run without any analyzed coin always gets the summary
+  const noneAnalyzed = successfulCoins.length === 0;
+  if (!noneAnalyzed && digestMode(env)) {
+    await notify(env, logger, digestNotification(runId, outcome.reports, {
+      sentiment,
+      failedCoins,
+      skippedCoins,
+      newsError,
+      usage: formatUsage(usage),
+      withButtons: isStorageEnabled(env),
+    }));
+  } else {
+    const now = new Date();
+    await notify(env, logger, {
+      kind: "report",
+      level: noneAnalyzed ? "error" : "success",
+      title: noneAnalyzed ? "Analysis Failed" : "Analysis Complete",
+      fields: [
+        { name: "Successfully analyzed", value: successfulCoins.join(', ') || "none" },
+        { name: "Total coins", value: String(coins.length) },
+        { name: "Successful", value: String(successfulCoins.length) },
+        { name: "Failed", value: String(failedCoins.length) },
+        ...(skippedCoins.length ? [{ name: "Skipped (LLM budget)", value: skippedCoins.join(', ') }] : []),
+        ...(newsError ? [{ name: "Market news", value: `Unavailable (${newsError}), neutral market sentiment used` }] : []),
+        { name: "Prompts", value: `sentiment ${promptVersions.sentiment.join("/")}, agent ${promptVersions.agent.join("/")}` },
+        { name: "LLM usage", value: formatUsage(usage) },
+        { name: "Time", value: now.toISOString() },
+      ],
+      sections: [{ heading: "LLM usage per coin", lines: outcome.usageLines }],
+      timestamp: now.getTime(),
+      data: { runId, successfulCoins, failedCoins, skippedCoins, promptVersions, usage, newsError },
+    });
+  }
 
-    let sentimentRaw: string;
+  if (failedCoins.length > 0 || skippedCoins.length > 0) {
+    // Skipped coins are stored with the failed ones so /status lists them
+    const error = [
+      failedCoins.length ? `Failed to analyze: ${failedCoins.join(', ')}` : "",
+      skippedCoins.length ? `Skipped after reaching the daily LLM budget: ${skippedCoins.join(', ')}` : "",
+    ].filter(Boolean).join("; ");
+    await finishRun(env, logger, runId, {
+      status: noneAnalyzed ? "failed" : "partial",
+      sentiment,
+      successfulCoins,
+      failedCoins: [...failedCoins, ...skippedCoins],
+      error,
+      promptVersions
+    });
+    return { 
+      ok: false, 
+      runId,
+      coins: successfulCoins, 
+      error
+    };
+  }
+
+  await finishRun(env, logger, runId, { status: "ok", sentiment, successfulCoins, failedCoins, promptVersions });
+  return { ok: true, runId, coins: successfulCoins };
+}
+
+// Queue fan-out: one message per coin, each analyzed in its own consumer invocation
+async function enqueueCoins(
+  env: Env & { DB: D1Database },
+  logger: Logger,
+  queue: Queue<CoinJobMessage>,
+  runId: string,
+  coins: string[],
+  market: MarketContext,
+  promptVersions: RunPromptVersions
+): Promise<RunResult> {
+  // Without the articles (message size limit) each coin searches its own news
+  const fits = new TextEncoder().encode(JSON.stringify(market)).length <= QUEUE_MAX_MESSAGE_BYTES;
+  const shared: MarketContext = fits ? market : { sentiment: market.sentiment, articles: [] };
+  if (!fits) logger.warn("Market articles too large for queue messages, coins search their own news", { runId });
+
+  await queueRunJobs(env, runId, coins, market.sentiment, promptVersions);
+  const queued: string[] = [];
+  for (const coin of coins) {
     try {
-      sentimentRaw = await geminiCompletionJSON(env, logger, sentPrompt.system, sentPrompt.user);
+      await queue.send({ runId, coin, market: shared, prompts: coinPromptVersions(env, runId, coin) });
+      queued.push(coin);
     } catch (error) {
-      logger.error("Sentiment analysis failed", { error: String(error) });
-      await sendErrorMessage(env, logger, "AI Sentiment Error", "Failed to analyze news sentiment", {
-        error: String(error),
-        service: "Google Gemini AI",
-        articleCount: news.length
-      });
-      throw error;
+      logger.error("Failed to enqueue coin", { runId, coin, error: String(error) });
+      await settleRunJob(env, runId, coin, "failed", `Failed to enqueue: ${String(error)}`);
     }
+  }
+  logger.info("Coins queued for analysis", { runId, queued });
 
-    let sentiment: SentimentJSON;
-    try {
-      sentiment = JSON.parse(sentimentRaw) as SentimentJSON;
-    } catch (e) {
-      logger.error("Sentiment parse failed", { raw: sentimentRaw, error: String(e) });
-      await sendErrorMessage(env, logger, "AI Response Error", "Failed to parse sentiment analysis", {
-        error: String(e),
-        rawResponse: sentimentRaw.substring(0, 200) + "...",
-        service: "Google Gemini AI"
-      });
-      throw new Error(`Failed to parse sentiment response: ${e}`);
+  // Nothing left to wait for when every send failed
+  if (!queued.length) await finishQueuedRun(env, logger, runId);
+  return { ok: queued.length === coins.length, runId, coins: [], queued };
+}
+
+// Summarize a queued run once every coin is settled; a no-op before that and for all callers but one
+export async function finishQueuedRun(env: Env & { DB: D1Database }, logger: Logger, runId: string): Promise<void> {
+  const claimed = await claimSettledRun(env, runId);
+  if (!claimed) return;
+
+  const { run, jobs } = claimed;
+  const coinsWith = (status: RunJobStatus) => jobs.filter(j => j.status === status).map(j => j.coin);
+  const usage = await getRunLlmUsage(env, runId);
+  const usageOf = (symbol: string | null) => usage.perCoin.find(c => c.symbol === symbol);
+  const market = usageOf(null);
+
+  const result = await completeRun(env, logger, runId, {
+    coins: jobs.map(j => j.coin),
+    sentiment: run.sentiment ?? neutralSentiment("Market sentiment missing"),
+    promptVersions: run.promptVersions ?? { sentiment: [], agent: [] },
+    successfulCoins: coinsWith("ok"),
+    failedCoins: coinsWith("failed"),
+    skippedCoins: coinsWith("skipped"),
+    usage: usage.totals,
+    reports: digestMode(env) ? await getRunCoinReports(env, runId) : [],
+    newsError: run.newsError,
+    usageLines: [
+      ...(market ? [`Market sentiment: ${formatUsage(market)}`] : []),
+      ...jobs.flatMap(j => {
+        const coinUsage = usageOf(`${j.coin}${PAIRS_SUFFIX}`);
+        return coinUsage ? [`${j.coin}: ${formatUsage(coinUsage)}`] : [];
+      }),
+    ],
+  });
+  logger.info("Queued run finished", { ...result });
+}
+
+// Main analysis workflow
+export async function handleRun(env: Env, logger: Logger): Promise<RunResult> {
+  const runId = crypto.randomUUID();
+  await startRun(env, logger, runId, Date.now());
+  logger.info("Starting analysis run", { runId });
+
+  let sentiment: SentimentJSON | undefined;
+  let promptVersions: RunPromptVersions | undefined;
+  try {
+    // Daily LLM budget: spend persisted earlier today plus this run's calls
+    const budget = dailyBudgetUsd(env);
+    const spentBefore = budget === null ? 0 : await getLlmCostSince(env, utcDayStart());
+    const marketCalls: LLMCall[] = [];
+    const coinCalls: Record<string, LLMCall[]> = {};
+    const runCalls = () => [...marketCalls, ...Object.values(coinCalls).flat()];
+    const overBudget = () => budget !== null && spentBefore + summarizeCalls(runCalls()).costUsd >= budget;
+    if (overBudget()) {
+      throw new Error(`Daily LLM budget of ${formatCost(budget!)} already used (${formatCost(spentBefore)} spent today)`);
     }
 
-    // 3) For each coin: fetch candles and run AI agent
-    const coins = buildSymbolList(env);
-    logger.info("Analyzing coins", { coins });
+    // 1-2) News and global market sentiment
+    const marketPrompt = selectPromptVersion(env, "sentiment", runId);
+    promptVersions = { sentiment: [marketPrompt], agent: [] };
+    const market = await fetchMarketContext(env, logger, marketPrompt, runId, marketCalls);
+    sentiment = market.sentiment;
+    await saveRunArticles(env, logger, runId, market.articles, market.newsError ?? null);
 
-    const successfulCoins: string[] = [];
-    const failedCoins: string[] = [];
+    // 3) For each coin: fetch candles, score coin news and run AI agent
+    const coins = await loadWatchlist(env, logger);
+    logger.info("Analyzing coins", { coins });
 
-    // Sequential per coin to stay within rate limits & stay predictable
+    // Record every prompt version the run uses so A/B results can be compared later
     for (const coin of coins) {
-      try {
-        await analyzeCoin(env, logger, coin, sentiment);
-        successfulCoins.push(coin);
-        await sleep(600); // stagger model calls a bit
-      } catch (err) {
-        logger.error("Per-coin analysis failed", { coin, error: String(err) });
-        failedCoins.push(coin);
-        // Continue with other coins even if one fails
-      }
+      const prompts = coinPromptVersions(env, runId, coin);
+      if (!promptVersions.sentiment.includes(prompts.sentiment)) promptVersions.sentiment.push(prompts.sentiment);
+      if (!promptVersions.agent.includes(prompts.agent)) promptVersions.agent.push(prompts.agent);
     }
 
-    // Send summary to Telegram
-    if (successfulCoins.length > 0) {
-      const summaryMessage = `✅ <b>Analysis Complete</b>\n\n` +
-        `<b>Successfully analyzed:</b> ${successfulCoins.join(', ')}\n` +
-        `<b>Total coins:</b> ${coins.length}\n` +
-        `<b>Successful:</b> ${successfulCoins.length}\n` +
-        `<b>Failed:</b> ${failedCoins.length}\n` +
-        `<b>Time:</b> ${new Date().toISOString()}`;
-      
-      await sendTelegram(env, logger, summaryMessage);
+    // With a queue each coin runs in its own invocation and the last one to settle sends the summary
+    if (env.ANALYSIS_QUEUE && isStorageEnabled(env)) {
+      return await enqueueCoins(env, logger, env.ANALYSIS_QUEUE, runId, coins, market, promptVersions);
     }
+    if (env.ANALYSIS_QUEUE) logger.warn("ANALYSIS_QUEUE needs the DB binding to aggregate results, analyzing in-process");
 
-    if (failedCoins.length > 0) {
-      return { 
-        ok: false, 
-        coins: successfulCoins, 
-        error: `Failed to analyze: ${failedCoins.join(', ')}` 
-      };
-    }
+    const successfulCoins: string[] = [];
+    const failedCoins: string[] = [];
+    const skippedCoins: string[] = [];
+
+    // Coins run MAX_CONCURRENT_REQUESTS at a time (upstream rate limits pace the requests); results are
+    // collected in watchlist order so the summary doesn't depend on which coin finished first.
+    // The budget is checked as each coin starts, so coins already in flight may finish above it.
+    const results = await mapWithConcurrency(coins, maxConcurrentRequests(env), async coin => {
+      if (overBudget()) return null;
+      coinCalls[coin] = [];
+      return analyzeCoin(env, logger, coin, market, runId, undefined, coinCalls[coin]);
+    });
+    const reports: CoinReport[] = [];
+    results.forEach((result, idx) => {
+      const coin = coins[idx];
+      if (result.status === "rejected") {
+        logger.error("Per-coin analysis failed", { coin, error: String(result.reason) });
+        failedCoins.push(coin);
+      } else if (result.value) {
+        successfulCoins.push(coin);
+        reports.push(result.value);
+      } else {
+        skippedCoins.push(coin);
+      }
+    });
 
-    return { ok: true, coins: successfulCoins };
+    return await completeRun(env, logger, runId, {
+      coins,
+      sentiment,
+      promptVersions,
+      successfulCoins,
+      failedCoins,
+      skippedCoins,
+      usage: summarizeCalls(runCalls()),
+      usageLines: [
+        `Market sentiment: ${formatUsage(summarizeCalls(marketCalls))}`,
+        ...coins.filter(coin => coinCalls[coin]).map(coin => `${coin}: ${formatUsage(summarizeCalls(coinCalls[coin]))}`),
+      ],
+      reports,
+      newsError: market.newsError ?? null,
+    });
   } catch (error) {
     logger.error("Main analysis workflow failed", { error: String(error) });
     await sendErrorMessage(env, logger, "System Error", "Crypto analysis workflow failed", {
       error: String(error),
       timestamp: new Date().toISOString()
-    });
+    }, error);
     
+    await finishRun(env, logger, runId, {
+      status: "failed",
+      sentiment,
+      successfulCoins: [],
+      failedCoins: [],
+      error: String(error),
+      promptVersions
+    });
     return { 
       ok: false, 
+      runId,
       coins: [], 
       error: String(error) 
     };
@@ -27,15 +27,37 @@ export async function handleTestTelegram(env: Env, logger: Logger): Promise<Resp
   }
 }
 
-// Manual run endpoint
-export async function handleManualRun(env: Env, logger: Logger): Promise<Response> {
+// Manual run endpoint. ?prompt_sentiment=v2&prompt_agent=v1,v2 picks the prompt versions for this run only.
+export async function handleManualRun(request: Request, env: Env, logger: Logger): Promise<Response> {
+  const url = new URL(request.url);
+  const runEnv: Env = {
+    ...env,
+    PROMPT_VERSION_SENTIMENT: url.searchParams.get("prompt_sentiment") || env.PROMPT_VERSION_SENTIMENT,
+    PROMPT_VERSION_AGENT: url.searchParams.get("prompt_agent") || env.PROMPT_VERSION_AGENT,
+  };
+
   try {
-    const result = await handleRun(env, logger);
+    const result = await handleRun(runEnv, logger);
+
+    // Queued runs report through the consumer once every coin is done
+    if (result.queued && result.ok) {
+      return new Response(JSON.stringify({
+        ok: true,
+        message: "Analysis queued",
+        runId: result.runId,
+        queued: result.queued,
+        timestamp: new Date().toISOString()
+      }), {
+        status: 202,
+        headers: { "content-type": "application/json" },
+      });
+    }
     
     if (result.ok) {
       return new Response(JSON.stringify({
         ok: true,
         message: "Analysis completed successfully",
+        runId: result.runId,
         coins: result.coins,
         timestamp: new Date().toISOString()
       }), {
@@ -45,6 +67,7 @@ export async function handleManualRun(env: Env, logger: Logger): Promise<Respons
       return new Response(JSON.stringify({
         ok: false,
         message: "Analysis completed with errors",
+        runId: result.runId,
         coins: result.coins,
         error: result.error,
         timestamp: new Date().toISOString()
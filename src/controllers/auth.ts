@@ -0,0 +1,213 @@
+// =====================================
+// ===== API AUTH CONTROLLER
+// ===== Purpose: API keys with scopes, rate limits per key and IP, and an audit log for the HTTP endpoints
+// =====================================
+
+import { Logger, Env, ApiKey, ApiScope, ApiAuthMethod, ApiAuditEntry } from '../types';
+import { API_RATE_WINDOW_MS, API_SIGNATURE_TOLERANCE_SECONDS } from '../config/constants';
+import { apiKeys, rateLimits, constantTimeEqual, hmacSha256Hex } from '../utils/helpers';
+import { isStorageEnabled, hitRateLimit, saveApiAudit, claimApiSignature } from '../services/storage';
+
+type AuthResult =
+  | { ok: true; key: ApiKey; method: ApiAuthMethod }
+  | { ok: false; keyId: string | null; method: ApiAuthMethod | null; reason: string };
+
+// Counters and served signatures of this isolate, used when D1 is not bound (or not reachable)
+const memoryWindows = new Map<string, { windowStart: number; count: number }>();
+const memorySignatures = new Map<string, number>();
+
+function json(body: unknown, status: number, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+function clientIp(request: Request): string | null {
+  return request.headers.get("cf-connecting-ip");
+}
+
+function claimInMemory(id: string, expiresAt: number): boolean {
+  const now = Date.now();
+  for (const [name, expires] of memorySignatures) if (expires < now) memorySignatures.delete(name);
+  if (memorySignatures.has(id)) return false;
+  memorySignatures.set(id, expiresAt);
+  return true;
+}
+
+// Whether a valid signature is used for the first time: shared through D1 when bound, per isolate otherwise
+async function claimSignature(env: Env, logger: Logger, keyId: string, signature: string, expiresAt: number): Promise<boolean> {
+  if (!isStorageEnabled(env)) return claimInMemory(`${keyId}:${signature}`, expiresAt);
+  try {
+    return await claimApiSignature(env, keyId, signature, expiresAt);
+  } catch (error) {
+    logger.warn("Failed to record API signature", { keyId, error: String(error) });
+    return claimInMemory(`${keyId}:${signature}`, expiresAt);
+  }
+}
+
+// `Authorization: Bearer <secret>`, `Authorization: Basic <key id:secret>` (browsers), or `X-Key-Id` with
+// `X-Signature` = "sha256=" + HMAC(secret, "<X-Signature-Timestamp>.<METHOD>.<path?query>.<raw body>").
+// A signature is accepted once; it is remembered until its timestamp leaves the allowed skew.
+async function authenticate(request: Request, env: Env, logger: Logger, keys: ApiKey[]): Promise<AuthResult> {
+  const authorization = request.headers.get("authorization") || "";
+  if (/^basic\s/i.test(authorization)) {
+    let decoded = "";
+    try {
+      decoded = atob(authorization.slice(6).trim());
+    } catch {
+      // Not base64: rejected below
+    }
+    const sep = decoded.indexOf(":");
+    const keyId = sep > 0 ? decoded.slice(0, sep) : null;
+    const key = keys.find(k => k.id === keyId);
+    return key && constantTimeEqual(decoded.slice(sep + 1), key.secret)
+      ? { ok: true, key, method: "basic" }
+      : { ok: false, keyId, method: "basic", reason: "invalid basic credentials" };
+  }
+  if (/^bearer\s/i.test(authorization)) {
+    const token = authorization.slice(7).trim();
+    // Compare against every key so the timing does not tell which one matched
+    const key = keys.filter(k => constantTimeEqual(token, k.secret))[0];
+    return key
+      ? { ok: true, key, method: "bearer" }
+      : { ok: false, keyId: null, method: "bearer", reason: "invalid bearer token" };
+  }
+
+  const keyId = request.headers.get("x-key-id");
+  const signature = request.headers.get("x-signature");
+  if (!keyId && !signature) return { ok: false, keyId: null, method: null, reason: "missing credentials" };
+
+  const fail = (reason: string): AuthResult => ({ ok: false, keyId, method: "hmac", reason });
+  const key = keys.find(k => k.id === keyId);
+  if (!key) return fail("unknown key id");
+  const timestamp = request.headers.get("x-signature-timestamp") || "";
+  if (!signature || !(Math.abs(Date.now() / 1000 - Number(timestamp)) <= API_SIGNATURE_TOLERANCE_SECONDS)) {
+    return fail("missing signature or timestamp outside the allowed skew");
+  }
+
+  const url = new URL(request.url);
+  const body = await request.clone().text();
+  const expected = `sha256=${await hmacSha256Hex(key.secret, `${timestamp}.${request.method}.${url.pathname}${url.search}.${body}`)}`;
+  if (!constantTimeEqual(signature, expected)) return fail("invalid signature");
+
+  const expiresAt = (Number(timestamp) + API_SIGNATURE_TOLERANCE_SECONDS) * 1000;
+  return await claimSignature(env, logger, key.id, signature, expiresAt)
+    ? { ok: true, key, method: "hmac" }
+    : fail("signature already used");
+}
+
+function countInMemory(bucket: string, windowStart: number): number {
+  const entry = memoryWindows.get(bucket);
+  const count = entry && entry.windowStart === windowStart ? entry.count + 1 : 1;
+  if (count === 1) {
+    for (const [name, e] of memoryWindows) if (e.windowStart < windowStart) memoryWindows.delete(name);
+  }
+  memoryWindows.set(bucket, { windowStart, count });
+  return count;
+}
+
+// Requests seen in the current window for a bucket: shared through D1 when bound, per isolate otherwise
+async function countRequest(env: Env, logger: Logger, bucket: string, windowStart: number): Promise<number> {
+  if (!isStorageEnabled(env)) return countInMemory(bucket, windowStart);
+  try {
+    return await hitRateLimit(env, bucket, windowStart);
+  } catch (error) {
+    logger.warn("Failed to update rate limit counter", { bucket, error: String(error) });
+    return countInMemory(bucket, windowStart);
+  }
+}
+
+function rateWindow(): { windowStart: number; retryAfter: string } {
+  const now = Date.now();
+  const windowStart = now - (now % API_RATE_WINDOW_MS);
+  return { windowStart, retryAfter: String(Math.ceil((windowStart + API_RATE_WINDOW_MS - now) / 1000)) };
+}
+
+function tooManyRequests(retryAfter: string): Response {
+  return json({ ok: false, error: "Too many requests" }, 429, { "retry-after": retryAfter });
+}
+
+// Whether the client IP is over RATE_LIMIT_PER_IP in the current window (every request counts)
+async function ipRateLimited(request: Request, env: Env, logger: Logger, windowStart: number): Promise<boolean> {
+  const ip = clientIp(request);
+  return !!ip && await countRequest(env, logger, `ip:${ip}`, windowStart) > rateLimits(env).perIp;
+}
+
+// Per-IP limit only, for endpoints with their own secret (the Telegram webhook)
+export async function withIpRateLimit(
+  request: Request,
+  env: Env,
+  logger: Logger,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const { windowStart, retryAfter } = rateWindow();
+  if (await ipRateLimited(request, env, logger, windowStart)) {
+    logger.warn("Request rejected by the IP rate limit", { path: new URL(request.url).pathname, ip: clientIp(request) });
+    return tooManyRequests(retryAfter);
+  }
+  return handler();
+}
+
+// Run `handler` for a valid key holding `scope` (admin holds every scope) within the rate limits.
+// Every attempt is logged; all but requests rejected by the IP limit are also written to api_audit_log.
+// challenge "basic" makes browsers ask for the key id and secret (the dashboard).
+export async function withApiKey(
+  request: Request,
+  env: Env,
+  logger: Logger,
+  ctx: ExecutionContext,
+  scope: ApiScope,
+  handler: () => Promise<Response>,
+  challenge: "bearer" | "basic" = "bearer"
+): Promise<Response> {
+  const path = new URL(request.url).pathname;
+  const ip = clientIp(request);
+  const { windowStart, retryAfter } = rateWindow();
+  const limits = rateLimits(env);
+
+  const audit = (entry: Omit<ApiAuditEntry, "scope" | "httpMethod" | "path" | "ip">, persist = true) => {
+    const full: ApiAuditEntry = { ...entry, scope, httpMethod: request.method, path, ip };
+    if (full.outcome === "ok") logger.info("API request", full);
+    else if (full.outcome === "error") logger.error("API request failed", full);
+    else logger.warn("API request rejected", full);
+    if (persist) ctx.waitUntil(saveApiAudit(env, logger, full));
+  };
+
+  if (await ipRateLimited(request, env, logger, windowStart)) {
+    audit({ keyId: null, method: null, status: 429, outcome: "rate_limited", reason: "IP rate limit" }, false);
+    return tooManyRequests(retryAfter);
+  }
+
+  const keys = apiKeys(env);
+  const auth: AuthResult = keys.length
+    ? await authenticate(request, env, logger, keys)
+    : { ok: false, keyId: null, method: null, reason: "no API keys configured (API_KEYS)" };
+  if (!auth.ok) {
+    audit({ keyId: auth.keyId, method: auth.method, status: 401, outcome: "unauthorized", reason: auth.reason });
+    const wwwAuthenticate = challenge === "basic" ? `Basic realm="crypto-worker", charset="UTF-8"` : `Bearer realm="crypto-worker"`;
+    return json({ ok: false, error: "Unauthorized" }, 401, { "www-authenticate": wwwAuthenticate });
+  }
+
+  const { key, method } = auth;
+  if (!key.scopes.includes(scope) && !key.scopes.includes("admin")) {
+    audit({ keyId: key.id, method, status: 403, outcome: "forbidden", reason: `missing scope ${scope}` });
+    return json({ ok: false, error: `This key lacks the ${scope} scope` }, 403);
+  }
+
+  if (await countRequest(env, logger, `key:${key.id}`, windowStart) > limits.perKey) {
+    audit({ keyId: key.id, method, status: 429, outcome: "rate_limited", reason: "key rate limit" });
+    return tooManyRequests(retryAfter);
+  }
+
+  try {
+    // Handlers that catch their own failures answer 5xx; those count as errors too
+    const response = await handler();
+    const failed = response.status >= 500;
+    audit({ keyId: key.id, method, status: response.status, outcome: failed ? "error" : "ok", reason: failed ? `handler answered ${response.status}` : null });
+    return response;
+  } catch (error) {
+    audit({ keyId: key.id, method, status: 500, outcome: "error", reason: String(error) });
+    throw error;
+  }
+}
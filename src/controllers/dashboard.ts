@@ -0,0 +1,72 @@
+// =====================================
+// ===== DASHBOARD CONTROLLER
+// ===== Purpose: HTML pages over the stored run history (behind an API key with the read scope)
+// =====================================
+
+import { Env } from '../types';
+import { DASHBOARD_RUNS, DASHBOARD_ERRORS, DASHBOARD_COIN_HISTORY } from '../config/constants';
+import { renderOverviewPage, renderRunPage, renderCoinPage, renderNotFoundPage } from '../utils/dashboard';
+import {
+  isStorageEnabled,
+  listRuns,
+  listErrorLog,
+  getLatestCoinResults,
+  getRunDetail,
+  getCoinHistory,
+} from '../services/storage';
+
+const SYMBOL_RE = /^[A-Z0-9]{2,20}$/;
+
+function html(body: string, status = 200): Response {
+  return new Response(body, {
+    status,
+    headers: {
+      "content-type": "text/html; charset=utf-8",
+      "cache-control": "no-store",
+      // Pages are static markup with inline styles; no scripts and no framing
+      "content-security-policy": "default-src 'none'; style-src 'unsafe-inline'; img-src data:; frame-ancestors 'none'; base-uri 'none'; form-action 'none'",
+      "x-content-type-options": "nosniff",
+      "referrer-policy": "no-referrer",
+    },
+  });
+}
+
+function text(body: string, status: number, headers: Record<string, string> = {}): Response {
+  return new Response(body, { status, headers: { "content-type": "text/plain; charset=utf-8", ...headers } });
+}
+
+// GET /dashboard, /dashboard/runs/:id and /dashboard/coins/:symbol
+export async function handleDashboard(request: Request, env: Env): Promise<Response> {
+  if (request.method !== "GET") return text("Method not allowed", 405, { allow: "GET" });
+  if (!isStorageEnabled(env)) return text("The dashboard needs the D1 database binding (DB)", 503);
+
+  const path = new URL(request.url).pathname.replace(/\/+$/, "");
+  const [, , section, rawId = ""] = path.split("/");
+  let id: string;
+  try {
+    id = decodeURIComponent(rawId);
+  } catch {
+    return html(renderNotFoundPage("Page not found."), 404);
+  }
+
+  if (!section) {
+    const [latest, runs, errors] = await Promise.all([
+      getLatestCoinResults(env),
+      listRuns(env, DASHBOARD_RUNS),
+      listErrorLog(env, DASHBOARD_ERRORS),
+    ]);
+    return html(renderOverviewPage({ latest, runs, errors }));
+  }
+
+  if (section === "runs" && id) {
+    const detail = await getRunDetail(env, id);
+    return detail ? html(renderRunPage(detail)) : html(renderNotFoundPage("Run not found."), 404);
+  }
+
+  if (section === "coins" && SYMBOL_RE.test(id.toUpperCase())) {
+    const symbol = id.toUpperCase();
+    return html(renderCoinPage(symbol, await getCoinHistory(env, symbol, DASHBOARD_COIN_HISTORY)));
+  }
+
+  return html(renderNotFoundPage("Page not found."), 404);
+}
@@ -0,0 +1,49 @@
+// =====================================
+// ===== METRICS CONTROLLER
+// ===== Purpose: LLM token, cost and latency usage
+// =====================================
+
+import { Env } from '../types';
+import { METRICS_DEFAULT_DAYS, METRICS_MAX_DAYS } from '../config/constants';
+import { dailyBudgetUsd } from '../utils/helpers';
+import { isStorageEnabled, getLlmUsageSince, getRunLlmUsage, getLlmCostSince } from '../services/storage';
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+// GET /metrics?days=7 (totals, per day, per model and recent runs) or /metrics?run=<id> (one run, per coin)
+export async function handleMetrics(request: Request, env: Env): Promise<Response> {
+  if (!isStorageEnabled(env)) {
+    return json({ ok: false, error: "Metrics need the D1 database binding (DB)" }, 503);
+  }
+
+  const url = new URL(request.url);
+  const runId = url.searchParams.get("run");
+  if (runId) {
+    const usage = await getRunLlmUsage(env, runId);
+    if (!usage.totals.calls) return json({ ok: false, error: "No LLM calls recorded for this run" }, 404);
+    return json({ ok: true, ...usage });
+  }
+
+  const requested = parseInt(url.searchParams.get("days") || "", 10);
+  const days = Math.min(Number.isFinite(requested) && requested > 0 ? requested : METRICS_DEFAULT_DAYS, METRICS_MAX_DAYS);
+  const dayStart = new Date();
+  dayStart.setUTCHours(0, 0, 0, 0);
+  const since = dayStart.getTime() - (days - 1) * 24 * 60 * 60 * 1000;
+
+  const [usage, spentToday] = await Promise.all([
+    getLlmUsageSince(env, since),
+    getLlmCostSince(env, dayStart.getTime()),
+  ]);
+  return json({
+    ok: true,
+    days,
+    since: new Date(since).toISOString(),
+    budget: { dailyUsd: dailyBudgetUsd(env), spentTodayUsd: spentToday },
+    ...usage,
+  });
+}
@@ -0,0 +1,59 @@
+// =====================================
+// ===== SIGNAL OUTCOME CONTROLLER
+// =====================================
+
+import { Logger, Env, TrackedSignal, TimeframeId } from '../types';
+import { OUTCOME_TIMEFRAME, SIGNAL_EXPIRY_MS } from '../config/constants';
+import { evaluateOutcome } from '../utils/outcomes';
+import { fetchKlinesSince } from '../services/crypto-candles';
+import { isStorageEnabled, listOpenSignals, updateSignalOutcome } from '../services/storage';
+
+function horizonOf(signal: TrackedSignal): "shortTerm" | "longTerm" {
+  return signal.slot.endsWith("shortTerm") ? "shortTerm" : "longTerm";
+}
+
+// Check open signals against subsequent exchange candles and record whether TP or SL was hit first
+export async function handleOutcomeCheck(
+  env: Env,
+  logger: Logger
+): Promise<{ checked: number; updated: number; closed: number }> {
+  if (!isStorageEnabled(env)) {
+    logger.warn("Outcome check skipped: no DB binding configured");
+    return { checked: 0, updated: 0, closed: 0 };
+  }
+
+  const signals = await listOpenSignals(env);
+  logger.info("Checking signal outcomes", { open: signals.length });
+
+  // One candle request per symbol and timeframe, starting at the oldest open signal
+  const groups = new Map<string, TrackedSignal[]>();
+  for (const signal of signals) {
+    const key = `${signal.symbol}|${OUTCOME_TIMEFRAME[horizonOf(signal)]}`;
+    groups.set(key, [...(groups.get(key) || []), signal]);
+  }
+
+  let updated = 0;
+  let closed = 0;
+  for (const [key, group] of groups) {
+    const [symbol, tfId] = key.split("|");
+    const tf = tfId as TimeframeId;
+    const since = Math.min(...group.map(s => s.createdAt));
+
+    try {
+      const candles = await fetchKlinesSince(env, symbol, tf, since, logger);
+      for (const signal of group) {
+        const outcome = evaluateOutcome(signal, candles, SIGNAL_EXPIRY_MS[horizonOf(signal)]);
+        if (outcome.status === signal.status && outcome.filledAt === signal.filledAt) continue;
+
+        await updateSignalOutcome(env, signal.id, outcome);
+        updated++;
+        if (outcome.closedAt !== null) closed++;
+        logger.info("Signal outcome updated", { id: signal.id, symbol, slot: signal.slot, ...outcome });
+      }
+    } catch (error) {
+      logger.error("Outcome check failed", { symbol, timeframe: tfId, error: String(error) });
+    }
+  }
+
+  return { checked: signals.length, updated, closed };
+}
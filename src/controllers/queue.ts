@@ -0,0 +1,114 @@
+// =====================================
+// ===== QUEUE CONSUMER CONTROLLER
+// ===== Purpose: Analyze one coin per message and summarize the run once every coin is settled;
+// =====          also answers on-demand /analyze requests
+// =====================================
+
+import { Logger, Env, CoinJobMessage, AnalyzeRequestMessage, AnalysisQueueMessage } from '../types';
+import { QUEUE_RETRY_DELAY_SECONDS, PAIRS_SUFFIX } from '../config/constants';
+import { isStorageEnabled, getRunJob, noteRunJobError, hasCoinResult, settleRunJob } from '../services/storage';
+import { sendTelegram } from '../services/telegram';
+import { analyzeCoin, analyzeForChat, finishQueuedRun, dailyBudgetReached, reportDeadCoinJob } from './analysis';
+
+function isAnalyzeRequest(message: Message<AnalysisQueueMessage>): message is Message<AnalyzeRequestMessage> {
+  return "chatId" in message.body;
+}
+
+function retry(message: Message<CoinJobMessage>): void {
+  message.retry({ delaySeconds: QUEUE_RETRY_DELAY_SECONDS * message.attempts });
+}
+
+async function processCoinJob(env: Env & { DB: D1Database }, logger: Logger, message: Message<CoinJobMessage>): Promise<void> {
+  const { runId, coin, market, prompts } = message.body;
+
+  // Queues deliver at least once: a settled coin (or a run this database doesn't know) is not analyzed again
+  const job = await getRunJob(env, runId, coin);
+  if (job?.status !== "queued") {
+    logger.warn("Skipping coin job that is not queued", { runId, coin, status: job?.status ?? null, attempt: message.attempts });
+    message.ack();
+    return;
+  }
+
+  let outcome: "ok" | "skipped" = "ok";
+  if (await hasCoinResult(env, runId, `${coin}${PAIRS_SUFFIX}`)) {
+    // An earlier delivery analyzed and reported the coin but could not settle it
+    logger.warn("Coin already analyzed, settling without a new analysis", { runId, coin, attempt: message.attempts });
+  } else if (await dailyBudgetReached(env)) {
+    outcome = "skipped";
+  } else {
+    try {
+      // Pin the prompt versions picked when the run was queued; failures are reported once, from the dead-letter queue
+      const jobEnv: Env = { ...env, PROMPT_VERSION_SENTIMENT: prompts.sentiment, PROMPT_VERSION_AGENT: prompts.agent };
+      await analyzeCoin(jobEnv, logger, coin, market, runId, undefined, [], false);
+    } catch (error) {
+      logger.warn("Coin job failed, retrying", { runId, coin, attempt: message.attempts, error: String(error) });
+      await noteRunJobError(env, runId, coin, String(error)).catch(noteError =>
+        logger.warn("Failed to record coin job error", { runId, coin, error: String(noteError) })
+      );
+      retry(message);
+      return;
+    }
+  }
+
+  try {
+    await settleRunJob(env, runId, coin, outcome, outcome === "skipped" ? "Daily LLM budget reached" : null);
+  } catch (error) {
+    // The redelivery finds the stored result and only settles
+    logger.warn("Failed to settle coin job, retrying", { runId, coin, attempt: message.attempts, error: String(error) });
+    retry(message);
+    return;
+  }
+
+  message.ack();
+  await finishQueuedRun(env, logger, runId);
+}
+
+// /analyze requests report their own failures to the chat, so only a consumer that was cut off redelivers them
+async function processAnalyzeRequest(env: Env, logger: Logger, message: Message<AnalyzeRequestMessage>): Promise<void> {
+  const { coin, chatId, requestedAt } = message.body;
+  logger.info("On-demand analysis started", { coin, chatId, waitedMs: Date.now() - requestedAt, attempt: message.attempts });
+  await analyzeForChat(env, logger, coin, chatId);
+  message.ack();
+}
+
+// Main queue: one coin of a run, or one /analyze request, per message
+export async function handleCoinJobs(batch: MessageBatch<AnalysisQueueMessage>, env: Env, logger: Logger): Promise<void> {
+  if (!isStorageEnabled(env)) {
+    throw new Error("The analysis queue consumer needs the D1 database binding (DB)");
+  }
+  logger.info("Coin jobs received", { queue: batch.queue, count: batch.messages.length });
+  for (const message of batch.messages) {
+    if (isAnalyzeRequest(message)) {
+      await processAnalyzeRequest(env, logger, message);
+    } else {
+      await processCoinJob(env, logger, message as Message<CoinJobMessage>);
+    }
+  }
+}
+
+// Dead-letter queue: coins that used up their retries count as failed so the run can still be summarized;
+// /analyze requests that never finished are reported to their chat
+export async function handleDeadCoinJobs(batch: MessageBatch<AnalysisQueueMessage>, env: Env, logger: Logger): Promise<void> {
+  if (!isStorageEnabled(env)) {
+    throw new Error("The dead-letter queue consumer needs the D1 database binding (DB)");
+  }
+  for (const message of batch.messages) {
+    if (isAnalyzeRequest(message)) {
+      const { coin, chatId } = message.body;
+      logger.error("On-demand analysis exhausted its retries", { coin, chatId });
+      await sendTelegram(env, logger, `❌ Analysis of <b>${coin}</b> did not complete, please try again later.`, chatId);
+      message.ack();
+      continue;
+    }
+    const { runId, coin } = (message as Message<CoinJobMessage>).body;
+    const job = await getRunJob(env, runId, coin);
+    logger.error("Coin job exhausted its retries", { runId, coin, status: job?.status ?? null, lastError: job?.error ?? null });
+    // Only a job that is still queued is reported; a redelivered dead letter finds it settled
+    if (job?.status === "queued") {
+      await settleRunJob(env, runId, coin, "failed", `Retries exhausted: ${job.error ?? "unknown error"}`);
+      await reportDeadCoinJob(env, logger, coin, job.error);
+    }
+    message.ack();
+    await finishQueuedRun(env, logger, runId);
+  }
+}
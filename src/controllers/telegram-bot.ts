@@ -0,0 +1,225 @@
+// =====================================
+// ===== TELEGRAM BOT CONTROLLER
+// ===== Purpose: Handle commands sent to the bot via the webhook
+// =====================================
+
+import { Logger, Env, SentimentJSON, TelegramUpdate } from '../types';
+import { sendTelegram, answerCallbackQuery } from '../services/telegram';
+import {
+  getLatestRun,
+  getLatestCoinSentiment,
+  getRunCoinDetail,
+  isStorageEnabled,
+  loadWatchlist,
+  saveWatchlist,
+} from '../services/storage';
+import { analyzeForChat, budgetReachedReply, dailyBudgetReached, sendCoinReport } from './analysis';
+import { PAIRS_SUFFIX, TELEGRAM_CALLBACK_COIN, ON_DEMAND_DEADLINE_MS } from '../config/constants';
+import { escapeHtml, constantTimeEqual } from '../utils/helpers';
+
+const HELP_TEXT = `🤖 <b>Commands</b>\n\n` +
+  `/analyze &lt;COIN&gt; — analyze one coin now (e.g. /analyze SOL)\n` +
+  `/sentiment [COIN] — latest market (or coin) sentiment\n` +
+  `/symbols — show the watchlist\n` +
+  `/symbols add|remove &lt;COIN&gt; [COIN...] — edit the watchlist\n` +
+  `/status — last run summary`;
+
+const TICKER_RE = /^[A-Z0-9]{2,15}$/;
+
+// Chats allowed to issue commands (TELEGRAM_ALLOWED_CHAT_IDS, default: the report chat)
+function allowedChatIds(env: Env): Set<string> {
+  const raw = env.TELEGRAM_ALLOWED_CHAT_IDS || env.TELEGRAM_CHAT_ID || "";
+  return new Set(raw.split(",").map(s => s.trim()).filter(Boolean));
+}
+
+// Split "/cmd@BotName arg1 arg2" into a lower-case command and its arguments
+function parseCommand(text: string): { command: string; args: string[] } | null {
+  const parts = text.trim().split(/\s+/);
+  if (!parts[0]?.startsWith("/")) return null;
+  return { command: parts[0].slice(1).split("@")[0].toLowerCase(), args: parts.slice(1) };
+}
+
+function formatSentiment(title: string, sentiment: SentimentJSON, at: number): string {
+  const s = sentiment.shortTermSentiment;
+  const l = sentiment.longTermSentiment;
+  return `📰 <b>${title}</b>\n\n` +
+    `<b>Short term:</b> ${escapeHtml(s.category)} (${s.score})\n${escapeHtml(s.rationale)}\n\n` +
+    `<b>Long term:</b> ${escapeHtml(l.category)} (${l.score})\n${escapeHtml(l.rationale)}\n\n` +
+    `<i>As of ${new Date(at).toISOString()}</i>`;
+}
+
+// /analyze <COIN>: queued when ANALYSIS_QUEUE is bound; otherwise it runs in the background against a deadline,
+// since waitUntil work is stopped shortly after Telegram gets its 200
+async function handleAnalyze(env: Env, logger: Logger, chatId: string, args: string[], ctx: ExecutionContext): Promise<string> {
+  const coin = (args[0] || "").toUpperCase();
+  if (!TICKER_RE.test(coin)) return "Usage: /analyze &lt;COIN&gt; (e.g. /analyze SOL)";
+  if (await dailyBudgetReached(env)) return budgetReachedReply(env);
+
+  if (env.ANALYSIS_QUEUE && isStorageEnabled(env)) {
+    await env.ANALYSIS_QUEUE.send({ coin, chatId, requestedAt: Date.now() });
+    logger.info("On-demand analysis queued", { coin, chatId });
+    return `⏳ Analysis of <b>${coin}</b> queued…`;
+  }
+
+  ctx.waitUntil(analyzeForChat(env, logger, coin, chatId, ON_DEMAND_DEADLINE_MS));
+  return `⏳ Analyzing <b>${coin}</b>…`;
+}
+
+async function handleSentiment(env: Env, args: string[]): Promise<string> {
+  const coin = (args[0] || "").toUpperCase();
+  if (coin) {
+    if (!TICKER_RE.test(coin)) return "Usage: /sentiment [COIN]";
+    const latest = await getLatestCoinSentiment(env, `${coin}${PAIRS_SUFFIX}`);
+    if (!latest) return `No sentiment recorded for <b>${coin}</b> yet.`;
+    return formatSentiment(`${coin} Sentiment`, latest.sentiment, latest.createdAt);
+  }
+
+  const latest = await getLatestRun(env, true);
+  if (!latest?.sentiment) return "No sentiment recorded yet. Try again after the next run.";
+  return formatSentiment("Market Sentiment", latest.sentiment, latest.finishedAt ?? latest.startedAt);
+}
+
+async function handleSymbols(env: Env, logger: Logger, args: string[]): Promise<string> {
+  const current = await loadWatchlist(env, logger);
+  const [action, ...rest] = args;
+  if (!action) return `📋 <b>Watchlist:</b> ${current.join(", ")}`;
+
+  const verb = action.toLowerCase();
+  const coins = rest.map(c => c.toUpperCase());
+  if ((verb !== "add" && verb !== "remove") || !coins.length) {
+    return "Usage: /symbols add|remove &lt;COIN&gt; [COIN...]";
+  }
+  const invalid = coins.filter(c => !TICKER_RE.test(c));
+  if (invalid.length) return `Invalid ticker: ${escapeHtml(invalid.join(", "))}`;
+  if (!isStorageEnabled(env)) return "Watchlist editing needs the D1 database binding (DB).";
+
+  // The first edit seeds the table from SYMBOLS so the configured coins are kept
+  const next = verb === "add"
+    ? [...current, ...coins.filter(c => !current.includes(c))]
+    : current.filter(c => !coins.includes(c));
+  if (!next.length) return "The watchlist cannot be empty.";
+
+  await saveWatchlist(env, next);
+  logger.info("Watchlist updated", { action: verb, coins, watchlist: next });
+  return `📋 <b>Watchlist:</b> ${next.join(", ")}`;
+}
+
+async function handleStatus(env: Env, logger: Logger): Promise<string> {
+  const latest = await getLatestRun(env);
+  const watchlist = await loadWatchlist(env, logger);
+  if (!latest) return `No runs recorded yet.\n\n<b>Watchlist:</b> ${watchlist.join(", ")}`;
+
+  return `📊 <b>Last Run</b>\n\n` +
+    `<b>Status:</b> ${latest.status}\n` +
+    `<b>Started:</b> ${new Date(latest.startedAt).toISOString()}\n` +
+    (latest.finishedAt ? `<b>Finished:</b> ${new Date(latest.finishedAt).toISOString()}\n` : "") +
+    `<b>Successful:</b> ${latest.successfulCoins.join(", ") || "none"}\n` +
+    `<b>Failed:</b> ${latest.failedCoins.join(", ") || "none"}\n` +
+    (latest.error ? `<b>Error:</b> ${escapeHtml(latest.error)}\n` : "") +
+    (latest.promptVersions
+      ? `<b>Prompts:</b> sentiment ${escapeHtml(latest.promptVersions.sentiment.join("/"))}, agent ${escapeHtml(latest.promptVersions.agent.join("/"))}\n`
+      : "") +
+    `\n<b>Watchlist:</b> ${watchlist.join(", ")}`;
+}
+
+// Digest buttons ("coin:<runId>:<symbol>"): send that coin's stored report and charts to the chat
+function handleCoinButton(
+  env: Env,
+  logger: Logger,
+  query: NonNullable<TelegramUpdate["callback_query"]>,
+  ctx: ExecutionContext
+): void {
+  const chatId = query.message ? String(query.message.chat.id) : "";
+  const [kind, runId, symbol] = (query.data || "").split(":");
+  if (!allowedChatIds(env).has(chatId) || kind !== TELEGRAM_CALLBACK_COIN || !runId || !symbol) {
+    logger.warn("Ignored Telegram button", { chatId, data: query.data, from: query.from.id });
+    ctx.waitUntil(answerCallbackQuery(env, logger, query.id).catch(() => undefined));
+    return;
+  }
+  logger.info("Telegram button", { chatId, runId, symbol });
+
+  ctx.waitUntil((async () => {
+    try {
+      await answerCallbackQuery(env, logger, query.id, `Loading ${symbol}…`);
+      const detail = isStorageEnabled(env) ? await getRunCoinDetail(env, runId, symbol) : null;
+      if (!detail) {
+        await sendTelegram(env, logger, `No stored analysis of <b>${escapeHtml(symbol)}</b> for that run.`, chatId);
+        return;
+      }
+      await sendCoinReport(env, logger, chatId, detail.report, detail.allCandles, new Date(detail.createdAt));
+    } catch (error) {
+      logger.error("Failed to send coin details", { runId, symbol, error: String(error) });
+    }
+  })());
+}
+
+// Telegram webhook endpoint: validates the secret token and chat, then dispatches the command
+export async function handleTelegramWebhook(
+  request: Request,
+  env: Env,
+  logger: Logger,
+  ctx: ExecutionContext
+): Promise<Response> {
+  const secret = env.TELEGRAM_WEBHOOK_SECRET;
+  if (!secret || !constantTimeEqual(request.headers.get("X-Telegram-Bot-Api-Secret-Token") || "", secret)) {
+    logger.warn("Rejected Telegram webhook: bad or missing secret token");
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  let update: TelegramUpdate;
+  try {
+    update = await request.json() as TelegramUpdate;
+  } catch {
+    return new Response("Bad Request", { status: 400 });
+  }
+
+  // Always acknowledge from here on, otherwise Telegram keeps redelivering the update
+  const ok = () => new Response("ok");
+  if (update.callback_query) {
+    handleCoinButton(env, logger, update.callback_query, ctx);
+    return ok();
+  }
+
+  const message = update.message;
+  if (!message?.text) return ok();
+
+  const chatId = String(message.chat.id);
+  if (!allowedChatIds(env).has(chatId)) {
+    logger.warn("Ignored Telegram command from unknown chat", { chatId, updateId: update.update_id });
+    return ok();
+  }
+
+  const parsed = parseCommand(message.text);
+  if (!parsed) return ok();
+  logger.info("Telegram command", { chatId, command: parsed.command, args: parsed.args });
+
+  let reply: string;
+  try {
+    switch (parsed.command) {
+      case "analyze":
+        reply = await handleAnalyze(env, logger, chatId, parsed.args, ctx);
+        break;
+      case "sentiment":
+        reply = await handleSentiment(env, parsed.args);
+        break;
+      case "symbols":
+        reply = await handleSymbols(env, logger, parsed.args);
+        break;
+      case "status":
+        reply = await handleStatus(env, logger);
+        break;
+      default:
+        reply = HELP_TEXT;
+    }
+  } catch (error) {
+    logger.error("Telegram command failed", { command: parsed.command, error: String(error) });
+    reply = `❌ Command failed: ${escapeHtml(String(error))}`;
+  }
+
+  try {
+    await sendTelegram(env, logger, reply, chatId);
+  } catch (error) {
+    logger.error("Failed to reply to Telegram command", { chatId, error: String(error) });
+  }
+  return ok();
+}
@@ -1,107 +1,142 @@
 // =====================================
-// ===== KUCOIN CRYPTO DATA SERVICE
+// ===== MARKET DATA SERVICE
 // =====================================
 
-import { Logger, TimeframeCandles, KuCoinCandle, TIMEFRAMES, KuCoinKlineRaw } from '../types';
-import { 
-  LAST_N_TO_KEEP, 
-  KUCOIN_BASE_URL_FULL,
-  KUCOIN_REQUEST_DELAY_MS
-} from '../config/constants';
-import { fetchWithRetryEnhanced, sleep } from '../utils/http';
+import { Env, Logger, TimeframeCandles, TimeframeId, Candle, CandleRange, MarketDataProvider } from '../types';
+import { TIMEFRAME_MS } from '../config/constants';
+import { upstreamLimiter, mapWithConcurrency } from '../utils/http';
+import { exchangeOrder, timeframeProfile, maxConcurrentRequests } from '../utils/helpers';
+import { getProvider } from './exchanges';
 
-// Fetch klines from KuCoin API
-export async function fetchKlines(
-  symbol: string, 
-  tf: (typeof TIMEFRAMES)[number], 
-  logger: Logger
-): Promise<TimeframeCandles> {
-  // Convert symbol format (BTCUSDT -> BTC-USDT)
-  const kucoinSymbol = symbol.replace('USDT', '-USDT');
-  
-  const kucoinType = tf.kucoinType;
-  const url = `${KUCOIN_BASE_URL_FULL}/api/v1/market/candles?symbol=${encodeURIComponent(kucoinSymbol)}&type=${kucoinType}`;
-  
-  logger.debug(`Fetching from KuCoin API`, { symbol, kucoinSymbol, kucoinType, url });
-  
-  const res = await fetchWithRetryEnhanced(
-    url,
-    {
-      method: "GET",
-      headers: {
-        "User-Agent": "Mozilla/5.0 (compatible; CryptoBot/1.0)",
-        "Accept": "application/json"
-      }
-    },
-    logger,
-    3,
-    500
-  );
-  
-  const response = await res.json() as { code: string; data: KuCoinKlineRaw[] };
-  
-  if (response.code !== '200000') {
-    throw new Error(`KuCoin API error: ${response.code}`);
+// Last millisecond of the candle open at `now`. Ranges ending there keep the same request URLs until the candle
+// closes, so the Cache API can serve them (Date.now() would make every URL unique); the forming candle is still included.
+function currentCandleEnd(tf: TimeframeId, now = Date.now()): number {
+  const ms = TIMEFRAME_MS[tf];
+  return Math.floor(now / ms) * ms + ms - 1;
+}
+
+// Fetch a time range page by page (each request covers at most `pageSize` candles, paced by the exchange's rate limit)
+async function fetchPaged(
+  env: Env,
+  provider: MarketDataProvider,
+  symbol: string,
+  tf: TimeframeId,
+  logger: Logger,
+  range: Required<CandleRange>
+): Promise<Candle[]> {
+  const pageMs = provider.pageSize * TIMEFRAME_MS[tf];
+  const byTimestamp = new Map<number, Candle>();
+
+  for (let startAt = range.startAt; startAt < range.endAt; startAt += pageMs) {
+    const endAt = Math.min(startAt + pageMs - 1, range.endAt);
+    await upstreamLimiter(provider.id).waitForSlot();
+    const page = await provider.fetchCandles(env, symbol, tf, logger, { startAt, endAt });
+    for (const candle of page) byTimestamp.set(candle.timestamp, candle);
   }
-  
-  if (!response.data || response.data.length === 0) {
-    throw new Error(`No data received from KuCoin for ${symbol} ${tf.id}`);
+
+  return [...byTimestamp.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// Fetch candles from the symbol's configured exchange, falling back to the next one on errors
+async function fetchWithFallback(
+  env: Env,
+  symbol: string,
+  tf: TimeframeId,
+  logger: Logger,
+  range: Required<CandleRange>,
+  requireData: boolean
+): Promise<Candle[]> {
+  const order = exchangeOrder(env, symbol);
+  let lastErr: unknown;
+
+  for (const id of order) {
+    try {
+      const candles = await fetchPaged(env, getProvider(id), symbol, tf, logger, range);
+      if (requireData && candles.length === 0) {
+        throw new Error(`No data received from ${id} for ${symbol} ${tf}`);
+      }
+      if (id !== order[0]) {
+        logger.warn(`Used fallback exchange for ${symbol}`, { symbol, timeframe: tf, exchange: id, primary: order[0] });
+      }
+      return candles;
+    } catch (error) {
+      lastErr = error;
+      logger.warn(`Exchange ${id} failed for ${symbol}`, { symbol, timeframe: tf, exchange: id, error: String(error) });
+    }
   }
-  
-  // Convert to simplified KuCoin format (no unnecessary conversion)
-  const converted: KuCoinCandle[] = response.data.slice(-LAST_N_TO_KEEP).map(([timestamp, open, close, high, low, volume, amount]) => ({
-    timestamp: parseInt(timestamp) * 1000,  // Convert seconds to milliseconds
-    open,
-    high,
-    low,
-    close,
-    volume,
-    amount
-  }));
-  
-  logger.info(`Successfully fetched from KuCoin`, { symbol, timeframe: tf.id, count: converted.length });
-  return { timeframe: tf.id, candles: converted };
+
+  throw lastErr ?? new Error(`No exchange configured for ${symbol}`);
 }
 
-// Fetch all timeframes for a coin
+// Fetch the most recent `lookback` klines for one timeframe
+export async function fetchKlines(
+  env: Env,
+  symbol: string,
+  tf: TimeframeId,
+  logger: Logger,
+  lookback = timeframeProfile(env, symbol).lookback
+): Promise<TimeframeCandles> {
+  const endAt = currentCandleEnd(tf);
+  // One extra candle in case the exchange's candles are not aligned to the epoch (weekly ones), trimmed below
+  const startAt = endAt + 1 - (lookback + 1) * TIMEFRAME_MS[tf];
+  const candles = (await fetchWithFallback(env, symbol, tf, logger, { startAt, endAt }, true)).slice(-lookback);
+
+  logger.info(`Successfully fetched candles`, { symbol, timeframe: tf, count: candles.length });
+  return { timeframe: tf, candles };
+}
+
+// Fetch klines from a point in time until now (used to track signal outcomes)
+export async function fetchKlinesSince(
+  env: Env,
+  symbol: string,
+  tf: TimeframeId,
+  startAt: number,
+  logger: Logger
+): Promise<Candle[]> {
+  const candles = await fetchWithFallback(env, symbol, tf, logger, { startAt, endAt: currentCandleEnd(tf) }, false);
+  logger.debug(`Fetched klines since`, { symbol, timeframe: tf, startAt, count: candles.length });
+  return candles;
+}
+
+// Fetch all timeframes of the symbol's profile for a coin, MAX_CONCURRENT_REQUESTS at a time
 export async function fetchAllTimeframes(
-  symbol: string, 
+  env: Env,
+  symbol: string,
   logger: Logger
 ): Promise<{ symbol: string; allCandles: TimeframeCandles[] }> {
-  logger.info(`Starting to fetch all timeframes for ${symbol}`);
-  
+  const profile = timeframeProfile(env, symbol);
+  logger.info(`Starting to fetch all timeframes for ${symbol}`, { timeframes: profile.timeframes, lookback: profile.lookback });
+
+  const results = await mapWithConcurrency(profile.timeframes, maxConcurrentRequests(env), async tf => {
+    const timeframeData = await fetchKlines(env, symbol, tf, logger, profile.lookback);
+    logger.debug(`Completed timeframe ${tf} for ${symbol}`, {
+      symbol,
+      timeframe: tf,
+      candlesCount: timeframeData.candles.length
+    });
+    return timeframeData;
+  });
+
   const allCandles: TimeframeCandles[] = [];
-  
-  for (const tf of TIMEFRAMES) {
-    try {
-      const timeframeData = await fetchKlines(symbol, tf, logger);
-      allCandles.push(timeframeData);
-      
-      logger.debug(`Completed timeframe ${tf.id} for ${symbol}`, { 
-        symbol, 
-        timeframe: tf.id, 
-        candlesCount: timeframeData.candles.length 
-      });
-      
-      // Add delay between requests to be polite to KuCoin
-      await sleep(KUCOIN_REQUEST_DELAY_MS);
-    } catch (error) {
-      logger.error(`Failed to fetch timeframe ${tf.id} for ${symbol}`, { 
-        symbol, 
-        timeframe: tf.id, 
-        error: String(error) 
+  for (const [idx, result] of results.entries()) {
+    if (result.status === "rejected") {
+      logger.error(`Failed to fetch timeframe ${profile.timeframes[idx]} for ${symbol}`, {
+        symbol,
+        timeframe: profile.timeframes[idx],
+        error: String(result.reason)
       });
-      
-      // Re-throw the error to stop processing - no fallbacks
-      throw error;
+
+      // Re-throw the error to stop processing (exchange fallbacks already exhausted)
+      throw result.reason;
     }
+    allCandles.push(result.value);
   }
-  
-  logger.info(`Completed fetching all timeframes for ${symbol}`, { 
-    symbol, 
+
+  logger.info(`Completed fetching all timeframes for ${symbol}`, {
+    symbol,
     totalTimeframes: allCandles.length,
     timeframes: allCandles.map(tc => tc.timeframe)
   });
-  
+
   return { symbol, allCandles };
 }
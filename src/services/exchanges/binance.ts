@@ -0,0 +1,63 @@
+// =====================================
+// ===== BINANCE MARKET DATA ADAPTER
+// =====================================
+
+import { Candle, MarketDataProvider, TimeframeId } from '../../types';
+import { BINANCE_BASE_URL } from '../../config/constants';
+import { fetchWithRetryEnhanced } from '../../utils/http';
+
+// Binance interval names match our timeframe ids
+const BINANCE_INTERVALS: Record<TimeframeId, string> = {
+  "1m": "1m",
+  "3m": "3m",
+  "5m": "5m",
+  "15m": "15m",
+  "30m": "30m",
+  "1h": "1h",
+  "2h": "2h",
+  "4h": "4h",
+  "6h": "6h",
+  "12h": "12h",
+  "1d": "1d",
+  "1w": "1w",
+};
+
+// Binance kline: [openTime, open, high, low, close, volume, closeTime, quoteVolume, ...]
+type BinanceKlineRaw = [number, string, string, string, string, string, number, string, ...unknown[]];
+
+export const binanceProvider: MarketDataProvider = {
+  id: "binance",
+  pageSize: 1000,
+
+  async fetchCandles(env, symbol, timeframe, logger, range) {
+    const params = new URLSearchParams({
+      symbol,                                // Binance uses BTCUSDT as-is
+      interval: BINANCE_INTERVALS[timeframe],
+      limit: "1000",
+    });
+    if (range) {
+      params.set("startTime", String(range.startAt));
+      if (range.endAt) params.set("endTime", String(range.endAt));
+    }
+    const url = `${BINANCE_BASE_URL}/api/v3/klines?${params.toString()}`;
+
+    logger.debug(`Fetching from Binance API`, { symbol, timeframe, url });
+
+    const res = await fetchWithRetryEnhanced(env, url, { method: "GET", headers: { "Accept": "application/json" } }, logger, 3, 500);
+    const data = await res.json() as BinanceKlineRaw[] | { code: number; msg: string };
+
+    if (!Array.isArray(data)) {
+      throw new Error(`Binance API error: ${data.code} ${data.msg}`);
+    }
+
+    return data.map(([openTime, open, high, low, close, volume, , quoteVolume]): Candle => ({
+      timestamp: openTime,
+      open,
+      high,
+      low,
+      close,
+      volume,
+      amount: quoteVolume,
+    })).sort((a, b) => a.timestamp - b.timestamp);
+  },
+};
@@ -0,0 +1,63 @@
+// =====================================
+// ===== BYBIT MARKET DATA ADAPTER
+// =====================================
+
+import { Candle, MarketDataProvider, TimeframeId } from '../../types';
+import { BYBIT_BASE_URL } from '../../config/constants';
+import { fetchWithRetryEnhanced } from '../../utils/http';
+
+const BYBIT_INTERVALS: Record<TimeframeId, string> = {
+  "1m": "1",
+  "3m": "3",
+  "5m": "5",
+  "15m": "15",
+  "30m": "30",
+  "1h": "60",
+  "2h": "120",
+  "4h": "240",
+  "6h": "360",
+  "12h": "720",
+  "1d": "D",
+  "1w": "W",
+};
+
+// Bybit kline: [startTime, open, high, low, close, volume, turnover]
+type BybitKlineRaw = [string, string, string, string, string, string, string];
+
+export const bybitProvider: MarketDataProvider = {
+  id: "bybit",
+  pageSize: 1000,
+
+  async fetchCandles(env, symbol, timeframe, logger, range) {
+    const params = new URLSearchParams({
+      category: "spot",
+      symbol,                                // Bybit uses BTCUSDT as-is
+      interval: BYBIT_INTERVALS[timeframe],
+      limit: "1000",
+    });
+    if (range) {
+      params.set("start", String(range.startAt));
+      if (range.endAt) params.set("end", String(range.endAt));
+    }
+    const url = `${BYBIT_BASE_URL}/v5/market/kline?${params.toString()}`;
+
+    logger.debug(`Fetching from Bybit API`, { symbol, timeframe, url });
+
+    const res = await fetchWithRetryEnhanced(env, url, { method: "GET", headers: { "Accept": "application/json" } }, logger, 3, 500);
+    const response = await res.json() as { retCode: number; retMsg: string; result?: { list: BybitKlineRaw[] } };
+
+    if (response.retCode !== 0) {
+      throw new Error(`Bybit API error: ${response.retCode} ${response.retMsg}`);
+    }
+
+    return (response.result?.list || []).map(([start, open, high, low, close, volume, turnover]): Candle => ({
+      timestamp: parseInt(start),
+      open,
+      high,
+      low,
+      close,
+      volume,
+      amount: turnover,
+    })).sort((a, b) => a.timestamp - b.timestamp);
+  },
+};
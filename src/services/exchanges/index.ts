@@ -0,0 +1,22 @@
+// =====================================
+// ===== MARKET DATA PROVIDER REGISTRY
+// =====================================
+
+import { ExchangeId, MarketDataProvider } from '../../types';
+import { kucoinProvider } from './kucoin';
+import { binanceProvider } from './binance';
+import { okxProvider } from './okx';
+import { bybitProvider } from './bybit';
+
+const PROVIDERS: Record<ExchangeId, MarketDataProvider> = {
+  kucoin: kucoinProvider,
+  binance: binanceProvider,
+  okx: okxProvider,
+  bybit: bybitProvider,
+};
+
+export function getProvider(id: ExchangeId): MarketDataProvider {
+  return PROVIDERS[id];
+}
+
+export { parseKuCoinKlines } from './kucoin';
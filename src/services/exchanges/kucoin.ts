@@ -0,0 +1,78 @@
+// =====================================
+// ===== KUCOIN MARKET DATA ADAPTER
+// =====================================
+
+import { Candle, KuCoinKlineRaw, MarketDataProvider, TimeframeId } from '../../types';
+import { KUCOIN_BASE_URL_FULL } from '../../config/constants';
+import { fetchWithRetryEnhanced } from '../../utils/http';
+import { splitSymbol } from '../../utils/helpers';
+
+const KUCOIN_INTERVALS: Record<TimeframeId, string> = {
+  "1m": "1min",
+  "3m": "3min",
+  "5m": "5min",
+  "15m": "15min",
+  "30m": "30min",
+  "1h": "1hour",
+  "2h": "2hour",
+  "4h": "4hour",
+  "6h": "6hour",
+  "12h": "12hour",
+  "1d": "1day",
+  "1w": "1week",
+};
+
+// Convert raw KuCoin klines to candles, oldest first (KuCoin returns newest first)
+export function parseKuCoinKlines(data: KuCoinKlineRaw[]): Candle[] {
+  return data.map(([timestamp, open, close, high, low, volume, amount]) => ({
+    timestamp: parseInt(timestamp) * 1000,  // Convert seconds to milliseconds
+    open,
+    high,
+    low,
+    close,
+    volume,
+    amount
+  })).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export const kucoinProvider: MarketDataProvider = {
+  id: "kucoin",
+  pageSize: 1500,
+
+  async fetchCandles(env, symbol, timeframe, logger, range) {
+    // Convert symbol format (BTCUSDT -> BTC-USDT)
+    const { base, quote } = splitSymbol(symbol);
+    const kucoinSymbol = `${base}-${quote}`;
+    const kucoinType = KUCOIN_INTERVALS[timeframe];
+    let url = `${KUCOIN_BASE_URL_FULL}/api/v1/market/candles?symbol=${encodeURIComponent(kucoinSymbol)}&type=${kucoinType}`;
+    if (range) {
+      url += `&startAt=${Math.floor(range.startAt / 1000)}`;
+      if (range.endAt) url += `&endAt=${Math.floor(range.endAt / 1000)}`;
+    }
+
+    logger.debug(`Fetching from KuCoin API`, { symbol, kucoinSymbol, kucoinType, url });
+
+    const res = await fetchWithRetryEnhanced(
+      env,
+      url,
+      {
+        method: "GET",
+        headers: {
+          "User-Agent": "Mozilla/5.0 (compatible; CryptoBot/1.0)",
+          "Accept": "application/json"
+        }
+      },
+      logger,
+      3,
+      500
+    );
+
+    const response = await res.json() as { code: string; data: KuCoinKlineRaw[] };
+
+    if (response.code !== '200000') {
+      throw new Error(`KuCoin API error: ${response.code}`);
+    }
+
+    return parseKuCoinKlines(response.data || []);
+  },
+};
@@ -0,0 +1,66 @@
+// =====================================
+// ===== OKX MARKET DATA ADAPTER
+// =====================================
+
+import { Candle, MarketDataProvider, TimeframeId } from '../../types';
+import { OKX_BASE_URL } from '../../config/constants';
+import { fetchWithRetryEnhanced } from '../../utils/http';
+import { splitSymbol } from '../../utils/helpers';
+
+// The "utc" bars keep 6h+ candles aligned to UTC like the other exchanges (plain "1D" is UTC+8)
+const OKX_BARS: Record<TimeframeId, string> = {
+  "1m": "1m",
+  "3m": "3m",
+  "5m": "5m",
+  "15m": "15m",
+  "30m": "30m",
+  "1h": "1H",
+  "2h": "2H",
+  "4h": "4H",
+  "6h": "6Hutc",
+  "12h": "12Hutc",
+  "1d": "1Dutc",
+  "1w": "1Wutc",
+};
+
+// OKX candle: [ts, open, high, low, close, vol, volCcy, volCcyQuote, confirm]
+type OkxCandleRaw = [string, string, string, string, string, string, string, string, string];
+
+export const okxProvider: MarketDataProvider = {
+  id: "okx",
+  pageSize: 300,
+
+  async fetchCandles(env, symbol, timeframe, logger, range) {
+    const { base, quote } = splitSymbol(symbol);
+    const params = new URLSearchParams({
+      instId: `${base}-${quote}`,
+      bar: OKX_BARS[timeframe],
+      limit: "300",
+    });
+    // OKX paginates backwards: "after" returns older records, "before" newer ones
+    if (range) {
+      params.set("before", String(range.startAt - 1));
+      if (range.endAt) params.set("after", String(range.endAt + 1));
+    }
+    const url = `${OKX_BASE_URL}/api/v5/market/candles?${params.toString()}`;
+
+    logger.debug(`Fetching from OKX API`, { symbol, timeframe, url });
+
+    const res = await fetchWithRetryEnhanced(env, url, { method: "GET", headers: { "Accept": "application/json" } }, logger, 3, 500);
+    const response = await res.json() as { code: string; msg: string; data: OkxCandleRaw[] };
+
+    if (response.code !== "0") {
+      throw new Error(`OKX API error: ${response.code} ${response.msg}`);
+    }
+
+    return (response.data || []).map(([ts, open, high, low, close, vol, , volCcyQuote]): Candle => ({
+      timestamp: parseInt(ts),
+      open,
+      high,
+      low,
+      close,
+      volume: vol,
+      amount: volCcyQuote,
+    })).sort((a, b) => a.timestamp - b.timestamp);
+  },
+};
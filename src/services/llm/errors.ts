@@ -0,0 +1,55 @@
+// =====================================
+// ===== LLM ERRORS
+// =====================================
+
+import { LLMErrorKind, LLMProviderId, LLMUsage } from '../../types';
+
+// Failure of a completion with a class callers can act on (shrink the input, report the block reason, ...)
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly provider: LLMProviderId | null;
+  // Set when a response arrived but could not be used (blocked, filtered, empty): its tokens are still billed
+  usage: LLMUsage | null = null;
+  finishReason: string | null = null;
+
+  constructor(kind: LLMErrorKind, message: string, provider: LLMProviderId | null = null) {
+    super(message);
+    this.name = "LLMError";
+    this.kind = kind;
+    this.provider = provider;
+  }
+}
+
+// Attach the usage and finish reason of the response an error was raised for
+export function withUsage(error: LLMError, usage: LLMUsage, finishReason: string | null): LLMError {
+  error.usage = usage;
+  error.finishReason = finishReason;
+  return error;
+}
+
+// Phrases providers use when the prompt exceeds the context window
+const INPUT_TOO_LARGE = [
+  /input token count .* exceeds/i,
+  /exceeds the maximum number of tokens/i,
+  /context_length_exceeded/i,
+  /maximum context length/i,
+  /prompt is too long/i,
+  /request too large/i,
+  /^HTTP 413\b/,
+];
+
+// Map a transport error to an LLMError where it can be classified; other errors pass through unchanged
+export function classifyLLMError(error: unknown, provider: LLMProviderId): unknown {
+  if (error instanceof LLMError) return error;
+  const message = String(error instanceof Error ? error.message : error);
+  if (INPUT_TOO_LARGE.some(re => re.test(message))) {
+    return new LLMError("input_too_large", `Input too large for ${provider}: ${message}`, provider);
+  }
+  return error;
+}
+
+// Short label for error reports, e.g. "SAFETY (gemini)"
+export function describeLLMFailure(error: unknown): string | null {
+  if (!(error instanceof LLMError)) return null;
+  return `${error.kind.toUpperCase()}${error.provider ? ` (${error.provider})` : ""}`;
+}
@@ -0,0 +1,120 @@
+// =====================================
+// ===== GEMINI LLM PROVIDER
+// =====================================
+
+import { Env, Logger, LLMProvider, LLMRequest, LLMCompletion, GeminiRequest, GeminiResponse } from '../../types';
+import { DEFAULT_GEMINI_BASE, LLM_CONTINUE_PROMPT } from '../../config/constants';
+import { fetchWithRetryEnhanced } from '../../utils/http';
+import { llmHttpOptions } from '../../utils/helpers';
+import { LLMError, withUsage } from './errors';
+
+// Finish reasons that mean the output was withheld by a filter
+const SAFETY_REASONS = ["SAFETY", "PROHIBITED_CONTENT", "BLOCKLIST", "SPII", "IMAGE_SAFETY"];
+
+// GEMINI_BASE_URL points at a proxy or regional endpoint
+function geminiBase(env: Env): string {
+  return (env.GEMINI_BASE_URL || DEFAULT_GEMINI_BASE).replace(/\/+$/, "");
+}
+
+// Turn a response into text, or a typed error for blocked prompts, filtered output and empty candidates
+function parseResponse(data: GeminiResponse): { text: string; finishReason: string | null; truncated: boolean } {
+  const blockReason = data.promptFeedback?.blockReason;
+  if (blockReason) {
+    const detail = data.promptFeedback?.blockReasonMessage ? `: ${data.promptFeedback.blockReasonMessage}` : "";
+    throw new LLMError("blocked", `Gemini blocked the prompt (${blockReason})${detail}`, "gemini");
+  }
+
+  const candidate = data.candidates?.[0];
+  if (!candidate) throw new LLMError("empty", "Gemini returned no candidates", "gemini");
+
+  const finishReason = candidate.finishReason || null;
+  const text = (candidate.content?.parts || []).filter(p => !p.thought).map(p => p.text || "").join("");
+
+  if (finishReason && SAFETY_REASONS.includes(finishReason)) {
+    const flagged = (candidate.safetyRatings || [])
+      .filter(r => r.blocked || r.probability === "HIGH")
+      .map(r => r.category.replace(/^HARM_CATEGORY_/, ""));
+    throw new LLMError("safety", `Gemini stopped the output (${finishReason}${flagged.length ? `: ${flagged.join(", ")}` : ""})`, "gemini");
+  }
+  if (finishReason === "RECITATION") {
+    throw new LLMError("recitation", "Gemini stopped the output for reciting source material (RECITATION)", "gemini");
+  }
+  if (finishReason === "MAX_TOKENS") {
+    // Thinking can use up the whole budget before any text is produced; there is nothing to continue then
+    if (!text) throw new LLMError("max_tokens", "Gemini hit the token limit before producing any output", "gemini");
+    return { text, finishReason, truncated: true };
+  }
+  if (!text) throw new LLMError("empty", `Gemini returned no text (finishReason: ${finishReason || "none"})`, "gemini");
+  return { text, finishReason, truncated: false };
+}
+
+async function generateContent(env: Env, logger: Logger, req: LLMRequest, json: boolean): Promise<LLMCompletion> {
+  const url = `${geminiBase(env)}/v1beta/models/${req.model}:generateContent?key=${env.GEMINI_API_KEY}`;
+
+  // A continuation replays the partial output as the model turn; it runs in text mode since the
+  // remainder of a JSON document is not valid JSON on its own
+  const continuing = req.partial !== undefined;
+  const body: GeminiRequest = {
+    systemInstruction: { parts: [{ text: req.system }] },
+    contents: [
+      { role: "user", parts: [{ text: req.user }] },
+      ...(continuing
+        ? [
+            { role: "model" as const, parts: [{ text: req.partial! }] },
+            { role: "user" as const, parts: [{ text: LLM_CONTINUE_PROMPT }] },
+          ]
+        : []),
+    ],
+    generationConfig: {
+      temperature: req.temperature,
+      ...(json && !continuing ? { responseMimeType: "application/json" } : {}),
+      ...(json && !continuing && req.responseSchema ? { responseSchema: req.responseSchema } : {}),
+    },
+  };
+
+  const res = await fetchWithRetryEnhanced(
+    env,
+    url,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    },
+    logger,
+    3,
+    800,
+    llmHttpOptions(env)
+  );
+
+  const data = (await res.json()) as GeminiResponse;
+
+  // Thinking tokens are billed as output
+  const meta = data.usageMetadata || {};
+  const promptTokens = meta.promptTokenCount || 0;
+  const outputTokens = (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0);
+  const usage = { promptTokens, outputTokens, totalTokens: meta.totalTokenCount || promptTokens + outputTokens };
+
+  let parsed: ReturnType<typeof parseResponse>;
+  try {
+    parsed = parseResponse(data);
+  } catch (error) {
+    throw error instanceof LLMError ? withUsage(error, usage, data.candidates?.[0]?.finishReason || null) : error;
+  }
+  return { ...parsed, usage };
+}
+
+export const geminiProvider: LLMProvider = {
+  id: "gemini",
+
+  isConfigured(env) {
+    return !!env.GEMINI_API_KEY;
+  },
+
+  completeJSON(env, logger, req) {
+    return generateContent(env, logger, req, true);
+  },
+
+  completeText(env, logger, req) {
+    return generateContent(env, logger, req, false);
+  },
+};
@@ -0,0 +1,86 @@
+// =====================================
+// ===== GENERIC HTTP LLM PROVIDER
+// ===== Purpose: Any endpoint (gateway, self-hosted wrapper, other vendor) that speaks a minimal JSON contract
+// =====================================
+
+import { Env, Logger, LLMProvider, LLMRequest, LLMCompletion } from '../../types';
+import { fetchWithRetryEnhanced } from '../../utils/http';
+import { llmHttpOptions } from '../../utils/helpers';
+import { LLMError, withUsage } from './errors';
+
+// Request:  POST LLM_HTTP_URL {model, system, user, temperature, format: "json" | "text", schema?, partial?}
+// Response: {"text": "..."} or {"output": "..."} as JSON, otherwise the raw body is taken as the completion.
+// Optional JSON fields: usage {promptTokens, outputTokens} and finishReason ("length" or "max_tokens" asks
+// for a continuation with the output so far in `partial`, "safety" reports a filtered response).
+async function postCompletion(env: Env, logger: Logger, req: LLMRequest, json: boolean): Promise<LLMCompletion> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (env.LLM_HTTP_API_KEY) headers["Authorization"] = `Bearer ${env.LLM_HTTP_API_KEY}`;
+
+  const res = await fetchWithRetryEnhanced(
+    env,
+    env.LLM_HTTP_URL!,
+    {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: req.model || undefined,
+        system: req.system,
+        user: req.user,
+        temperature: req.temperature,
+        format: json && req.partial === undefined ? "json" : "text",
+        ...(json && req.responseSchema ? { schema: req.responseSchema } : {}),
+        ...(req.partial !== undefined ? { partial: req.partial } : {}),
+      }),
+    },
+    logger,
+    3,
+    800,
+    llmHttpOptions(env)
+  );
+
+  const body = await res.text();
+  let content = body;
+  let promptTokens = 0;
+  let outputTokens = 0;
+  let finishReason: string | null = null;
+  if ((res.headers.get("content-type") || "").includes("application/json")) {
+    const data = JSON.parse(body) as {
+      text?: unknown;
+      output?: unknown;
+      finishReason?: unknown;
+      usage?: { promptTokens?: number; outputTokens?: number };
+    };
+    if (typeof data.text === "string") content = data.text;
+    else if (typeof data.output === "string") content = data.output;
+    if (typeof data.finishReason === "string") finishReason = data.finishReason;
+    promptTokens = Number(data.usage?.promptTokens) || 0;
+    outputTokens = Number(data.usage?.outputTokens) || 0;
+  }
+  const usage = { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens };
+  if (finishReason === "safety") {
+    throw withUsage(new LLMError("safety", "LLM HTTP endpoint filtered the response", "http"), usage, finishReason);
+  }
+  if (!content.trim()) throw withUsage(new LLMError("empty", "Empty response from LLM HTTP endpoint", "http"), usage, finishReason);
+  return {
+    text: content,
+    usage,
+    finishReason,
+    truncated: finishReason === "length" || finishReason === "max_tokens",
+  };
+}
+
+export const httpProvider: LLMProvider = {
+  id: "http",
+
+  isConfigured(env) {
+    return !!env.LLM_HTTP_URL;
+  },
+
+  completeJSON(env, logger, req) {
+    return postCompletion(env, logger, req, true);
+  },
+
+  completeText(env, logger, req) {
+    return postCompletion(env, logger, req, false);
+  },
+};
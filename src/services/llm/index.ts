@@ -0,0 +1,185 @@
+// =====================================
+// ===== LLM PROVIDER REGISTRY
+// ===== Purpose: Route each step to its provider/model and fall back on failure
+// =====================================
+
+import {
+  Env,
+  Logger,
+  LLMProviderId,
+  LLMProvider,
+  LLMStep,
+  LLMRequest,
+  LLMCompletion,
+  LLMUsage,
+  LLMCall,
+  JsonCompletionOptions,
+} from '../../types';
+import { LLM_MAX_CONTINUATIONS, LLM_MAX_SHRINK_STEPS } from '../../config/constants';
+import { llmTargets } from '../../utils/helpers';
+import { llmCost } from '../../utils/usage';
+import { upstreamLimiter } from '../../utils/http';
+import { geminiProvider } from './gemini';
+import { openAiProvider } from './openai';
+import { httpProvider } from './http';
+import { LLMError, classifyLLMError, describeLLMFailure } from './errors';
+
+const PROVIDERS: Record<LLMProviderId, LLMProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  http: httpProvider,
+};
+
+export function getLLMProvider(id: LLMProviderId): LLMProvider {
+  return PROVIDERS[id];
+}
+
+// One provider call, recorded in options.calls whether it succeeds or not
+async function callProvider(
+  env: Env,
+  logger: Logger,
+  provider: LLMProvider,
+  step: LLMStep,
+  mode: "json" | "text",
+  req: LLMRequest,
+  calls: LLMCall[] | undefined
+): Promise<LLMCompletion> {
+  // Wait for the provider's rate limit first so the recorded latency is the call itself
+  await upstreamLimiter(provider.id).waitForSlot();
+  const started = Date.now();
+  const record = (usage: LLMUsage, finishReason: string | null, ok: boolean): LLMCall => ({
+    step,
+    provider: provider.id,
+    model: req.model,
+    ...usage,
+    latencyMs: Date.now() - started,
+    finishReason,
+    costUsd: llmCost(env, req.model, usage),
+    ok,
+    createdAt: started,
+  });
+
+  try {
+    logger.debug("Calling LLM", { step, provider: provider.id, model: req.model, mode, continuation: req.partial !== undefined });
+    const result = mode === "json"
+      ? await provider.completeJSON(env, logger, req)
+      : await provider.completeText(env, logger, req);
+    const call = record(result.usage, result.finishReason, true);
+    calls?.push(call);
+    logger.debug("LLM call finished", call);
+    return result;
+  } catch (error) {
+    // A response that was rejected after it arrived (safety, empty, ...) still used tokens
+    const billed = error instanceof LLMError ? error : null;
+    calls?.push(record(billed?.usage ?? { promptTokens: 0, outputTokens: 0, totalTokens: 0 }, billed?.finishReason ?? null, false));
+    throw classifyLLMError(error, provider.id);
+  }
+}
+
+// Complete with one provider, continuing output that was cut off at the token limit
+async function completeWith(
+  env: Env,
+  logger: Logger,
+  provider: LLMProvider,
+  step: LLMStep,
+  mode: "json" | "text",
+  req: LLMRequest,
+  calls: LLMCall[] | undefined
+): Promise<string> {
+  let result = await callProvider(env, logger, provider, step, mode, req, calls);
+  let text = result.text;
+  for (let turn = 1; result.truncated; turn++) {
+    if (turn > LLM_MAX_CONTINUATIONS) {
+      throw new LLMError("max_tokens", `Output still truncated after ${LLM_MAX_CONTINUATIONS} continuations`, provider.id);
+    }
+    logger.warn("LLM output truncated, continuing", { step, provider: provider.id, model: req.model, turn, length: text.length });
+    result = await callProvider(env, logger, provider, step, mode, { ...req, partial: text }, calls);
+    text += result.text;
+  }
+  return text;
+}
+
+// Try the step's provider, then the fallback. When every configured provider fails the last error is
+// thrown, except that an input_too_large error wins so the caller can shrink the input and retry.
+async function complete(
+  env: Env,
+  logger: Logger,
+  mode: "json" | "text",
+  systemPrompt: string,
+  userPrompt: string,
+  options: JsonCompletionOptions
+): Promise<string> {
+  const step = options.step || "sentiment";
+  const targets = llmTargets(env, step).filter(t => {
+    if (getLLMProvider(t.provider).isConfigured(env)) return true;
+    logger.warn(`LLM provider ${t.provider} is selected but not configured`, { step, provider: t.provider });
+    return false;
+  });
+  if (!targets.length) throw new Error(`No LLM provider configured for the ${step} step`);
+
+  const errors: unknown[] = [];
+  for (const [idx, target] of targets.entries()) {
+    const provider = getLLMProvider(target.provider);
+    const req: LLMRequest = {
+      model: idx === 0 && options.model ? options.model : target.model,
+      system: systemPrompt,
+      user: userPrompt,
+      temperature: options.temperature ?? (mode === "json" ? 0.0 : 0.2),
+      responseSchema: options.responseSchema,
+    };
+    try {
+      return await completeWith(env, logger, provider, step, mode, req, options.calls);
+    } catch (error) {
+      errors.push(error);
+      logger.warn(`LLM provider ${provider.id} failed`, {
+        step,
+        provider: provider.id,
+        model: req.model,
+        error: String(error),
+        failureClass: describeLLMFailure(error),
+        fallback: targets[idx + 1]?.provider ?? null,
+      });
+    }
+  }
+  throw errors.find(e => e instanceof LLMError && e.kind === "input_too_large") ?? errors[errors.length - 1];
+}
+
+// Run an LLM-backed task, shrinking its input (level 1, 2, ...) while the provider reports it as too large
+export async function withInputShrinking<T>(
+  logger: Logger,
+  label: string,
+  run: (level: number) => Promise<T>
+): Promise<T> {
+  for (let level = 0; ; level++) {
+    try {
+      return await run(level);
+    } catch (error) {
+      if (!(error instanceof LLMError) || error.kind !== "input_too_large" || level >= LLM_MAX_SHRINK_STEPS) throw error;
+      logger.warn("LLM input too large, shrinking and retrying", { task: label, level: level + 1, error: error.message });
+    }
+  }
+}
+
+// JSON completion for a step (defaults to the sentiment step)
+export function completeJSON(
+  env: Env,
+  logger: Logger,
+  systemPrompt: string,
+  userPrompt: string,
+  options: JsonCompletionOptions = {}
+): Promise<string> {
+  return complete(env, logger, "json", systemPrompt, userPrompt, options);
+}
+
+// Free-text completion for a step
+export function completeText(
+  env: Env,
+  logger: Logger,
+  systemPrompt: string,
+  userPrompt: string,
+  options: JsonCompletionOptions = {}
+): Promise<string> {
+  return complete(env, logger, "text", systemPrompt, userPrompt, options);
+}
+
+export { LLMError, describeLLMFailure } from './errors';
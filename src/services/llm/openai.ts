@@ -0,0 +1,88 @@
+// =====================================
+// ===== OPENAI-COMPATIBLE LLM PROVIDER
+// ===== Purpose: Chat completions on OpenAI or any compatible server (Ollama, llama.cpp, vLLM, ...)
+// =====================================
+
+import { Env, Logger, LLMProvider, LLMRequest, LLMCompletion, OpenAIChatRequest, OpenAIChatResponse } from '../../types';
+import { DEFAULT_OPENAI_BASE, LLM_CONTINUE_PROMPT } from '../../config/constants';
+import { fetchWithRetryEnhanced } from '../../utils/http';
+import { llmHttpOptions } from '../../utils/helpers';
+import { LLMError, withUsage } from './errors';
+
+function openAiBase(env: Env): string {
+  return (env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE).replace(/\/+$/, "");
+}
+
+// JSON mode only guarantees valid JSON; the expected shape is spelled out in the prompts.
+// Gemini-style response schemas are not translated since local servers rarely support json_schema.
+async function chatCompletion(env: Env, logger: Logger, req: LLMRequest, json: boolean): Promise<LLMCompletion> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (env.OPENAI_API_KEY) headers["Authorization"] = `Bearer ${env.OPENAI_API_KEY}`;
+
+  // A continuation replays the partial output as the assistant turn, in text mode
+  const continuing = req.partial !== undefined;
+  const body: OpenAIChatRequest = {
+    model: req.model,
+    messages: [
+      { role: "system", content: req.system },
+      { role: "user", content: req.user },
+      ...(continuing
+        ? [
+            { role: "assistant" as const, content: req.partial! },
+            { role: "user" as const, content: LLM_CONTINUE_PROMPT },
+          ]
+        : []),
+    ],
+    temperature: req.temperature,
+    ...(json && !continuing ? { response_format: { type: "json_object" as const } } : {}),
+  };
+
+  const res = await fetchWithRetryEnhanced(
+    env,
+    `${openAiBase(env)}/chat/completions`,
+    { method: "POST", headers, body: JSON.stringify(body) },
+    logger,
+    3,
+    800,
+    llmHttpOptions(env)
+  );
+
+  const data = (await res.json()) as OpenAIChatResponse;
+  const finishReason = data.choices?.[0]?.finish_reason || null;
+  const content = data.choices?.[0]?.message?.content || "";
+  const promptTokens = data.usage?.prompt_tokens || 0;
+  const outputTokens = data.usage?.completion_tokens || 0;
+  const usage = { promptTokens, outputTokens, totalTokens: data.usage?.total_tokens || promptTokens + outputTokens };
+
+  if (finishReason === "content_filter") {
+    throw withUsage(new LLMError("safety", "Chat completion stopped by the content filter", "openai"), usage, finishReason);
+  }
+  if (!content) {
+    const kind = finishReason === "length" ? "max_tokens" : "empty";
+    throw withUsage(new LLMError(kind, `Empty chat completion (finish_reason: ${finishReason || "none"})`, "openai"), usage, finishReason);
+  }
+
+  return {
+    text: content,
+    usage,
+    finishReason,
+    truncated: finishReason === "length",
+  };
+}
+
+// Local servers need no key, so setting either the key or the base URL enables the provider
+export const openAiProvider: LLMProvider = {
+  id: "openai",
+
+  isConfigured(env) {
+    return !!env.OPENAI_API_KEY || !!env.OPENAI_BASE_URL;
+  },
+
+  completeJSON(env, logger, req) {
+    return chatCompletion(env, logger, req, true);
+  },
+
+  completeText(env, logger, req) {
+    return chatCompletion(env, logger, req, false);
+  },
+};
@@ -0,0 +1,59 @@
+// =====================================
+// ===== CRYPTOPANIC NEWS SOURCE
+// =====================================
+
+import { NewsSource } from '../../types';
+import { CRYPTOPANIC_BASE_URL } from '../../config/constants';
+import { fetchWithRetryEnhanced } from '../../utils/http';
+
+interface CryptoPanicPost {
+  id: number;
+  title: string;
+  url?: string;
+  domain?: string;
+  published_at: string;
+  source?: { title?: string; domain?: string };
+  currencies?: { code: string; title: string }[];
+}
+
+// CryptoPanic tags posts by currency, so coin queries filter on the ticker instead of free-text terms
+export const cryptoPanicSource: NewsSource = {
+  id: "cryptopanic",
+  searchable: true,
+
+  isConfigured(env) {
+    return !!env.CRYPTOPANIC_API_KEY;
+  },
+
+  async fetchArticles(env, logger, query) {
+    const params = new URLSearchParams({
+      auth_token: env.CRYPTOPANIC_API_KEY!,
+      public: "true",
+      kind: "news",
+    });
+    if (query.coin) params.set("currencies", query.coin);
+
+    const res = await fetchWithRetryEnhanced(
+      env,
+      `${CRYPTOPANIC_BASE_URL}/api/v1/posts/?${params.toString()}`,
+      { method: "GET" },
+      logger,
+      3,
+      500
+    );
+    const json = (await res.json()) as { results?: CryptoPanicPost[] };
+
+    return (json.results || []).slice(0, query.limit).map(post => {
+      const currencies = (post.currencies || []).flatMap(c => [c.code, c.title]);
+      return {
+        uuid: `cryptopanic-${post.id}`,
+        title: post.title,
+        url: post.url || null,
+        published_at: post.published_at,
+        source: post.source?.domain || post.domain,
+        keywords: currencies.join(", "),
+        origin: "cryptopanic" as const,
+      };
+    });
+  },
+};
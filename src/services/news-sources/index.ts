@@ -0,0 +1,22 @@
+// =====================================
+// ===== NEWS SOURCE REGISTRY
+// =====================================
+
+import { NewsSourceId, NewsSource } from '../../types';
+import { theNewsApiSource } from './thenewsapi';
+import { rssSource } from './rss';
+import { cryptoPanicSource } from './cryptopanic';
+import { redditSource } from './reddit';
+
+const SOURCES: Record<NewsSourceId, NewsSource> = {
+  thenewsapi: theNewsApiSource,
+  rss: rssSource,
+  cryptopanic: cryptoPanicSource,
+  reddit: redditSource,
+};
+
+export function getNewsSource(id: NewsSourceId): NewsSource {
+  return SOURCES[id];
+}
+
+export { parseFeed } from './rss';
@@ -0,0 +1,86 @@
+// =====================================
+// ===== REDDIT NEWS SOURCE
+// =====================================
+
+import { Env, Logger, NewsArticle, NewsQuery, NewsSource } from '../../types';
+import { DEFAULT_SUBREDDITS, REDDIT_BASE_URL } from '../../config/constants';
+import { fetchWithRetryEnhanced } from '../../utils/http';
+import { csvList } from '../../utils/helpers';
+
+interface RedditListing {
+  data?: {
+    children?: {
+      data: {
+        id: string;
+        title: string;
+        selftext?: string;
+        url?: string;
+        permalink: string;
+        created_utc: number;
+        subreddit: string;
+        stickied?: boolean;
+        link_flair_text?: string | null;
+      };
+    }[];
+  };
+}
+
+function subreddits(env: Env): string[] {
+  return csvList(env.REDDIT_SUBREDDITS, DEFAULT_SUBREDDITS);
+}
+
+async function fetchSubreddit(env: Env, subreddit: string, query: NewsQuery, logger: Logger): Promise<NewsArticle[]> {
+  const params = new URLSearchParams({ limit: String(Math.min(query.limit, 100)), raw_json: "1" });
+  let path = `/r/${encodeURIComponent(subreddit)}/hot.json`;
+  if (query.terms?.length) {
+    path = `/r/${encodeURIComponent(subreddit)}/search.json`;
+    params.set("q", query.terms.map(t => (t.includes(" ") ? `"${t}"` : t)).join(" OR "));
+    params.set("restrict_sr", "1");
+    params.set("sort", "new");
+  }
+
+  // Reddit rejects requests without a descriptive User-Agent
+  const res = await fetchWithRetryEnhanced(
+    env,
+    `${REDDIT_BASE_URL}${path}?${params.toString()}`,
+    { method: "GET", headers: { "User-Agent": "crypto-automation-worker/1.0" } },
+    logger,
+    2,
+    500
+  );
+  const json = (await res.json()) as RedditListing;
+
+  return (json.data?.children || [])
+    .map(c => c.data)
+    .filter(post => !post.stickied)
+    .map(post => ({
+      uuid: `reddit-${post.id}`,
+      title: post.title,
+      description: post.selftext ? post.selftext.slice(0, 500) : null,
+      url: `${REDDIT_BASE_URL}${post.permalink}`,
+      published_at: new Date(post.created_utc * 1000).toISOString(),
+      source: `reddit.com/r/${post.subreddit}`,
+      keywords: post.link_flair_text || undefined,
+      origin: "reddit" as const,
+    }));
+}
+
+export const redditSource: NewsSource = {
+  id: "reddit",
+  searchable: true,
+
+  isConfigured(env) {
+    return subreddits(env).length > 0;
+  },
+
+  async fetchArticles(env, logger, query) {
+    const results = await Promise.allSettled(subreddits(env).map(s => fetchSubreddit(env, s, query, logger)));
+    const articles: NewsArticle[] = [];
+    results.forEach((r, idx) => {
+      if (r.status === "fulfilled") articles.push(...r.value);
+      else logger.warn("Subreddit fetch failed", { subreddit: subreddits(env)[idx], error: String(r.reason) });
+    });
+    if (results.every(r => r.status === "rejected")) throw new Error("All subreddits failed");
+    return articles.slice(0, query.limit);
+  },
+};
@@ -0,0 +1,111 @@
+// =====================================
+// ===== RSS / ATOM NEWS SOURCE
+// =====================================
+
+import { Env, Logger, NewsArticle, NewsSource } from '../../types';
+import { DEFAULT_RSS_FEEDS, NEWS_USER_AGENT } from '../../config/constants';
+import { fetchWithRetryEnhanced } from '../../utils/http';
+import { csvList } from '../../utils/helpers';
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " " };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Text content of an element: unwraps CDATA, drops markup and decodes entities
+function cleanText(raw: string): string {
+  const unwrapped = raw.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1");
+  return decodeEntities(decodeEntities(unwrapped).replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+}
+
+function tagText(xml: string, tags: string[]): string | null {
+  for (const tag of tags) {
+    const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i"));
+    if (match) return cleanText(match[1]);
+  }
+  return null;
+}
+
+// RSS uses <link>url</link>, Atom uses <link rel="alternate" href="url"/>
+function linkOf(xml: string): string | null {
+  const atom = xml.match(/<link\b[^>]*?href="([^"]+)"[^>]*?\/?>/i);
+  if (atom && !/rel="(?!alternate)/i.test(atom[0])) return decodeEntities(atom[1]);
+  return tagText(xml, ["link", "guid"]);
+}
+
+function toIso(date: string | null): string | null {
+  if (!date) return null;
+  const t = Date.parse(date);
+  return Number.isFinite(t) ? new Date(t).toISOString() : null;
+}
+
+// Parse an RSS 2.0 or Atom document into articles
+export function parseFeed(xml: string, feedUrl: string): NewsArticle[] {
+  const host = new URL(feedUrl).hostname.replace(/^www\./, "");
+  const items = xml.match(/<(item|entry)\b[\s\S]*?<\/\1>/gi) || [];
+  return items.map(item => {
+    const description = tagText(item, ["description", "summary", "content:encoded", "content"]);
+    const categories = [...item.matchAll(/<category\b[^>]*?(?:term="([^"]+)"[^>]*\/>|>([\s\S]*?)<\/category>)/gi)]
+      .map(m => cleanText(m[1] || m[2] || ""))
+      .filter(Boolean);
+    return {
+      title: tagText(item, ["title"]),
+      description: description ? description.slice(0, 500) : null,
+      url: linkOf(item),
+      published_at: toIso(tagText(item, ["pubDate", "published", "updated", "dc:date"])),
+      source: host,
+      categories,
+      keywords: categories.join(", "),
+      origin: "rss" as const,
+    };
+  }).filter(a => a.title);
+}
+
+async function fetchFeed(env: Env, url: string, logger: Logger): Promise<NewsArticle[]> {
+  const res = await fetchWithRetryEnhanced(
+    env,
+    url,
+    { method: "GET", headers: { "User-Agent": NEWS_USER_AGENT, "Accept": "application/rss+xml, application/atom+xml, text/xml" } },
+    logger,
+    2,
+    500
+  );
+  return parseFeed(await res.text(), url);
+}
+
+function feeds(env: Env): string[] {
+  return csvList(env.NEWS_RSS_FEEDS, DEFAULT_RSS_FEEDS);
+}
+
+// Feeds cannot be searched, so they only contribute to the general market news
+export const rssSource: NewsSource = {
+  id: "rss",
+  searchable: false,
+
+  isConfigured(env) {
+    return feeds(env).length > 0;
+  },
+
+  async fetchArticles(env, logger, query) {
+    const results = await Promise.allSettled(feeds(env).map(url => fetchFeed(env, url, logger)));
+    const articles: NewsArticle[] = [];
+    results.forEach((r, idx) => {
+      if (r.status === "fulfilled") articles.push(...r.value);
+      else logger.warn("RSS feed failed", { feed: feeds(env)[idx], error: String(r.reason) });
+    });
+    if (!articles.length && results.every(r => r.status === "rejected")) {
+      throw new Error("All RSS feeds failed");
+    }
+
+    return articles
+      .sort((a, b) => Date.parse(b.published_at || "") - Date.parse(a.published_at || "") || 0)
+      .slice(0, query.limit);
+  },
+};
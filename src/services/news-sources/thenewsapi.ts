@@ -0,0 +1,45 @@
+// =====================================
+// ===== THENEWSAPI NEWS SOURCE
+// =====================================
+
+import { NewsSource, TheNewsAPIResponse } from '../../types';
+import { THENEWSAPI_BASE_URL, NEWS_USER_AGENT } from '../../config/constants';
+import { fetchWithRetryEnhanced } from '../../utils/http';
+
+const MARKET_SEARCH = "crypto OR bitcoin OR ethereum OR blockchain";
+
+export const theNewsApiSource: NewsSource = {
+  id: "thenewsapi",
+  searchable: true,
+
+  isConfigured(env) {
+    return !!env.THENEWSAPI_KEY;
+  },
+
+  async fetchArticles(env, logger, query) {
+    const params = new URLSearchParams({
+      api_token: env.THENEWSAPI_KEY!,
+      search: query.terms?.length
+        ? query.terms.map(t => (t.includes(" ") ? `"${t}"` : t)).join(" OR ")
+        : MARKET_SEARCH,
+      search_fields: "title,description,keywords",
+      language: "en",
+      sort: "published_at",
+      limit: String(Math.min(query.limit, 100)),
+    });
+    // General market news sticks to business and tech; coin searches cover every category
+    if (!query.terms?.length) params.set("categories", "business,tech");
+
+    const res = await fetchWithRetryEnhanced(
+      env,
+      `${THENEWSAPI_BASE_URL}/v1/news/all?${params.toString()}`,
+      { method: "GET", headers: { "User-Agent": NEWS_USER_AGENT } },
+      logger,
+      3,
+      500
+    );
+
+    const json = (await res.json()) as TheNewsAPIResponse;
+    return (json?.data || []).map(a => ({ ...a, origin: "thenewsapi" as const }));
+  },
+};
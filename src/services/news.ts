@@ -1,94 +1,141 @@
 // =====================================
-// ===== NEWS API SERVICE
+// ===== NEWS SERVICE
+// ===== Purpose: Merge articles from all configured news sources
 // =====================================
 
-import { Logger, NewsArticle, TheNewsAPIResponse, Env } from '../types';
-import { fetchWithRetryEnhanced } from '../utils/http';
-import { maxArticles } from '../utils/helpers';
+import { Logger, NewsArticle, NewsQuery, Env } from '../types';
+import { maxArticles, coinAliases, newsSources, newsSourceWeight } from '../utils/helpers';
+import { COIN_NEWS_MIN_ARTICLES, MAX_COIN_ARTICLES, NEWS_TITLE_DUPLICATE_SIMILARITY } from '../config/constants';
+import { titleTokens, titleSimilarity, rankArticles } from '../utils/news-scoring';
+import { getNewsSource } from './news-sources';
 
-// Fetch crypto news using TheNewsAPI
-export async function fetchCryptoNews(env: Env, logger: Logger): Promise<NewsArticle[]> {
-  logger.debug("Fetching crypto news from TheNewsAPI");
-  
-  const params = new URLSearchParams({
-    api_token: env.THENEWSAPI_KEY,
-    search: "crypto OR bitcoin OR ethereum OR blockchain",
-    search_fields: "title,description,keywords",
-    categories: "business,tech",
-    language: "en",
-    sort: "published_at",
-    limit: String(Math.min(maxArticles(env) * 2, 100)),
-  });
+// Comparable URL: no scheme, www, query string, fragment or trailing slash
+function normalizeUrl(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    const u = new URL(url);
+    return `${u.hostname.replace(/^www\./, "")}${u.pathname.replace(/\/+$/, "")}`.toLowerCase();
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
 
-  const url = `https://api.thenewsapi.com/v1/news/all?${params.toString()}`;
-  const res = await fetchWithRetryEnhanced(
-    url, 
-    { 
-      method: "GET",
-      headers: {
-        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36"
-      }
-    }, 
-    logger, 
-    3, 
-    500
-  );
-  
-  const json = (await res.json()) as TheNewsAPIResponse;
-  const allArticles = json?.data || [];
-  
-  logger.info("Successfully fetched news from TheNewsAPI", { totalCount: allArticles.length });
-  
-  // Filter for crypto-related articles
-  const cryptoArticles = allArticles.filter(article => {
-    const title = (article.title || "").toLowerCase();
-    const description = (article.description || "").toLowerCase();
-    const keywords = (article.keywords || "").toLowerCase();
-    
-    return title.includes('crypto') || title.includes('bitcoin') || title.includes('ethereum') ||
-           title.includes('blockchain') || title.includes('defi') || title.includes('nft') ||
-           description.includes('crypto') || description.includes('bitcoin') || description.includes('ethereum') ||
-           keywords.includes('crypto') || keywords.includes('bitcoin') || keywords.includes('ethereum');
-  });
-  
-  logger.info("Filtered crypto-related articles", { cryptoCount: cryptoArticles.length });
-  
-  // If we don't have enough crypto articles, include some general business/finance articles
-  let articles = cryptoArticles;
-  if (articles.length < 5) {
-    const businessArticles = allArticles.filter(article => {
-      const title = (article.title || "").toLowerCase();
-      const description = (article.description || "").toLowerCase();
-      return title.includes('market') || title.includes('stock') || title.includes('finance') ||
-             title.includes('economy') || title.includes('trading') ||
-             description.includes('market') || description.includes('stock') || description.includes('finance');
-    });
-    
-    // Combine crypto and business articles, prioritizing crypto
-    articles = [...cryptoArticles, ...businessArticles.slice(0, 10)];
-    logger.info("Added business articles due to insufficient crypto news", { 
-      cryptoCount: cryptoArticles.length, 
-      businessCount: businessArticles.length,
-      totalCount: articles.length 
-    });
+// Merge articles: same URL or near-identical title counts as one article, the copy from the heavier source wins
+export function mergeArticles(articles: NewsArticle[]): NewsArticle[] {
+  const ordered = articles
+    .filter(a => (a.title || "").trim())
+    .sort((a, b) => (b.weight ?? 1) - (a.weight ?? 1));
+
+  const kept: { article: NewsArticle; url: string | null; tokens: Set<string> }[] = [];
+  for (const article of ordered) {
+    const url = normalizeUrl(article.url);
+    const tokens = titleTokens(article.title);
+    const duplicate = kept.some(k =>
+      (url !== null && k.url === url) || titleSimilarity(k.tokens, tokens) >= NEWS_TITLE_DUPLICATE_SIMILARITY
+    );
+    if (!duplicate) kept.push({ article, url, tokens });
   }
 
-  // Deduplicate by title/url and drop empty titles
-  const seen = new Set<string>();
-  const cleaned: NewsArticle[] = [];
-  for (const a of articles) {
-    const key = (a.title || a.url || "").trim().toLowerCase();
-    if (!key || seen.has(key)) continue;
-    seen.add(key);
-    cleaned.push(a);
+  return kept.map(k => k.article);
+}
+
+// Query every enabled source in parallel; one failing source only costs its own articles
+async function collectArticles(
+  env: Env,
+  logger: Logger,
+  query: NewsQuery,
+  searchableOnly: boolean
+): Promise<NewsArticle[]> {
+  const sources = newsSources(env)
+    .map(getNewsSource)
+    .filter(s => s.isConfigured(env) && (!searchableOnly || s.searchable));
+  if (!sources.length) throw new Error("No news source configured");
+
+  const results = await Promise.allSettled(sources.map(s => s.fetchArticles(env, logger, query)));
+  const articles: NewsArticle[] = [];
+  const failed: string[] = [];
+  results.forEach((r, idx) => {
+    const source = sources[idx];
+    if (r.status === "fulfilled") {
+      const weight = newsSourceWeight(env, source.id);
+      articles.push(...r.value.map(a => ({ ...a, origin: source.id, weight })));
+      logger.debug("News source fetched", { source: source.id, count: r.value.length, coin: query.coin });
+    } else {
+      failed.push(source.id);
+      logger.warn(`News source ${source.id} failed`, { source: source.id, coin: query.coin, error: String(r.reason) });
+    }
+  });
+
+  if (failed.length === sources.length) {
+    throw new Error(`All news sources failed: ${failed.join(", ")}`);
   }
-  
-  const result = cleaned.slice(0, maxArticles(env));
-  logger.info("Final news articles for sentiment analysis", { count: result.length });
-  
-  if (result.length === 0) {
-    throw new Error("No news articles found for sentiment analysis");
+  return articles;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Ticker-style aliases (SOL, XRP) match case-sensitively so "sol" or "solution" don't count; names match in any case
+function aliasPattern(alias: string): RegExp {
+  const isTicker = /^[A-Z0-9]{2,6}$/.test(alias);
+  return new RegExp(`(^|[^A-Za-z0-9])\\$?${escapeRegExp(alias)}($|[^A-Za-z0-9])`, isTicker ? "" : "i");
+}
+
+// Articles that mention any of the coin's aliases in the title, description, snippet or keywords
+export function tagArticlesForCoin(articles: NewsArticle[], aliases: string[]): NewsArticle[] {
+  const patterns = aliases.map(aliasPattern);
+  return articles.filter(a => {
+    const text = [a.title, a.description, a.snippet, a.keywords].filter(Boolean).join(" \n ");
+    return patterns.some(p => p.test(text));
+  });
+}
+
+// Coin-specific news: tag the run's market articles first, search the sources only when too few match
+export async function fetchCoinNews(
+  env: Env,
+  logger: Logger,
+  coin: string,
+  marketArticles: NewsArticle[] = []
+): Promise<NewsArticle[]> {
+  const aliases = coinAliases(env, coin);
+  let articles = tagArticlesForCoin(marketArticles, aliases);
+
+  if (articles.length < COIN_NEWS_MIN_ARTICLES) {
+    try {
+      const found = await collectArticles(env, logger, { terms: aliases, coin, limit: MAX_COIN_ARTICLES * 3 }, true);
+      articles = [...articles, ...tagArticlesForCoin(found, aliases)];
+    } catch (error) {
+      logger.warn("Coin news search failed", { coin, error: String(error) });
+    }
   }
-  
+
+  // Every tagged article is on topic, so rank with a base score instead of dropping keyword-less ones
+  const ranked = rankArticles(mergeArticles(articles), Date.now(), 1);
+  logger.info("Coin news collected", { coin, aliases, count: ranked.length });
+  return ranked.slice(0, MAX_COIN_ARTICLES);
+}
+
+// Fetch general crypto market news from all configured sources (empty when none is found; throws when every source fails)
+export async function fetchCryptoNews(env: Env, logger: Logger): Promise<NewsArticle[]> {
+  logger.debug("Fetching crypto news", { sources: newsSources(env) });
+
+  const allArticles = await collectArticles(env, logger, { limit: maxArticles(env) * 2 }, false);
+
+  logger.info("Successfully fetched news", { totalCount: allArticles.length });
+
+  // Rank by keyword relevance, source reputation and recency; near-duplicate stories collapse into one
+  const merged = mergeArticles(allArticles);
+  const result = rankArticles(merged).slice(0, maxArticles(env));
+  logger.info("Final news articles for sentiment analysis", {
+    merged: merged.length,
+    count: result.length,
+    bySource: result.reduce<Record<string, number>>((acc, a) => {
+      acc[a.origin || "unknown"] = (acc[a.origin || "unknown"] || 0) + 1;
+      return acc;
+    }, {}),
+  });
+
+  if (result.length === 0) logger.warn("No news articles found for sentiment analysis");
   return result;
 }
@@ -0,0 +1,34 @@
+// =====================================
+// ===== NOTIFICATION SERVICE
+// ===== Purpose: Fan a notification out to the channels routed for its kind
+// =====================================
+
+import { Env, Logger, Notification } from '../types';
+import { notifyRoute } from '../utils/helpers';
+import { getNotifier } from './notifiers';
+
+// Send to every configured channel of the route; throws only when all of them fail
+export async function notify(env: Env, logger: Logger, notification: Notification): Promise<void> {
+  const route = notifyRoute(env, notification.kind);
+  const targets = route.map(getNotifier).filter(n => {
+    if (!n.isConfigured(env)) {
+      logger.warn(`Notifier ${n.id} is routed but not configured`, { kind: notification.kind, notifier: n.id });
+      return false;
+    }
+    return true;
+  });
+
+  if (!targets.length) {
+    logger.warn("No notification channel configured", { kind: notification.kind, route, title: notification.title });
+    return;
+  }
+
+  const results = await Promise.allSettled(targets.map(n => n.send(env, logger, notification)));
+  const failures: unknown[] = [];
+  results.forEach((r, idx) => {
+    if (r.status === "fulfilled") return;
+    failures.push(r.reason);
+    logger.error(`Notifier ${targets[idx].id} failed`, { kind: notification.kind, notifier: targets[idx].id, error: String(r.reason) });
+  });
+  if (failures.length === targets.length) throw failures[0];
+}
@@ -0,0 +1,87 @@
+// =====================================
+// ===== DISCORD WEBHOOK NOTIFIER
+// =====================================
+
+import { NotificationLevel, Notifier } from '../../types';
+import { fetchWithRetryEnhanced } from '../../utils/http';
+import { truncate } from '../../utils/helpers';
+
+// Embed limits from the Discord API docs
+const MAX_TITLE = 256;
+const MAX_FIELDS = 25;
+const MAX_FIELD_NAME = 256;
+const MAX_FIELD_VALUE = 1024;
+const MAX_EMBED_TOTAL = 6000;
+
+const LEVEL_COLORS: Record<NotificationLevel, number> = {
+  info: 0x3498db,
+  success: 0x2ecc71,
+  warning: 0xf1c40f,
+  error: 0xe74c3c,
+};
+
+interface DiscordEmbedField {
+  name: string;
+  value: string;
+  inline: boolean;
+}
+
+export const discordNotifier: Notifier = {
+  id: "discord",
+
+  isConfigured(env) {
+    return !!env.DISCORD_WEBHOOK_URL;
+  },
+
+  async send(env, logger, notification) {
+    const title = truncate(notification.title, MAX_TITLE);
+    const candidates: DiscordEmbedField[] = [
+      ...notification.fields.map(f => ({
+        name: truncate(f.name, MAX_FIELD_NAME),
+        value: truncate(f.value || "—", MAX_FIELD_VALUE),
+        inline: true,
+      })),
+      ...notification.sections.map(s => ({
+        name: truncate(s.heading, MAX_FIELD_NAME),
+        value: s.code
+          ? "```\n" + truncate(s.lines.join("\n"), MAX_FIELD_VALUE - 8) + "\n```"
+          : truncate(s.lines.join("\n") || "—", MAX_FIELD_VALUE),
+        inline: false,
+      })),
+    ];
+
+    // Keep whole fields until the per-embed limits are reached
+    const fields: DiscordEmbedField[] = [];
+    let total = title.length;
+    for (const field of candidates) {
+      const size = field.name.length + field.value.length;
+      if (fields.length >= MAX_FIELDS || total + size > MAX_EMBED_TOTAL) {
+        logger.warn("Discord embed truncated", { title, kept: fields.length, total: candidates.length });
+        break;
+      }
+      fields.push(field);
+      total += size;
+    }
+
+    await fetchWithRetryEnhanced(
+      env,
+      env.DISCORD_WEBHOOK_URL!,
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          embeds: [{
+            title,
+            color: LEVEL_COLORS[notification.level],
+            fields,
+            timestamp: new Date(notification.timestamp).toISOString(),
+          }],
+        }),
+      },
+      logger,
+      3,
+      700
+    );
+    logger.info("Discord notification sent", { title, fields: fields.length });
+  },
+};
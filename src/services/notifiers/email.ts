@@ -0,0 +1,182 @@
+// =====================================
+// ===== EMAIL NOTIFIER (MailChannels / SMTP)
+// =====================================
+
+import { Env, Logger, Notification, Notifier } from '../../types';
+import { MAILCHANNELS_API_URL, DEFAULT_SMTP_PORT } from '../../config/constants';
+import { fetchWithRetryEnhanced, sleep } from '../../utils/http';
+import { renderNotificationText } from '../../utils/render';
+
+const SMTP_TIMEOUT_MS = 30000;
+
+function recipients(env: Env): string[] {
+  return (env.EMAIL_TO || "").split(",").map(s => s.trim()).filter(Boolean);
+}
+
+function subjectFor(n: Notification): string {
+  return n.level === "error" ? `[ERROR] ${n.title}` : n.title;
+}
+
+// Base64 of the UTF-8 bytes (btoa alone only handles Latin-1)
+function base64Utf8(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+async function sendViaMailChannels(env: Env, logger: Logger, n: Notification): Promise<void> {
+  const headers: Record<string, string> = { "content-type": "application/json" };
+  if (env.MAILCHANNELS_API_KEY) headers["X-Api-Key"] = env.MAILCHANNELS_API_KEY;
+
+  await fetchWithRetryEnhanced(
+    env,
+    MAILCHANNELS_API_URL,
+    {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        personalizations: [{ to: recipients(env).map(email => ({ email })) }],
+        from: { email: env.EMAIL_FROM },
+        subject: subjectFor(n),
+        content: [{ type: "text/plain", value: renderNotificationText(n) }],
+      }),
+    },
+    logger,
+    3,
+    700
+  );
+}
+
+// Minimal SMTP conversation over a Workers TCP socket
+class SmtpSession {
+  private socket: Socket;
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private buffer = "";
+  private readonly decoder = new TextDecoder();
+  private readonly encoder = new TextEncoder();
+
+  constructor(socket: Socket) {
+    this.socket = socket;
+    this.reader = socket.readable.getReader();
+    this.writer = socket.writable.getWriter();
+  }
+
+  // Read one (possibly multi-line) reply and check its status code
+  async expect(...codes: number[]): Promise<string> {
+    const lines: string[] = [];
+    for (;;) {
+      let idx: number;
+      while ((idx = this.buffer.indexOf("\r\n")) === -1) {
+        const { value, done } = await this.reader.read();
+        if (done) throw new Error("SMTP connection closed unexpectedly");
+        this.buffer += this.decoder.decode(value, { stream: true });
+      }
+      const line = this.buffer.slice(0, idx);
+      this.buffer = this.buffer.slice(idx + 2);
+      lines.push(line);
+      if (line.length < 4 || line[3] !== "-") break;
+    }
+    const reply = lines.join("\n");
+    const code = parseInt(reply.slice(0, 3), 10);
+    if (!codes.includes(code)) throw new Error(`SMTP error: ${reply}`);
+    return reply;
+  }
+
+  async command(line: string, ...codes: number[]): Promise<string> {
+    await this.writer.write(this.encoder.encode(line + "\r\n"));
+    return this.expect(...codes);
+  }
+
+  // Upgrade the connection in place after a successful STARTTLS
+  upgrade(hostname: string): void {
+    this.reader.releaseLock();
+    this.writer.releaseLock();
+    this.socket = this.socket.startTls({ expectedServerHostname: hostname });
+    this.reader = this.socket.readable.getReader();
+    this.writer = this.socket.writable.getWriter();
+    this.buffer = "";
+  }
+
+  async close(): Promise<void> {
+    await this.socket.close().catch(() => undefined);
+  }
+}
+
+async function sendViaSmtp(env: Env, logger: Logger, n: Notification): Promise<void> {
+  const { connect } = await import('cloudflare:sockets');
+  const hostname = env.SMTP_HOST!;
+  const port = parseInt(env.SMTP_PORT || "", 10) || DEFAULT_SMTP_PORT;
+  const implicitTls = port === 465;
+  const to = recipients(env);
+
+  const session = new SmtpSession(connect(
+    { hostname, port },
+    { secureTransport: implicitTls ? "on" : "starttls", allowHalfOpen: false }
+  ));
+
+  const conversation = (async () => {
+    await session.expect(220);
+    await session.command("EHLO crypto-worker", 250);
+    if (!implicitTls) {
+      await session.command("STARTTLS", 220);
+      session.upgrade(hostname);
+      await session.command("EHLO crypto-worker", 250);
+    }
+    if (env.SMTP_USERNAME) {
+      await session.command("AUTH LOGIN", 334);
+      await session.command(base64Utf8(env.SMTP_USERNAME), 334);
+      await session.command(base64Utf8(env.SMTP_PASSWORD || ""), 235);
+    }
+    await session.command(`MAIL FROM:<${env.EMAIL_FROM}>`, 250);
+    for (const rcpt of to) await session.command(`RCPT TO:<${rcpt}>`, 250, 251);
+    await session.command("DATA", 354);
+
+    // Dot-stuff lines starting with "." so they are not read as the end of data
+    const body = renderNotificationText(n).split(/\r?\n/).map(l => (l.startsWith(".") ? "." + l : l));
+    const message = [
+      `From: ${env.EMAIL_FROM}`,
+      `To: ${to.join(", ")}`,
+      `Subject: =?UTF-8?B?${base64Utf8(subjectFor(n))}?=`,
+      `Date: ${new Date(n.timestamp).toUTCString()}`,
+      `MIME-Version: 1.0`,
+      `Content-Type: text/plain; charset=UTF-8`,
+      `Content-Transfer-Encoding: 8bit`,
+      ``,
+      ...body,
+      `.`,
+    ].join("\r\n");
+    await session.command(message, 250);
+    await session.command("QUIT", 221).catch(() => undefined);
+  })();
+
+  try {
+    await Promise.race([
+      conversation,
+      sleep(SMTP_TIMEOUT_MS).then(() => { throw new Error(`SMTP timed out after ${SMTP_TIMEOUT_MS}ms`); }),
+    ]);
+  } finally {
+    await session.close();
+  }
+  logger.debug("SMTP conversation finished", { host: hostname, port });
+}
+
+export const emailNotifier: Notifier = {
+  id: "email",
+
+  isConfigured(env) {
+    const provider = (env.EMAIL_PROVIDER || "mailchannels").toLowerCase();
+    const base = !!env.EMAIL_FROM && recipients(env).length > 0;
+    return provider === "smtp" ? base && !!env.SMTP_HOST : base;
+  },
+
+  async send(env, logger, notification) {
+    const provider = (env.EMAIL_PROVIDER || "mailchannels").toLowerCase();
+    if (provider === "smtp") {
+      await sendViaSmtp(env, logger, notification);
+    } else {
+      await sendViaMailChannels(env, logger, notification);
+    }
+    logger.info("Email notification sent", { provider, title: notification.title, recipients: recipients(env).length });
+  },
+};
@@ -0,0 +1,22 @@
+// =====================================
+// ===== NOTIFIER REGISTRY
+// =====================================
+
+import { NotifierId, Notifier } from '../../types';
+import { telegramNotifier } from './telegram';
+import { discordNotifier } from './discord';
+import { slackNotifier } from './slack';
+import { emailNotifier } from './email';
+import { webhookNotifier } from './webhook';
+
+const NOTIFIERS: Record<NotifierId, Notifier> = {
+  telegram: telegramNotifier,
+  discord: discordNotifier,
+  slack: slackNotifier,
+  email: emailNotifier,
+  webhook: webhookNotifier,
+};
+
+export function getNotifier(id: NotifierId): Notifier {
+  return NOTIFIERS[id];
+}
@@ -0,0 +1,89 @@
+// =====================================
+// ===== SLACK WEBHOOK NOTIFIER
+// =====================================
+
+import { NotificationLevel, Notifier } from '../../types';
+import { fetchWithRetryEnhanced } from '../../utils/http';
+import { truncate } from '../../utils/helpers';
+
+// Block Kit limits from the Slack API docs
+const MAX_HEADER = 150;
+const MAX_SECTION_TEXT = 3000;
+const MAX_SECTION_FIELDS = 10;
+const MAX_FIELD_TEXT = 2000;
+const MAX_BLOCKS = 50;
+
+const LEVEL_EMOJI: Record<NotificationLevel, string> = {
+  info: ":information_source:",
+  success: ":white_check_mark:",
+  warning: ":warning:",
+  error: ":rotating_light:",
+};
+
+// Slack mrkdwn only needs the three control characters escaped
+function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export const slackNotifier: Notifier = {
+  id: "slack",
+
+  isConfigured(env) {
+    return !!env.SLACK_WEBHOOK_URL;
+  },
+
+  async send(env, logger, notification) {
+    const blocks: unknown[] = [
+      { type: "header", text: { type: "plain_text", text: truncate(notification.title, MAX_HEADER), emoji: true } },
+    ];
+
+    for (let i = 0; i < notification.fields.length; i += MAX_SECTION_FIELDS) {
+      blocks.push({
+        type: "section",
+        fields: notification.fields.slice(i, i + MAX_SECTION_FIELDS).map(f => ({
+          type: "mrkdwn",
+          text: truncate(`*${escapeMrkdwn(f.name)}*\n${escapeMrkdwn(f.value)}`, MAX_FIELD_TEXT),
+        })),
+      });
+    }
+
+    for (const s of notification.sections) {
+      // Code blocks are mrkdwn too, so their lines are escaped as well
+      const lines = s.lines.map(escapeMrkdwn).join("\n");
+      const body = s.code ? "```" + lines + "```" : lines;
+      blocks.push({
+        type: "section",
+        text: { type: "mrkdwn", text: truncate(`*${escapeMrkdwn(s.heading)}*\n${body}`, MAX_SECTION_TEXT) },
+      });
+    }
+
+    blocks.push({
+      type: "context",
+      elements: [{
+        type: "mrkdwn",
+        text: `${LEVEL_EMOJI[notification.level]} <!date^${Math.floor(notification.timestamp / 1000)}^{date_short_pretty} {time}|${new Date(notification.timestamp).toISOString()}>`,
+      }],
+    });
+
+    if (blocks.length > MAX_BLOCKS) {
+      logger.warn("Slack message truncated", { title: notification.title, blocks: blocks.length });
+    }
+
+    await fetchWithRetryEnhanced(
+      env,
+      env.SLACK_WEBHOOK_URL!,
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          text: notification.title,  // Fallback for notifications and clients without blocks
+          blocks: blocks.length > MAX_BLOCKS ? [...blocks.slice(0, MAX_BLOCKS - 1), blocks[blocks.length - 1]] : blocks,
+        }),
+      },
+      logger,
+      3,
+      700
+    );
+    logger.info("Slack notification sent", { title: notification.title, blocks: Math.min(blocks.length, MAX_BLOCKS) });
+  },
+};
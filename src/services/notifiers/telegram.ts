@@ -0,0 +1,24 @@
+// =====================================
+// ===== TELEGRAM NOTIFIER
+// =====================================
+
+import { Notifier } from '../../types';
+import { renderNotificationHtml } from '../../utils/render';
+import { sendTelegram, sendTelegramImages } from '../telegram';
+
+export const telegramNotifier: Notifier = {
+  id: "telegram",
+
+  isConfigured(env) {
+    return !!env.TELEGRAM_BOT_TOKEN && !!env.TELEGRAM_CHAT_ID;
+  },
+
+  async send(env, logger, notification) {
+    await sendTelegram(env, logger, renderNotificationHtml(notification), env.TELEGRAM_CHAT_ID, notification.buttons);
+    // The report itself went out, so failed images are only logged
+    if (notification.images?.length) {
+      await sendTelegramImages(env, logger, notification.images).catch(error =>
+        logger.warn("Failed to send Telegram images", { title: notification.title, error: String(error) }));
+    }
+  },
+};
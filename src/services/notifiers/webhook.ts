@@ -0,0 +1,40 @@
+// =====================================
+// ===== GENERIC JSON WEBHOOK NOTIFIER
+// =====================================
+
+import { Notifier } from '../../types';
+import { fetchWithRetryEnhanced } from '../../utils/http';
+import { renderNotificationText } from '../../utils/render';
+import { hmacSha256Hex } from '../../utils/helpers';
+
+// Receivers verify `X-Signature` = "sha256=" + HMAC(secret, "<X-Signature-Timestamp>.<raw body>")
+export const webhookNotifier: Notifier = {
+  id: "webhook",
+
+  isConfigured(env) {
+    return !!env.NOTIFY_WEBHOOK_URL;
+  },
+
+  async send(env, logger, notification) {
+    const body = JSON.stringify({
+      kind: notification.kind,
+      level: notification.level,
+      title: notification.title,
+      text: renderNotificationText(notification),
+      fields: notification.fields,
+      sections: notification.sections,
+      timestamp: new Date(notification.timestamp).toISOString(),
+      data: notification.data ?? null,
+    });
+
+    const headers: Record<string, string> = { "content-type": "application/json" };
+    if (env.NOTIFY_WEBHOOK_SECRET) {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      headers["X-Signature-Timestamp"] = timestamp;
+      headers["X-Signature"] = `sha256=${await hmacSha256Hex(env.NOTIFY_WEBHOOK_SECRET, `${timestamp}.${body}`)}`;
+    }
+
+    await fetchWithRetryEnhanced(env, env.NOTIFY_WEBHOOK_URL!, { method: "POST", headers, body }, logger, 3, 700);
+    logger.info("Webhook notification sent", { title: notification.title, signed: !!env.NOTIFY_WEBHOOK_SECRET });
+  },
+};
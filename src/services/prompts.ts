@@ -0,0 +1,292 @@
+// =====================================
+// ===== PROMPT TEMPLATES
+// ===== Purpose: Versioned system/user prompts for the sentiment and agent steps
+// =====================================
+
+import { Env, Logger, LLMStep, NewsArticle, AnalysisInput, SentimentJSON, PromptTemplate } from '../types';
+import { DEFAULT_PROMPT_VERSION, PROMPT_CACHE_TTL_SECONDS } from '../config/constants';
+import { truncate } from '../utils/helpers';
+
+// Built-in templates. {{name}} placeholders are filled by renderTemplate; versions stored in KV
+// under prompt:<step>:<version> take precedence, so new wording can ship without a deploy.
+const SENTIMENT_V1: PromptTemplate = {
+  step: "sentiment",
+  version: "v1",
+  system: `You are a highly intelligent and accurate sentiment analyzer specializing in cryptocurrency markets. Analyze the sentiment of the provided text using a two-part approach:{{focus}}
+
+1. Short-Term Sentiment:
+   - Evaluate the immediate market reaction, recent news impact, and technical volatility.
+   - Determine a sentiment category: "Positive", "Neutral", or "Negative".
+   - Calculate a numerical score between -1 (extremely negative) and 1 (extremely positive).
+   - Provide a concise rationale explaining the short-term sentiment (give a detailed response with appropriate headlines for major events, and cryptocurrencies.
+
+2. Long-Term Sentiment:
+   - Evaluate the overall market outlook, fundamentals, and regulatory or macroeconomic factors.
+   - Determine a sentiment category: "Positive", "Neutral", or "Negative".
+   - Calculate a numerical score between -1 (extremely negative) and 1 (extremely positive).
+   - Provide a detailed rationale explaining the long-term sentiment (give a detailed response with appropriate headlines for major events, and cryptocurrencies.
+
+Your output must be exactly a JSON object with exactly two keys: "shortTermSentiment" and "longTermSentiment". The value of each key must be an object with three keys: "category", "score", and "rationale". Do not output any additional text.
+
+For example, your output should look like:
+
+{
+  "shortTermSentiment": {
+    "category": "Positive",
+    "score": 0.7,
+    "rationale": "."
+  },
+  "longTermSentiment": {
+    "category": "Neutral",
+    "score": 0.0,
+    "rationale": "."
+  }
+}`,
+  user: `Now, analyze the following text and produce your JSON output:
+{{articles}}`,
+};
+
+const AGENT_V1: PromptTemplate = {
+  step: "agent",
+  version: "v1",
+  system: `You are a highly intelligent and accurate cryptocurrency market analyst specializing in technical analysis and trading recommendations. Your expertise includes:
+
+1. Technical Analysis:
+   - Price action analysis (support/resistance, trendlines, patterns)
+   - Volume analysis and market structure
+   - Multi-timeframe analysis ({{timeframes}})
+   - Risk management and position sizing
+
+2. Market Sentiment:
+   - Integration of news sentiment with technical analysis
+   - Macro-economic factors affecting crypto markets
+   - Market psychology and crowd behavior
+
+3. Trading Strategy:
+   - Spot trading recommendations
+   - Leveraged trading with proper risk management
+   - Entry, stop-loss, and take-profit levels
+   - Position sizing and leverage recommendations
+
+Your analysis must be:
+- Data-driven and objective
+- Risk-aware with proper stop-loss levels
+- Clear and actionable for traders
+- Based on both technical and fundamental factors
+
+Output your analysis as a single JSON object in the exact structure requested.`,
+  user: `here is combined market data for {{symbol}} for you to reference:
+
+Technical Data:
+{{candles}}
+
+Computed Indicators:
+{{indicators}}
+
+Coin Sentiment (news about this coin):
+{{sentiment}}
+
+Market Sentiment (overall crypto market news):
+{{marketSentiment}}
+
+This data contains candlestick information from the exchange API in the following format:
+- timeframe: {{timeframeList}}
+- candles: Array of objects with:
+  - timestamp: Unix timestamp in milliseconds
+  - open: Opening price
+  - high: Highest price
+  - low: Lowest price
+  - close: Closing price
+  - volume: Trading volume
+  - amount: Quote volume (USDT amount)
+
+Computed Indicators: Deterministic values per timeframe, calculated from up to {{indicatorDepth}} candles (more history than the candles shown above):
+  - lastClose, sma20, sma50, ema12, ema26, ema50
+  - rsi14: RSI (14, Wilder)
+  - macd: MACD (12, 26, 9) line, signal and histogram
+  - bollinger: Bollinger Bands (20, 2) upper, middle, lower and bandwidth
+  - atr14: Average True Range (14)
+  - obv: On-Balance Volume, obvChange10: OBV change over the last 10 candles
+  - vwap: Volume-weighted average price over the fetched window
+A null value means there was not enough history to compute it. Use these values as given and quote them in your rationale; do not estimate or invent indicator values yourself.
+
+Sentiment Data: Short-term and long-term sentiment, scored separately from news about {{symbol}} itself (Coin Sentiment) and from general crypto market headlines (Market Sentiment). Weigh coin-specific news first and use the market sentiment as the macro backdrop.
+
+Please perform the following analysis:
+
+Group the Data:
+• Short-term data: "{{shortTf}}" candles
+• Medium-term data: "{{mediumTf}}" candles  
+• Long-term data: "{{longTf}}" candles
+
+Analyze the Data in Detail:
+
+Short-term Analysis:
+Use the {{shortTf}} candles (with supportive insights from the {{mediumTf}} candles) to evaluate volatility and determine near-term support and resistance levels. In your analysis, combine traditional lagging indicators (such as MACD, RSI, and OBV) as confirmation tools with direct price action elements—like key support/resistance zones, trendlines, and divergence patterns. Focus on these price-based signals to capture immediate market sentiment and structural levels.
+
+Long-term Analysis:
+Use the {{longTf}} candles (and relevant insights from the {{mediumTf}} candles) to assess the overall market direction and major support/resistance zones. Here, integrate long-term trendlines and divergence signals along with lagging indicators to understand the broader market context and potential structural shifts.
+
+Generate Trading Recommendations:
+
+For Spot Trading:
+• Action: (buy, sell, or hold)
+• Entry Price:
+• Stop-Loss Level:
+• Take Profit (TP) Level:
+• Rationale: Provide an extremely detailed explanation of your recommendation. Break down your rationale into three parts:
+  a. Primary Signals: Describe key price action insights (support/resistance zones, trendline breakouts or bounces, divergence patterns).
+  b. Lagging Indicators: Explain how indicators (MACD, RSI, OBV, etc.) confirm or supplement these signals.
+  c. Sentiment Analysis: Discuss volume trends, market sentiment, and macro factors. Combine these elements into one comprehensive explanation. 
+
+For Leveraged Trading:
+• Position: (long or short)
+• Recommended Leverage: (e.g., 3x, 5x, etc.)
+• Entry Price:
+• Stop-Loss Level:
+• Take Profit (TP) Level:
+• Rationale: Provide a detailed explanation that similarly breaks down your rationale into:
+  a. Primary Price Action Signals: Outline key support/resistance levels, trendlines, and divergence patterns.
+  b. Lagging Indicator Confirmation: Describe how indicators validate these signals.
+  c. Sentiment & Macro Analysis: Include analysis of volume trends, overall market sentiment, and broader economic factors.
+
+Output Format:
+Return only a JSON object (no markdown, no extra text) with exactly these keys:
+
+{
+  "spot": {
+    "shortTerm": {
+      "action": "buy" | "sell" | "hold",
+      "entry": number | null,
+      "stopLoss": number | null,
+      "takeProfit": number | null,
+      "rationale": {
+        "primarySignals": "...",
+        "laggingIndicators": "...",
+        "sentimentAnalysis": "..."
+      }
+    },
+    "longTerm": { same shape as spot.shortTerm }
+  },
+  "leveraged": {
+    "shortTerm": {
+      "position": "long" | "short",
+      "leverage": number,
+      "entry": number,
+      "stopLoss": number,
+      "takeProfit": number,
+      "rationale": {
+        "primarySignals": "...",
+        "laggingIndicators": "...",
+        "sentimentAnalysis": "..."
+      }
+    },
+    "longTerm": { same shape as leveraged.shortTerm }
+  }
+}
+
+Prices are plain numbers in USDT (no currency symbols or ranges). Use null for spot entry, stopLoss and takeProfit only when the action is "hold". Leverage is the multiplier as a number (e.g. 3 for 3x). Rationale fields are plain text without HTML.`,
+};
+
+export const BUILTIN_PROMPTS: Record<LLMStep, Record<string, PromptTemplate>> = {
+  sentiment: { v1: SENTIMENT_V1 },
+  agent: { v1: AGENT_V1 },
+};
+
+// Replace {{name}} with its variable; unknown placeholders are left in place so typos stay visible
+export function renderTemplate(text: string, vars: Record<string, string>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => (name in vars ? vars[name] : match));
+}
+
+// Template for a step and version: KV first, then the built-ins. Unknown versions throw.
+export async function loadPromptTemplate(
+  env: Env,
+  logger: Logger,
+  step: LLMStep,
+  version: string
+): Promise<PromptTemplate> {
+  if (env.PROMPTS) {
+    try {
+      const stored = await env.PROMPTS.get<{ system?: string; user?: string }>(
+        `prompt:${step}:${version}`,
+        { type: "json", cacheTtl: PROMPT_CACHE_TTL_SECONDS }
+      );
+      if (stored?.system && stored?.user) return { step, version, system: stored.system, user: stored.user };
+    } catch (error) {
+      logger.warn("Failed to load prompt template from KV", { step, version, error: String(error) });
+    }
+  }
+
+  const builtin = BUILTIN_PROMPTS[step][version];
+  if (!builtin) throw new Error(`Unknown ${step} prompt version: ${version}`);
+  return builtin;
+}
+
+// Build sentiment analysis prompt
+export function buildSentimentPrompt(
+  filteredArticles: NewsArticle[],
+  focus?: { coin: string; aliases: string[] },
+  template: PromptTemplate = BUILTIN_PROMPTS.sentiment[DEFAULT_PROMPT_VERSION]
+): { system: string; user: string } {
+  const vars: Record<string, string> = {
+    focus: focus
+      ? `\n\nFocus exclusively on ${focus.coin} (also known as ${focus.aliases.join(", ")}). Ignore news about other assets unless it directly affects ${focus.coin}, and base the scores only on what the articles say about ${focus.coin}.`
+      : "",
+    coin: focus?.coin ?? "",
+    articles: JSON.stringify(filteredArticles),
+    date: new Date().toISOString(),
+  };
+  return { system: renderTemplate(template.system, vars), user: renderTemplate(template.user, vars) };
+}
+
+// Build AI agent instruction
+export function buildAgentInstruction(
+  symbol: string,
+  combined: AnalysisInput,
+  template: PromptTemplate = BUILTIN_PROMPTS.agent[DEFAULT_PROMPT_VERSION]
+): { system: string; user: string } {
+  // Timeframes come from the symbol's profile, shortest first (15m, 1h, 1d by default)
+  const timeframes = combined.allCandles.map(tc => tc.timeframe);
+  const vars: Record<string, string> = {
+    symbol,
+    candles: JSON.stringify(combined.allCandles),
+    indicators: JSON.stringify(combined.indicators),
+    sentiment: JSON.stringify(combined.sentiment),
+    marketSentiment: JSON.stringify(combined.marketSentiment),
+    timeframes: timeframes.join(", "),
+    timeframeList: timeframes.map(tf => `"${tf}"`).join(", "),
+    shortTf: timeframes[0],
+    mediumTf: timeframes[Math.min(1, timeframes.length - 1)],
+    longTf: timeframes[timeframes.length - 1],
+    indicatorDepth: String(Math.max(0, ...combined.indicators.map(i => i.candleCount))),
+    date: new Date().toISOString(),
+  };
+  return { system: renderTemplate(template.system, vars), user: renderTemplate(template.user, vars) };
+}
+
+// Smaller sentiment input for an input_too_large retry: half the articles per level, snippets dropped
+export function shrinkArticles(articles: NewsArticle[], level: number): NewsArticle[] {
+  if (level <= 0) return articles;
+  return articles
+    .slice(0, Math.max(1, Math.ceil(articles.length / 2 ** level)))
+    .map(({ snippet: _snippet, ...rest }) => rest);
+}
+
+// Smaller agent input for an input_too_large retry: half the prompt candles per level and, from level 2,
+// shortened sentiment rationales. Indicators are kept since the guardrails and the rationale rely on them.
+export function shrinkAnalysisInput(input: AnalysisInput, level: number): AnalysisInput {
+  if (level <= 0) return input;
+  const clip = (s: SentimentJSON): SentimentJSON => level < 2 ? s : {
+    shortTermSentiment: { ...s.shortTermSentiment, rationale: truncate(s.shortTermSentiment.rationale, 500) },
+    longTermSentiment: { ...s.longTermSentiment, rationale: truncate(s.longTermSentiment.rationale, 500) },
+  };
+  return {
+    ...input,
+    allCandles: input.allCandles.map(tc => ({
+      ...tc,
+      candles: tc.candles.slice(-Math.max(1, Math.ceil(tc.candles.length / 2 ** level))),
+    })),
+    sentiment: clip(input.sentiment),
+    marketSentiment: clip(input.marketSentiment),
+  };
+}
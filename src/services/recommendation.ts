@@ -0,0 +1,240 @@
+// =====================================
+// ===== TRADE RECOMMENDATION SERVICE
+// =====================================
+
+import { Logger, Env, TradeRecommendation, AnalysisInput, GuardrailViolation, JsonCompletion } from '../types';
+import { guardrailLimits } from '../utils/helpers';
+import { checkRecommendation } from '../utils/guardrails';
+import { completeJSON } from './llm';
+
+// Gemini-style response schema (OpenAPI subset) for structured output
+const RATIONALE_SCHEMA = {
+  type: "OBJECT",
+  properties: {
+    primarySignals: { type: "STRING" },
+    laggingIndicators: { type: "STRING" },
+    sentimentAnalysis: { type: "STRING" },
+  },
+  required: ["primarySignals", "laggingIndicators", "sentimentAnalysis"],
+};
+
+const SPOT_SCHEMA = {
+  type: "OBJECT",
+  properties: {
+    action: { type: "STRING", enum: ["buy", "sell", "hold"] },
+    entry: { type: "NUMBER", nullable: true },
+    stopLoss: { type: "NUMBER", nullable: true },
+    takeProfit: { type: "NUMBER", nullable: true },
+    rationale: RATIONALE_SCHEMA,
+  },
+  required: ["action", "entry", "stopLoss", "takeProfit", "rationale"],
+};
+
+const LEVERAGED_SCHEMA = {
+  type: "OBJECT",
+  properties: {
+    position: { type: "STRING", enum: ["long", "short"] },
+    leverage: { type: "NUMBER" },
+    entry: { type: "NUMBER" },
+    stopLoss: { type: "NUMBER" },
+    takeProfit: { type: "NUMBER" },
+    rationale: RATIONALE_SCHEMA,
+  },
+  required: ["position", "leverage", "entry", "stopLoss", "takeProfit", "rationale"],
+};
+
+export const TRADE_RECOMMENDATION_SCHEMA: Record<string, unknown> = {
+  type: "OBJECT",
+  properties: {
+    spot: {
+      type: "OBJECT",
+      properties: { shortTerm: SPOT_SCHEMA, longTerm: SPOT_SCHEMA },
+      required: ["shortTerm", "longTerm"],
+    },
+    leveraged: {
+      type: "OBJECT",
+      properties: { shortTerm: LEVERAGED_SCHEMA, longTerm: LEVERAGED_SCHEMA },
+      required: ["shortTerm", "longTerm"],
+    },
+  },
+  required: ["spot", "leveraged"],
+};
+
+// Validation helpers
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isPositiveNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v) && v > 0;
+const isOneOf = <T extends string>(v: unknown, options: readonly T[]): v is T =>
+  typeof v === "string" && (options as readonly string[]).includes(v);
+
+function validateRationale(value: unknown, path: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  for (const key of ["primarySignals", "laggingIndicators", "sentimentAnalysis"]) {
+    const text = value[key];
+    if (typeof text !== "string" || !text.trim()) {
+      errors.push(`${path}.${key} must be a non-empty string`);
+    }
+  }
+}
+
+function validateSpot(value: unknown, path: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (!isOneOf(value.action, ["buy", "sell", "hold"] as const)) {
+    errors.push(`${path}.action must be one of buy, sell, hold`);
+  }
+  for (const key of ["entry", "stopLoss", "takeProfit"]) {
+    const level = value[key];
+    if (value.action === "hold" && level === null) continue;
+    if (!isPositiveNumber(level)) {
+      errors.push(`${path}.${key} must be a positive number${value.action === "hold" ? " or null" : ""}`);
+    }
+  }
+  validateRationale(value.rationale, `${path}.rationale`, errors);
+}
+
+function validateLeveraged(value: unknown, path: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (!isOneOf(value.position, ["long", "short"] as const)) {
+    errors.push(`${path}.position must be one of long, short`);
+  }
+  for (const key of ["leverage", "entry", "stopLoss", "takeProfit"]) {
+    if (!isPositiveNumber(value[key])) {
+      errors.push(`${path}.${key} must be a positive number`);
+    }
+  }
+  validateRationale(value.rationale, `${path}.rationale`, errors);
+}
+
+// Validate a parsed object against the TradeRecommendation schema; returns a list of problems
+export function validateRecommendation(data: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(data)) return ["response must be a JSON object"];
+
+  if (!isObject(data.spot)) {
+    errors.push("spot must be an object");
+  } else {
+    validateSpot(data.spot.shortTerm, "spot.shortTerm", errors);
+    validateSpot(data.spot.longTerm, "spot.longTerm", errors);
+  }
+
+  if (!isObject(data.leveraged)) {
+    errors.push("leveraged must be an object");
+  } else {
+    validateLeveraged(data.leveraged.shortTerm, "leveraged.shortTerm", errors);
+    validateLeveraged(data.leveraged.longTerm, "leveraged.longTerm", errors);
+  }
+
+  return errors;
+}
+
+// Parse and validate raw model output
+export function parseRecommendation(raw: string): { recommendation?: TradeRecommendation; errors: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (e) {
+    return { errors: [`invalid JSON: ${String(e)}`] };
+  }
+  const errors = validateRecommendation(data);
+  return errors.length ? { errors } : { recommendation: data as TradeRecommendation, errors };
+}
+
+// Build the follow-up prompt asking the model to fix its previous output
+function buildRepairPrompt(userPrompt: string, raw: string, errors: string[]): string {
+  return `${userPrompt}
+
+Your previous response did not match the required JSON structure.
+
+Problems found:
+${errors.map(e => `- ${e}`).join("\n")}
+
+Previous response:
+${raw}
+
+Return the corrected JSON object only.`;
+}
+
+// Ask the agent model for a structured recommendation, with one repair pass on malformed output
+export async function generateRecommendation(
+  env: Env,
+  logger: Logger,
+  systemPrompt: string,
+  userPrompt: string,
+  complete: JsonCompletion = completeJSON
+): Promise<TradeRecommendation> {
+  const options = {
+    step: "agent" as const,
+    temperature: 0.2,
+    responseSchema: TRADE_RECOMMENDATION_SCHEMA,
+  };
+
+  const raw = await complete(env, logger, systemPrompt, userPrompt, options);
+  const first = parseRecommendation(raw);
+  if (first.recommendation) return first.recommendation;
+
+  logger.warn("Recommendation failed validation, requesting repair", { errors: first.errors });
+  const repairedRaw = await complete(
+    env,
+    logger,
+    systemPrompt,
+    buildRepairPrompt(userPrompt, raw, first.errors),
+    { ...options, temperature: 0.0 }
+  );
+  const second = parseRecommendation(repairedRaw);
+  if (second.recommendation) return second.recommendation;
+
+  logger.error("Recommendation still invalid after repair", { errors: second.errors });
+  throw new Error(`Invalid recommendation from model: ${second.errors.join("; ")}`);
+}
+
+// Build the follow-up prompt asking the model to correct guardrail violations
+function buildGuardrailPrompt(userPrompt: string, rec: TradeRecommendation, violations: GuardrailViolation[]): string {
+  return `${userPrompt}
+
+Your previous recommendation failed these risk checks:
+${violations.map(v => `- ${v.slot}: ${v.reason}`).join("\n")}
+
+Previous recommendation:
+${JSON.stringify(rec)}
+
+Return a corrected JSON object that passes all of these checks.`;
+}
+
+// Generate a recommendation and run it through the guardrails, re-prompting once on violations.
+// Violations that remain after the re-prompt are returned so the report can flag them as rejected.
+export async function generateCheckedRecommendation(
+  env: Env,
+  logger: Logger,
+  systemPrompt: string,
+  userPrompt: string,
+  input: AnalysisInput,
+  complete: JsonCompletion = completeJSON
+): Promise<{ recommendation: TradeRecommendation; violations: GuardrailViolation[] }> {
+  const limits = guardrailLimits(env);
+
+  const first = await generateRecommendation(env, logger, systemPrompt, userPrompt, complete);
+  const firstViolations = checkRecommendation(first, input, limits);
+  if (firstViolations.length === 0) return { recommendation: first, violations: [] };
+
+  logger.warn("Recommendation failed guardrails, re-prompting", { symbol: input.symbol, violations: firstViolations });
+  const second = await generateRecommendation(
+    env,
+    logger,
+    systemPrompt,
+    buildGuardrailPrompt(userPrompt, first, firstViolations),
+    complete
+  );
+  const violations = checkRecommendation(second, input, limits);
+  if (violations.length) {
+    logger.warn("Recommendation still failing guardrails, flagging as rejected", { symbol: input.symbol, violations });
+  }
+  return { recommendation: second, violations };
+}
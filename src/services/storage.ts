@@ -0,0 +1,830 @@
+// =====================================
+// ===== SIGNAL HISTORY STORAGE (D1)
+// =====================================
+
+import {
+  Logger,
+  Env,
+  SentimentJSON,
+  CoinRunRecord,
+  TrackedSignal,
+  SignalOutcome,
+  RecommendationSlot,
+  LeveragedPosition,
+  SignalStatus,
+  RunSummary,
+  RunPromptVersions,
+  RunJob,
+  RunJobStatus,
+  PriceAlert,
+  AlertCondition,
+  AlertEvaluation,
+  LLMCall,
+  LLMUsageTotals,
+  CoinReport,
+  TimeframeCandles,
+  NewsArticle,
+  StoredArticle,
+  RunCoinResult,
+  ErrorLogEntry,
+  ApiAuditEntry,
+} from '../types';
+import { extractSignals } from '../utils/outcomes';
+import { buildSymbolList } from '../utils/helpers';
+
+// Row shape of the signals table
+interface SignalRow {
+  id: string;
+  run_id: string;
+  symbol: string;
+  slot: string;
+  direction: string;
+  entry: number;
+  stop_loss: number;
+  take_profit: number;
+  leverage: number | null;
+  rejected: number;
+  created_at: number;
+  status: string;
+  filled_at: number | null;
+  closed_at: number | null;
+}
+
+function toSignal(row: SignalRow): TrackedSignal {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    symbol: row.symbol,
+    slot: row.slot as RecommendationSlot,
+    direction: row.direction as LeveragedPosition,
+    entry: row.entry,
+    stopLoss: row.stop_loss,
+    takeProfit: row.take_profit,
+    leverage: row.leverage,
+    rejected: row.rejected === 1,
+    createdAt: row.created_at,
+    status: row.status as SignalStatus,
+    filledAt: row.filled_at,
+    closedAt: row.closed_at,
+  };
+}
+
+// Row shape of the runs table
+interface RunRow {
+  id: string;
+  started_at: number;
+  finished_at: number | null;
+  status: string;
+  sentiment_json: string | null;
+  successful_coins: string | null;
+  failed_coins: string | null;
+  error: string | null;
+  prompt_versions: string | null;
+  news_error: string | null;
+}
+
+function splitCsv(value: string | null): string[] {
+  return (value || "").split(",").filter(Boolean);
+}
+
+function toRunSummary(row: RunRow): RunSummary {
+  return {
+    id: row.id,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    status: row.status as RunSummary["status"],
+    sentiment: row.sentiment_json ? JSON.parse(row.sentiment_json) : null,
+    successfulCoins: splitCsv(row.successful_coins),
+    failedCoins: splitCsv(row.failed_coins),
+    error: row.error,
+    promptVersions: row.prompt_versions ? JSON.parse(row.prompt_versions) : null,
+    newsError: row.news_error,
+  };
+}
+
+// Row shape of the alerts table
+interface AlertRow {
+  id: string;
+  symbol: string;
+  condition_json: string;
+  mode: string;
+  cooldown_ms: number;
+  note: string | null;
+  active: number;
+  armed: number;
+  created_at: number;
+  last_value: number | null;
+  last_triggered_at: number | null;
+}
+
+function toAlert(row: AlertRow): PriceAlert {
+  return {
+    id: row.id,
+    symbol: row.symbol,
+    condition: JSON.parse(row.condition_json) as AlertCondition,
+    mode: row.mode as PriceAlert["mode"],
+    cooldownMs: row.cooldown_ms,
+    note: row.note,
+    active: row.active === 1,
+    armed: row.armed === 1,
+    createdAt: row.created_at,
+    lastValue: row.last_value,
+    lastTriggeredAt: row.last_triggered_at,
+  };
+}
+
+// Aggregate columns over llm_calls
+const USAGE_COLUMNS = `COUNT(*) AS calls, SUM(1 - ok) AS failed_calls, SUM(prompt_tokens) AS prompt_tokens,
+  SUM(output_tokens) AS output_tokens, SUM(total_tokens) AS total_tokens, SUM(latency_ms) AS latency_ms,
+  SUM(cost_usd) AS cost_usd`;
+
+interface UsageRow {
+  calls: number;
+  failed_calls: number | null;
+  prompt_tokens: number | null;
+  output_tokens: number | null;
+  total_tokens: number | null;
+  latency_ms: number | null;
+  cost_usd: number | null;
+}
+
+function toUsageTotals(row: UsageRow | null): LLMUsageTotals {
+  return {
+    calls: row?.calls ?? 0,
+    failedCalls: row?.failed_calls ?? 0,
+    promptTokens: row?.prompt_tokens ?? 0,
+    outputTokens: row?.output_tokens ?? 0,
+    totalTokens: row?.total_tokens ?? 0,
+    latencyMs: row?.latency_ms ?? 0,
+    costUsd: row?.cost_usd ?? 0,
+  };
+}
+
+// Keep only what the dashboard shows of an article
+function storedArticles(articles: NewsArticle[]): StoredArticle[] {
+  return articles.map(a => ({
+    title: a.title,
+    url: a.url,
+    source: a.source,
+    origin: a.origin,
+    published_at: a.published_at,
+    relevance: a.relevance,
+  }));
+}
+
+// Persistence is optional: without a DB binding every write is a no-op
+export function isStorageEnabled(env: Env): env is Env & { DB: D1Database } {
+  return !!env.DB;
+}
+
+// Record the start of a run. Write failures are logged and never abort the analysis.
+export async function startRun(env: Env, logger: Logger, runId: string, startedAt: number): Promise<void> {
+  if (!isStorageEnabled(env)) return;
+  try {
+    await env.DB.prepare(
+      "INSERT INTO runs (id, started_at, status) VALUES (?, ?, 'running')"
+    ).bind(runId, startedAt).run();
+  } catch (error) {
+    logger.warn("Failed to persist run start", { runId, error: String(error) });
+  }
+}
+
+// Persist one coin's inputs, recommendation and the tradeable signals derived from it
+export async function saveCoinResult(
+  env: Env,
+  logger: Logger,
+  record: CoinRunRecord,
+  sentiment: SentimentJSON
+): Promise<void> {
+  if (!isStorageEnabled(env)) return;
+  const createdAt = Date.now();
+  try {
+    const statements: D1PreparedStatement[] = [
+      env.DB.prepare(
+        `INSERT OR REPLACE INTO run_coins
+          (run_id, symbol, created_at, recommendation_json, violations_json, candles_json, indicators_json, sentiment_json, prompt_versions,
+           articles_json, error)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).bind(
+        record.runId,
+        record.symbol,
+        createdAt,
+        record.recommendation ? JSON.stringify(record.recommendation) : null,
+        record.violations ? JSON.stringify(record.violations) : null,
+        record.input ? JSON.stringify(record.input.allCandles) : null,
+        record.input ? JSON.stringify(record.input.indicators) : null,
+        JSON.stringify(sentiment),
+        record.prompts ? JSON.stringify(record.prompts) : null,
+        record.articles ? JSON.stringify(storedArticles(record.articles)) : null,
+        record.error ?? null
+      ),
+    ];
+
+    if (record.recommendation) {
+      const rejected = new Set((record.violations || []).map(v => v.slot));
+      for (const signal of extractSignals(record.recommendation, rejected)) {
+        statements.push(env.DB.prepare(
+          `INSERT INTO signals
+            (id, run_id, symbol, slot, direction, entry, stop_loss, take_profit, leverage, rejected, created_at, status)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')
+           ON CONFLICT (run_id, symbol, slot) DO NOTHING`
+        ).bind(
+          crypto.randomUUID(),
+          record.runId,
+          record.symbol,
+          signal.slot,
+          signal.direction,
+          signal.entry,
+          signal.stopLoss,
+          signal.takeProfit,
+          signal.leverage,
+          signal.rejected ? 1 : 0,
+          createdAt
+        ));
+      }
+    }
+
+    await env.DB.batch(statements);
+  } catch (error) {
+    logger.warn("Failed to persist coin result", { runId: record.runId, symbol: record.symbol, error: String(error) });
+  }
+}
+
+// Market news the run's global sentiment was scored from, or why there was none
+export async function saveRunArticles(
+  env: Env,
+  logger: Logger,
+  runId: string,
+  articles: NewsArticle[],
+  newsError: string | null = null
+): Promise<void> {
+  if (!isStorageEnabled(env)) return;
+  try {
+    await env.DB.prepare("UPDATE runs SET articles_json = ?, news_error = ? WHERE id = ?")
+      .bind(JSON.stringify(storedArticles(articles)), newsError, runId).run();
+  } catch (error) {
+    logger.warn("Failed to persist run articles", { runId, error: String(error) });
+  }
+}
+
+// Record the end of a run
+export async function finishRun(
+  env: Env,
+  logger: Logger,
+  runId: string,
+  result: {
+    status: "ok" | "partial" | "failed";
+    sentiment?: SentimentJSON;
+    successfulCoins: string[];
+    failedCoins: string[];
+    error?: string;
+    promptVersions?: RunPromptVersions;
+  }
+): Promise<void> {
+  if (!isStorageEnabled(env)) return;
+  try {
+    await env.DB.prepare(
+      `UPDATE runs
+         SET finished_at = ?, status = ?, sentiment_json = ?, successful_coins = ?, failed_coins = ?, error = ?,
+             prompt_versions = ?
+       WHERE id = ?`
+    ).bind(
+      Date.now(),
+      result.status,
+      result.sentiment ? JSON.stringify(result.sentiment) : null,
+      result.successfulCoins.join(","),
+      result.failedCoins.join(","),
+      result.error ?? null,
+      result.promptVersions ? JSON.stringify(result.promptVersions) : null,
+      runId
+    ).run();
+  } catch (error) {
+    logger.warn("Failed to persist run result", { runId, error: String(error) });
+  }
+}
+
+// Queue fan-out: store the run's market sentiment and one queued job per coin before the messages go out
+export async function queueRunJobs(
+  env: Env & { DB: D1Database },
+  runId: string,
+  coins: string[],
+  sentiment: SentimentJSON,
+  promptVersions: RunPromptVersions
+): Promise<void> {
+  const now = Date.now();
+  await env.DB.batch([
+    env.DB.prepare(
+      "UPDATE runs SET status = 'queued', sentiment_json = ?, prompt_versions = ? WHERE id = ?"
+    ).bind(JSON.stringify(sentiment), JSON.stringify(promptVersions), runId),
+    ...coins.map((coin, idx) => env.DB.prepare(
+      "INSERT OR REPLACE INTO run_jobs (run_id, coin, position, status, updated_at) VALUES (?, ?, ?, 'queued', ?)"
+    ).bind(runId, coin, idx, now)),
+  ]);
+}
+
+// One coin job (null when the run is unknown, e.g. it was not queued)
+export async function getRunJob(env: Env & { DB: D1Database }, runId: string, coin: string): Promise<RunJob | null> {
+  return await env.DB.prepare(
+    "SELECT coin, status, error FROM run_jobs WHERE run_id = ? AND coin = ?"
+  ).bind(runId, coin).first<RunJob>();
+}
+
+// Remember why an attempt failed; the job stays queued until a retry succeeds or the message is dead-lettered
+export async function noteRunJobError(env: Env & { DB: D1Database }, runId: string, coin: string, error: string): Promise<void> {
+  await env.DB.prepare(
+    "UPDATE run_jobs SET error = ?, updated_at = ? WHERE run_id = ? AND coin = ? AND status = 'queued'"
+  ).bind(error, Date.now(), runId, coin).run();
+}
+
+// Whether a coin of the run already has a stored recommendation (it was analyzed and reported)
+export async function hasCoinResult(env: Env & { DB: D1Database }, runId: string, symbol: string): Promise<boolean> {
+  const row = await env.DB.prepare(
+    "SELECT 1 AS found FROM run_coins WHERE run_id = ? AND symbol = ? AND recommendation_json IS NOT NULL"
+  ).bind(runId, symbol).first<{ found: number }>();
+  return !!row;
+}
+
+// Settle a queued job; redelivered messages can't change a job that is already settled
+export async function settleRunJob(
+  env: Env & { DB: D1Database },
+  runId: string,
+  coin: string,
+  status: Exclude<RunJobStatus, "queued">,
+  error: string | null = null
+): Promise<void> {
+  await env.DB.prepare(
+    "UPDATE run_jobs SET status = ?, error = ?, updated_at = ? WHERE run_id = ? AND coin = ? AND status = 'queued'"
+  ).bind(status, error, Date.now(), runId, coin).run();
+}
+
+// Once no job is queued, exactly one caller wins the run (by setting finished_at) and gets its jobs in watchlist order
+export async function claimSettledRun(
+  env: Env & { DB: D1Database },
+  runId: string
+): Promise<{ run: RunSummary; jobs: RunJob[] } | null> {
+  const pending = await env.DB.prepare(
+    "SELECT COUNT(*) AS n FROM run_jobs WHERE run_id = ? AND status = 'queued'"
+  ).bind(runId).first<{ n: number }>();
+  if (!pending || pending.n > 0) return null;
+
+  const claim = await env.DB.prepare(
+    "UPDATE runs SET finished_at = ? WHERE id = ? AND status = 'queued' AND finished_at IS NULL"
+  ).bind(Date.now(), runId).run();
+  if (!claim.meta.changes) return null;
+
+  const [run, jobs] = await Promise.all([
+    env.DB.prepare("SELECT * FROM runs WHERE id = ?").bind(runId).first<RunRow>(),
+    env.DB.prepare(
+      "SELECT coin, status, error FROM run_jobs WHERE run_id = ? ORDER BY position"
+    ).bind(runId).all<RunJob>(),
+  ]);
+  return run ? { run: toRunSummary(run), jobs: jobs.results || [] } : null;
+}
+
+// Signals whose outcome is still undecided
+export async function listOpenSignals(env: Env & { DB: D1Database }, limit = 200): Promise<TrackedSignal[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT * FROM signals WHERE status IN ('pending', 'open') ORDER BY created_at ASC LIMIT ?`
+  ).bind(limit).all<SignalRow>();
+  return (results || []).map(toSignal);
+}
+
+// Store the latest evaluation of a signal
+export async function updateSignalOutcome(
+  env: Env & { DB: D1Database },
+  id: string,
+  outcome: SignalOutcome
+): Promise<void> {
+  await env.DB.prepare(
+    `UPDATE signals SET status = ?, filled_at = ?, closed_at = ?, checked_at = ? WHERE id = ?`
+  ).bind(outcome.status, outcome.filledAt, outcome.closedAt, Date.now(), id).run();
+}
+
+// Most recent run (optionally only runs that produced a sentiment)
+export async function getLatestRun(env: Env, withSentiment = false): Promise<RunSummary | null> {
+  if (!isStorageEnabled(env)) return null;
+  const row = await env.DB.prepare(
+    `SELECT * FROM runs ${withSentiment ? "WHERE sentiment_json IS NOT NULL" : ""} ORDER BY started_at DESC LIMIT 1`
+  ).first<RunRow>();
+  return row ? toRunSummary(row) : null;
+}
+
+// Most recent per-coin sentiment, e.g. for BTCUSDT
+export async function getLatestCoinSentiment(
+  env: Env,
+  symbol: string
+): Promise<{ sentiment: SentimentJSON; createdAt: number } | null> {
+  if (!isStorageEnabled(env)) return null;
+  const row = await env.DB.prepare(
+    `SELECT sentiment_json, created_at FROM run_coins
+      WHERE symbol = ? AND sentiment_json IS NOT NULL ORDER BY created_at DESC LIMIT 1`
+  ).bind(symbol).first<{ sentiment_json: string; created_at: number }>();
+  return row ? { sentiment: JSON.parse(row.sentiment_json), createdAt: row.created_at } : null;
+}
+
+// Row shape of the run_coins columns behind a coin report
+interface CoinReportRow {
+  symbol: string;
+  recommendation_json: string;
+  violations_json: string | null;
+  sentiment_json: string;
+  created_at: number;
+}
+
+function toCoinReport(row: CoinReportRow): CoinReport {
+  return {
+    symbol: row.symbol,
+    recommendation: JSON.parse(row.recommendation_json),
+    violations: row.violations_json ? JSON.parse(row.violations_json) : [],
+    sentiment: JSON.parse(row.sentiment_json),
+  };
+}
+
+// Recommendations of a run, for the digest
+export async function getRunCoinReports(env: Env & { DB: D1Database }, runId: string): Promise<CoinReport[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT symbol, recommendation_json, violations_json, sentiment_json, created_at FROM run_coins
+      WHERE run_id = ? AND recommendation_json IS NOT NULL ORDER BY symbol`
+  ).bind(runId).all<CoinReportRow>();
+  return results.map(toCoinReport);
+}
+
+// One coin of a run with its candles, for details requested from the digest
+export async function getRunCoinDetail(
+  env: Env & { DB: D1Database },
+  runId: string,
+  symbol: string
+): Promise<{ report: CoinReport; allCandles: TimeframeCandles[]; createdAt: number } | null> {
+  const row = await env.DB.prepare(
+    `SELECT symbol, recommendation_json, violations_json, sentiment_json, created_at, candles_json FROM run_coins
+      WHERE run_id = ? AND symbol = ? AND recommendation_json IS NOT NULL`
+  ).bind(runId, symbol).first<CoinReportRow & { candles_json: string | null }>();
+  if (!row) return null;
+  return {
+    report: toCoinReport(row),
+    allCandles: row.candles_json ? JSON.parse(row.candles_json) : [],
+    createdAt: row.created_at,
+  };
+}
+
+// Coins to analyze: the stored watchlist when it has entries, otherwise SYMBOLS / the defaults
+export async function loadWatchlist(env: Env, logger: Logger): Promise<string[]> {
+  if (!isStorageEnabled(env)) return buildSymbolList(env);
+  try {
+    const { results } = await env.DB.prepare(
+      "SELECT symbol FROM watchlist ORDER BY added_at ASC, symbol ASC"
+    ).all<{ symbol: string }>();
+    const symbols = (results || []).map(r => r.symbol);
+    return symbols.length ? symbols : buildSymbolList(env);
+  } catch (error) {
+    logger.warn("Failed to load watchlist, using configured symbols", { error: String(error) });
+    return buildSymbolList(env);
+  }
+}
+
+// Replace the stored watchlist
+export async function saveWatchlist(env: Env & { DB: D1Database }, symbols: string[]): Promise<void> {
+  const now = Date.now();
+  await env.DB.batch([
+    env.DB.prepare("DELETE FROM watchlist"),
+    ...symbols.map((symbol, idx) =>
+      env.DB.prepare("INSERT INTO watchlist (symbol, added_at) VALUES (?, ?)").bind(symbol, now + idx)
+    ),
+  ]);
+}
+
+// All alerts, newest first (optionally only active ones)
+export async function listAlerts(env: Env & { DB: D1Database }, activeOnly = false): Promise<PriceAlert[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT * FROM alerts ${activeOnly ? "WHERE active = 1" : ""} ORDER BY created_at DESC`
+  ).all<AlertRow>();
+  return (results || []).map(toAlert);
+}
+
+export async function insertAlert(env: Env & { DB: D1Database }, alert: PriceAlert): Promise<void> {
+  await env.DB.prepare(
+    `INSERT INTO alerts (id, symbol, condition_json, mode, cooldown_ms, note, active, armed, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(
+    alert.id,
+    alert.symbol,
+    JSON.stringify(alert.condition),
+    alert.mode,
+    alert.cooldownMs,
+    alert.note,
+    alert.active ? 1 : 0,
+    alert.armed ? 1 : 0,
+    alert.createdAt
+  ).run();
+}
+
+// Returns false when no alert with that id exists
+export async function deleteAlert(env: Env & { DB: D1Database }, id: string): Promise<boolean> {
+  const result = await env.DB.prepare("DELETE FROM alerts WHERE id = ?").bind(id).run();
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+// Store the state after a check
+export async function updateAlertState(
+  env: Env & { DB: D1Database },
+  id: string,
+  evaluation: AlertEvaluation,
+  checkedAt: number
+): Promise<void> {
+  await env.DB.prepare(
+    `UPDATE alerts
+        SET last_value = ?, last_checked_at = ?, active = ?, armed = ?,
+            last_triggered_at = CASE WHEN ? THEN ? ELSE last_triggered_at END
+      WHERE id = ?`
+  ).bind(
+    evaluation.value,
+    checkedAt,
+    evaluation.active ? 1 : 0,
+    evaluation.armed ? 1 : 0,
+    evaluation.triggered ? 1 : 0,
+    checkedAt,
+    id
+  ).run();
+}
+
+// Record LLM calls (runId/symbol are null for on-demand analyses and the market sentiment)
+export async function saveLlmCalls(
+  env: Env,
+  logger: Logger,
+  runId: string | null,
+  symbol: string | null,
+  calls: LLMCall[]
+): Promise<void> {
+  if (!isStorageEnabled(env) || !calls.length) return;
+  try {
+    await env.DB.batch(calls.map(c => env.DB.prepare(
+      `INSERT INTO llm_calls
+        (run_id, symbol, step, provider, model, prompt_tokens, output_tokens, total_tokens, latency_ms,
+         finish_reason, cost_usd, ok, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      runId,
+      symbol,
+      c.step,
+      c.provider,
+      c.model,
+      c.promptTokens,
+      c.outputTokens,
+      c.totalTokens,
+      c.latencyMs,
+      c.finishReason,
+      c.costUsd,
+      c.ok ? 1 : 0,
+      c.createdAt
+    )));
+  } catch (error) {
+    logger.warn("Failed to persist LLM usage", { runId, symbol, calls: calls.length, error: String(error) });
+  }
+}
+
+// Estimated LLM spend since a point in time (0 without a DB)
+export async function getLlmCostSince(env: Env, since: number): Promise<number> {
+  if (!isStorageEnabled(env)) return 0;
+  const row = await env.DB.prepare(
+    "SELECT SUM(cost_usd) AS cost_usd FROM llm_calls WHERE created_at >= ?"
+  ).bind(since).first<{ cost_usd: number | null }>();
+  return row?.cost_usd ?? 0;
+}
+
+// Usage since a point in time: totals, per UTC day, per step/provider/model and per recent run
+export async function getLlmUsageSince(env: Env & { DB: D1Database }, since: number, runLimit = 20) {
+  const [totals, days, models, runs] = await Promise.all([
+    env.DB.prepare(`SELECT ${USAGE_COLUMNS} FROM llm_calls WHERE created_at >= ?`).bind(since).first<UsageRow>(),
+    env.DB.prepare(
+      `SELECT date(created_at / 1000, 'unixepoch') AS day, ${USAGE_COLUMNS}
+         FROM llm_calls WHERE created_at >= ? GROUP BY day ORDER BY day DESC`
+    ).bind(since).all<UsageRow & { day: string }>(),
+    env.DB.prepare(
+      `SELECT step, provider, model, ${USAGE_COLUMNS}
+         FROM llm_calls WHERE created_at >= ? GROUP BY step, provider, model ORDER BY cost_usd DESC`
+    ).bind(since).all<UsageRow & { step: string; provider: string; model: string }>(),
+    env.DB.prepare(
+      `SELECT run_id, MIN(created_at) AS started_at, ${USAGE_COLUMNS}
+         FROM llm_calls WHERE created_at >= ? AND run_id IS NOT NULL
+        GROUP BY run_id ORDER BY started_at DESC LIMIT ?`
+    ).bind(since, runLimit).all<UsageRow & { run_id: string; started_at: number }>(),
+  ]);
+
+  return {
+    totals: toUsageTotals(totals),
+    byDay: (days.results || []).map(r => ({ day: r.day, ...toUsageTotals(r) })),
+    byModel: (models.results || []).map(r => ({ step: r.step, provider: r.provider, model: r.model, ...toUsageTotals(r) })),
+    runs: (runs.results || []).map(r => ({ runId: r.run_id, startedAt: r.started_at, ...toUsageTotals(r) })),
+  };
+}
+
+// Usage of one run, per coin (the market sentiment is listed under symbol null)
+export async function getRunLlmUsage(env: Env & { DB: D1Database }, runId: string) {
+  const [totals, coins] = await Promise.all([
+    env.DB.prepare(`SELECT ${USAGE_COLUMNS} FROM llm_calls WHERE run_id = ?`).bind(runId).first<UsageRow>(),
+    env.DB.prepare(
+      `SELECT symbol, ${USAGE_COLUMNS} FROM llm_calls WHERE run_id = ? GROUP BY symbol ORDER BY symbol`
+    ).bind(runId).all<UsageRow & { symbol: string | null }>(),
+  ]);
+  return {
+    runId,
+    totals: toUsageTotals(totals),
+    perCoin: (coins.results || []).map(r => ({ symbol: r.symbol, ...toUsageTotals(r) })),
+  };
+}
+
+// Append a reported error to the error log
+export async function saveErrorLog(
+  env: Env,
+  logger: Logger,
+  entry: { errorType: string; failureClass: string | null; message: string; details?: unknown }
+): Promise<void> {
+  if (!isStorageEnabled(env)) return;
+  try {
+    await env.DB.prepare(
+      "INSERT INTO error_log (created_at, error_type, failure_class, message, details_json) VALUES (?, ?, ?, ?, ?)"
+    ).bind(
+      Date.now(),
+      entry.errorType,
+      entry.failureClass,
+      entry.message,
+      entry.details === undefined ? null : JSON.stringify(entry.details)
+    ).run();
+  } catch (error) {
+    logger.warn("Failed to persist error log entry", { errorType: entry.errorType, error: String(error) });
+  }
+}
+
+export async function listErrorLog(env: Env & { DB: D1Database }, limit = 50): Promise<ErrorLogEntry[]> {
+  const { results } = await env.DB.prepare(
+    "SELECT * FROM error_log ORDER BY created_at DESC LIMIT ?"
+  ).bind(limit).all<{
+    id: number;
+    created_at: number;
+    error_type: string;
+    failure_class: string | null;
+    message: string;
+    details_json: string | null;
+  }>();
+  return results.map(row => ({
+    id: row.id,
+    createdAt: row.created_at,
+    errorType: row.error_type,
+    failureClass: row.failure_class,
+    message: row.message,
+    details: row.details_json ? JSON.parse(row.details_json) : null,
+  }));
+}
+
+// Most recent runs, newest first
+export async function listRuns(env: Env & { DB: D1Database }, limit = 30): Promise<RunSummary[]> {
+  const { results } = await env.DB.prepare(
+    "SELECT * FROM runs ORDER BY started_at DESC LIMIT ?"
+  ).bind(limit).all<RunRow>();
+  return results.map(toRunSummary);
+}
+
+// Row shape of a run_coins result as shown on the dashboard
+interface RunCoinRow {
+  run_id: string;
+  symbol: string;
+  created_at: number;
+  recommendation_json: string | null;
+  violations_json: string | null;
+  sentiment_json: string | null;
+  articles_json: string | null;
+  error: string | null;
+}
+
+const RUN_COIN_COLUMNS = `run_id, symbol, created_at, recommendation_json, violations_json, sentiment_json, articles_json, error`;
+
+function toRunCoinResult(row: RunCoinRow): RunCoinResult {
+  return {
+    runId: row.run_id,
+    symbol: row.symbol,
+    createdAt: row.created_at,
+    report: row.recommendation_json && row.sentiment_json
+      ? toCoinReport({ ...row, recommendation_json: row.recommendation_json, sentiment_json: row.sentiment_json })
+      : null,
+    error: row.error,
+    articles: row.articles_json ? JSON.parse(row.articles_json) : [],
+  };
+}
+
+// Latest successful result of every coin ever analyzed
+export async function getLatestCoinResults(env: Env & { DB: D1Database }): Promise<RunCoinResult[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT ${RUN_COIN_COLUMNS} FROM run_coins rc
+      WHERE recommendation_json IS NOT NULL
+        AND created_at = (SELECT MAX(created_at) FROM run_coins
+                           WHERE symbol = rc.symbol AND recommendation_json IS NOT NULL)
+      ORDER BY symbol`
+  ).all<RunCoinRow>();
+  return results.map(toRunCoinResult);
+}
+
+// One run with its market news and every coin result
+export async function getRunDetail(
+  env: Env & { DB: D1Database },
+  runId: string
+): Promise<{ run: RunSummary; articles: StoredArticle[]; coins: RunCoinResult[] } | null> {
+  const row = await env.DB.prepare("SELECT * FROM runs WHERE id = ?").bind(runId)
+    .first<RunRow & { articles_json: string | null }>();
+  if (!row) return null;
+  const { results } = await env.DB.prepare(
+    `SELECT ${RUN_COIN_COLUMNS} FROM run_coins WHERE run_id = ? ORDER BY symbol`
+  ).bind(runId).all<RunCoinRow>();
+  return {
+    run: toRunSummary(row),
+    articles: row.articles_json ? JSON.parse(row.articles_json) : [],
+    coins: results.map(toRunCoinResult),
+  };
+}
+
+// Past results of one coin, newest first
+export async function getCoinHistory(env: Env & { DB: D1Database }, symbol: string, limit = 60): Promise<RunCoinResult[]> {
+  const { results } = await env.DB.prepare(
+    `SELECT ${RUN_COIN_COLUMNS} FROM run_coins WHERE symbol = ? ORDER BY created_at DESC LIMIT ?`
+  ).bind(symbol, limit).all<RunCoinRow>();
+  return results.map(toRunCoinResult);
+}
+
+// Count a request against a fixed-window bucket and return the requests seen in the current window
+export async function hitRateLimit(env: Env & { DB: D1Database }, bucket: string, windowStart: number): Promise<number> {
+  const row = await env.DB.prepare(
+    `INSERT INTO rate_limits (bucket, window_start, count) VALUES (?, ?, 1)
+     ON CONFLICT (bucket) DO UPDATE SET
+       count = CASE WHEN window_start = excluded.window_start THEN count + 1 ELSE 1 END,
+       window_start = excluded.window_start
+     RETURNING count`
+  ).bind(bucket, windowStart).first<{ count: number }>();
+  return row?.count ?? 1;
+}
+
+// Drop counters of windows that ended before `before`
+export async function pruneRateLimits(env: Env, logger: Logger, before: number): Promise<void> {
+  if (!isStorageEnabled(env)) return;
+  try {
+    await env.DB.prepare("DELETE FROM rate_limits WHERE window_start < ?").bind(before).run();
+  } catch (error) {
+    logger.warn("Failed to prune rate limit counters", { error: String(error) });
+  }
+}
+
+// Record a served request signature until it expires; false when it was recorded before (a replay)
+export async function claimApiSignature(
+  env: Env & { DB: D1Database },
+  keyId: string,
+  signature: string,
+  expiresAt: number
+): Promise<boolean> {
+  const result = await env.DB.prepare(
+    "INSERT INTO api_signatures (key_id, signature, expires_at) VALUES (?, ?, ?) ON CONFLICT (key_id, signature) DO NOTHING"
+  ).bind(keyId, signature, expiresAt).run();
+  return result.meta.changes > 0;
+}
+
+// Drop signatures whose timestamps can no longer be accepted
+export async function pruneApiSignatures(env: Env, logger: Logger, before: number): Promise<void> {
+  if (!isStorageEnabled(env)) return;
+  try {
+    await env.DB.prepare("DELETE FROM api_signatures WHERE expires_at < ?").bind(before).run();
+  } catch (error) {
+    logger.warn("Failed to prune API signatures", { error: String(error) });
+  }
+}
+
+// Drop audit log entries created before `before`
+export async function pruneApiAudit(env: Env, logger: Logger, before: number): Promise<void> {
+  if (!isStorageEnabled(env)) return;
+  try {
+    await env.DB.prepare("DELETE FROM api_audit_log WHERE created_at < ?").bind(before).run();
+  } catch (error) {
+    logger.warn("Failed to prune the API audit log", { error: String(error) });
+  }
+}
+
+// Append one request to a protected endpoint to the API audit log
+export async function saveApiAudit(env: Env, logger: Logger, entry: ApiAuditEntry): Promise<void> {
+  if (!isStorageEnabled(env)) return;
+  try {
+    await env.DB.prepare(
+      `INSERT INTO api_audit_log
+        (created_at, key_id, auth_method, scope, http_method, path, ip, status, outcome, reason)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      Date.now(),
+      entry.keyId,
+      entry.method,
+      entry.scope,
+      entry.httpMethod,
+      entry.path,
+      entry.ip,
+      entry.status,
+      entry.outcome,
+      entry.reason
+    ).run();
+  } catch (error) {
+    logger.warn("Failed to persist API audit entry", { keyId: entry.keyId, path: entry.path, error: String(error) });
+  }
+}
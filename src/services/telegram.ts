@@ -2,15 +2,55 @@
 // ===== TELEGRAM BOT SERVICE
 // =====================================
 
-import { Logger, Env } from '../types';
-import { TELEGRAM_PARSE_MODE, TELEGRAM_MAX_MESSAGE } from '../config/constants';
-import { fetchWithRetryEnhanced, sleep } from '../utils/http';
-import { chunkForTelegram } from '../utils/helpers';
+import { Logger, Env, ChartImage, TelegramInlineButton } from '../types';
+import {
+  TELEGRAM_PARSE_MODE,
+  TELEGRAM_MAX_MESSAGE,
+  TELEGRAM_MAX_CAPTION,
+  TELEGRAM_MAX_MEDIA_GROUP,
+} from '../config/constants';
+import { fetchWithRetryEnhanced, upstreamLimiter, HttpError } from '../utils/http';
+import { chunkTelegramHtml, telegramHtmlToText } from '../utils/telegram-html';
+import { truncate } from '../utils/helpers';
 
-// Send message to Telegram
-export async function sendTelegram(env: Env, logger: Logger, html: string): Promise<void> {
+async function postMessage(
+  env: Env,
+  logger: Logger,
+  chatId: string,
+  text: string,
+  html: boolean,
+  buttons?: TelegramInlineButton[][]
+): Promise<Response> {
+  const body = new URLSearchParams({
+    chat_id: chatId,
+    text,
+    disable_web_page_preview: "true",
+  });
+  if (html) body.set("parse_mode", TELEGRAM_PARSE_MODE);
+  if (buttons?.length) body.set("reply_markup", JSON.stringify({ inline_keyboard: buttons }));
+
+  await upstreamLimiter("telegram").waitForSlot();
+  return fetchWithRetryEnhanced(
+    env,
+    `https://api.telegram.org/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage`,
+    { method: "POST", body },
+    logger,
+    3,
+    700
+  );
+}
+
+// Send message to Telegram (defaults to the configured report chat). The HTML is reduced to the tags
+// Telegram supports and split without cutting tags; a chunk Telegram still rejects is resent as plain text.
+// Inline buttons go under the last chunk.
+export async function sendTelegram(
+  env: Env,
+  logger: Logger,
+  html: string,
+  chatId: string = env.TELEGRAM_CHAT_ID,
+  buttons?: TelegramInlineButton[][]
+): Promise<void> {
   const token = env.TELEGRAM_BOT_TOKEN;
-  const chatId = env.TELEGRAM_CHAT_ID;
 
   logger.info("Sending Telegram message", { 
     tokenLength: token.length, 
@@ -18,24 +58,18 @@ export async function sendTelegram(env: Env, logger: Logger, html: string): Prom
     messageLength: html.length 
   });
 
-  const chunks = chunkForTelegram(html, TELEGRAM_MAX_MESSAGE);
+  const chunks = chunkTelegramHtml(html, TELEGRAM_MAX_MESSAGE);
   for (const [idx, part] of chunks.entries()) {
-    const url = `https://api.telegram.org/bot${token}/sendMessage`;
-    const body = new URLSearchParams({
-      chat_id: chatId,
-      text: part,
-      parse_mode: TELEGRAM_PARSE_MODE,
-      disable_web_page_preview: "true",
-    });
-    
     try {
-      const response = await fetchWithRetryEnhanced(
-        url, 
-        { method: "POST", body }, 
-        logger, 
-        3, 
-        700
-      );
+      const markup = idx === chunks.length - 1 ? buttons : undefined;
+      let response: Response;
+      try {
+        response = await postMessage(env, logger, chatId, part, true, markup);
+      } catch (error) {
+        if (!(error instanceof HttpError) || error.status !== 400) throw error;
+        logger.warn("Telegram rejected the HTML, sending plain text", { part: idx + 1, error: String(error) });
+        response = await postMessage(env, logger, chatId, telegramHtmlToText(part), false, markup);
+      }
       const responseText = await response.text();
       logger.info("Telegram message sent successfully", { 
         part: idx + 1, 
@@ -51,7 +85,60 @@ export async function sendTelegram(env: Env, logger: Logger, html: string): Prom
       });
       throw error; // Re-throw to stop processing
     }
-    
-    await sleep(250); // be polite
   }
 }
+
+// Send chart images: a single photo, or albums of up to TELEGRAM_MAX_MEDIA_GROUP (captions are plain text)
+export async function sendTelegramImages(
+  env: Env,
+  logger: Logger,
+  images: ChartImage[],
+  chatId: string = env.TELEGRAM_CHAT_ID
+): Promise<void> {
+  for (let i = 0; i < images.length; i += TELEGRAM_MAX_MEDIA_GROUP) {
+    const group = images.slice(i, i + TELEGRAM_MAX_MEDIA_GROUP);
+    const form = new FormData();
+    form.set("chat_id", chatId);
+
+    let method: string;
+    if (group.length === 1) {
+      method = "sendPhoto";
+      form.set("photo", new Blob([group[0].png], { type: "image/png" }), group[0].filename);
+      form.set("caption", truncate(group[0].caption, TELEGRAM_MAX_CAPTION));
+    } else {
+      method = "sendMediaGroup";
+      form.set("media", JSON.stringify(group.map((image, idx) => ({
+        type: "photo",
+        media: `attach://photo${idx}`,
+        caption: truncate(image.caption, TELEGRAM_MAX_CAPTION),
+      }))));
+      group.forEach((image, idx) => form.set(`photo${idx}`, new Blob([image.png], { type: "image/png" }), image.filename));
+    }
+
+    await upstreamLimiter("telegram").waitForSlot();
+    await fetchWithRetryEnhanced(
+      env,
+      `https://api.telegram.org/bot${env.TELEGRAM_BOT_TOKEN}/${method}`,
+      { method: "POST", body: form },
+      logger,
+      3,
+      700
+    );
+    logger.info("Telegram images sent", { method, chatId, images: group.map(image => image.filename) });
+  }
+}
+
+// Acknowledge an inline button press so the client stops its loading indicator
+export async function answerCallbackQuery(env: Env, logger: Logger, callbackQueryId: string, text?: string): Promise<void> {
+  const body = new URLSearchParams({ callback_query_id: callbackQueryId });
+  if (text) body.set("text", text);
+  await upstreamLimiter("telegram").waitForSlot();
+  await fetchWithRetryEnhanced(
+    env,
+    `https://api.telegram.org/bot${env.TELEGRAM_BOT_TOKEN}/answerCallbackQuery`,
+    { method: "POST", body },
+    logger,
+    2,
+    500
+  );
+}
@@ -3,26 +3,104 @@
 // =====================================
 
 export interface Env {
+  // Bindings
+  DB?: D1Database;                   // Signal history store (optional)
+  PROMPTS?: KVNamespace;             // Prompt templates, keys prompt:<step>:<version> (optional)
+  HTTP_STATE?: KVNamespace;          // Circuit breaker state per host, keys breaker:<host> (optional)
+  ANALYSIS_QUEUE?: Queue<AnalysisQueueMessage>; // Per-coin fan-out and /analyze (optional, needs DB; in-process without it)
+
   // API keys & configuration
-  GEMINI_API_KEY: string;            // Google Gemini API key
+  GEMINI_API_KEY?: string;           // Google Gemini API key
   GEMINI_MODEL_SENTIMENT?: string;   // Defaults to gemini-2.5-flash
   GEMINI_MODEL_AGENT?: string;       // Defaults to gemini-2.5-flash
+  GEMINI_BASE_URL?: string;          // Defaults to https://generativelanguage.googleapis.com
+
+  // LLM providers: gemini, openai (any OpenAI-compatible server, e.g. Ollama or llama.cpp) or http
+  LLM_PROVIDER_SENTIMENT?: string;   // default gemini
+  LLM_PROVIDER_AGENT?: string;       // default gemini
+  LLM_MODEL_SENTIMENT?: string;      // default: the provider's default model
+  LLM_MODEL_AGENT?: string;
+  LLM_FALLBACK_PROVIDER?: string;    // tried when the step's provider fails
+  LLM_FALLBACK_MODEL?: string;
+  OPENAI_API_KEY?: string;           // not needed for local servers
+  OPENAI_BASE_URL?: string;          // default https://api.openai.com/v1 (e.g. http://localhost:11434/v1)
+  LLM_HTTP_URL?: string;             // generic JSON endpoint for the http provider
+  LLM_HTTP_API_KEY?: string;         // sent as a Bearer token
+
+  // Prompt templates: one version, or a CSV of versions to A/B test
+  PROMPT_VERSION_SENTIMENT?: string; // default v1
+  PROMPT_VERSION_AGENT?: string;     // default v1, e.g. "v1,v2"
+  PROMPT_AB_SPLIT?: string;          // coin (default) or run
 
-  THENEWSAPI_KEY: string;            // https://thenewsapi.com
+  // LLM usage accounting
+  LLM_PRICES?: string;               // JSON USD per 1M tokens, e.g. {"gpt-4o-mini":{"input":0.15,"output":0.6}}
+  LLM_DAILY_BUDGET_USD?: string;     // remaining coins are skipped once today's estimated spend exceeds it
+
+  THENEWSAPI_KEY?: string;           // https://thenewsapi.com (source skipped when unset)
   TELEGRAM_BOT_TOKEN: string;        // BotFather token
   TELEGRAM_CHAT_ID: string;          // Chat/channel to deliver reports to
+  TELEGRAM_WEBHOOK_SECRET?: string;  // secret_token registered with setWebhook (webhook disabled when unset)
+  TELEGRAM_ALLOWED_CHAT_IDS?: string; // CSV of chats allowed to send commands (default TELEGRAM_CHAT_ID)
+
+  // Notification routing: CSV of channels (telegram, discord, slack, email, webhook)
+  NOTIFY_REPORTS?: string;           // Recommendations and run summaries (default telegram)
+  NOTIFY_ERRORS?: string;            // Error alerts (default telegram)
+  NOTIFY_ALERTS?: string;            // Triggered price alerts (default telegram)
+  DISCORD_WEBHOOK_URL?: string;
+  SLACK_WEBHOOK_URL?: string;
+  EMAIL_PROVIDER?: string;           // mailchannels (default) or smtp
+  EMAIL_FROM?: string;
+  EMAIL_TO?: string;                 // CSV of recipients
+  MAILCHANNELS_API_KEY?: string;
+  SMTP_HOST?: string;
+  SMTP_PORT?: string;                // 465 = implicit TLS, anything else uses STARTTLS (default 587)
+  SMTP_USERNAME?: string;
+  SMTP_PASSWORD?: string;
+  NOTIFY_WEBHOOK_URL?: string;       // Generic JSON webhook
+  NOTIFY_WEBHOOK_SECRET?: string;    // HMAC-SHA256 signing key for the generic webhook
 
   // Behavior toggles
   MAX_ARTICLES?: string;             // default 25
   SYMBOLS?: string;                  // override default list CSV: BTC,ETH,SOL,...
+  NEWS_SOURCES?: string;             // CSV of enabled sources (default thenewsapi,rss,cryptopanic,reddit)
+  NEWS_SOURCE_WEIGHTS?: string;      // e.g. "rss:1.2,reddit:0.5"
+  NEWS_RSS_FEEDS?: string;           // CSV of RSS/Atom feed URLs (default CoinDesk, Cointelegraph, The Block)
+  CRYPTOPANIC_API_KEY?: string;
+  REDDIT_SUBREDDITS?: string;        // CSV (default CryptoCurrency)
+  COIN_ALIASES?: string;             // extra news aliases, e.g. "AVAX:avalanche,LINK:chainlink|link token"
   LOG_LEVEL?: string;                // debug|info|warn|error (default info)
   
   // Performance configuration
   ENABLE_CIRCUIT_BREAKER?: string;   // default true
-  MAX_CONCURRENT_REQUESTS?: string;  // default 3
-  REQUEST_TIMEOUT_MS?: string;       // default 30000
-  ENABLE_CACHE?: string;             // default true
+  MAX_CONCURRENT_REQUESTS?: string;  // default 3 coins (and timeframes per coin) in parallel
+  REQUEST_TIMEOUT_MS?: string;       // default 30000 (LLM calls allow at least 120000)
+  ENABLE_CACHE?: string;             // default true, caches GET responses (klines, news) with the Cache API
   CACHE_TTL_SECONDS?: string;        // default 300 (5 minutes)
+
+  // Reports
+  ENABLE_CHARTS?: string;            // default true, attaches a PNG chart per timeframe to Telegram reports
+  REPORT_MODE?: string;              // full (default, one message per coin) or digest (one ranked overview per run)
+
+  // HTTP API access (/run, /test-telegram, /metrics, /alerts, /dashboard; /health stays public)
+  API_KEYS?: string;                 // JSON keys by id: {"ci":{"secret":"...","scopes":["run","read"]}} (set as a secret)
+  RATE_LIMIT_PER_KEY?: string;       // requests per minute per API key (default 20)
+  RATE_LIMIT_PER_IP?: string;        // requests per minute per client IP, authenticated or not (default 30)
+
+  // Market data providers
+  EXCHANGE?: string;                 // kucoin|binance|okx|bybit (default kucoin)
+  EXCHANGE_OVERRIDES?: string;       // per-symbol CSV: SOL:okx,XRP:bybit
+  EXCHANGE_FALLBACKS?: string;       // CSV tried in order when the primary fails (default binance,okx,bybit)
+
+  // Timeframes & lookback
+  TIMEFRAME_PROFILE?: string;        // default profile name (default "default")
+  SYMBOL_PROFILES?: string;          // per-symbol CSV: BTC:swing,SOL:scalp
+  TIMEFRAME_PROFILES?: string;       // JSON of extra/overridden profiles: {"name":{"timeframes":["5m","1h"],"lookback":500}}
+
+  // Recommendation guardrails
+  MAX_LEVERAGE?: string;             // default 10
+  MIN_REWARD_RISK?: string;          // default 1.5
+  MAX_ENTRY_DISTANCE_PCT?: string;   // default 5 (% from last close)
+  MAX_ENTRY_DISTANCE_ATR?: string;   // default 3 (ATRs from last close)
 }
 
 export type LogLevel = "debug" | "info" | "warn" | "error";
@@ -34,14 +112,16 @@ export interface Logger {
   error: (msg: string, data?: any) => void;
 }
 
-// Timeframe types
-export const TIMEFRAMES = [
-  { id: "15m", kucoinType: "15min" },
-  { id: "1h",  kucoinType: "1hour" },
-  { id: "1d",  kucoinType: "1day"  },
-] as const;
+// Timeframe types (each exchange adapter translates these to its own interval names)
+export const TIMEFRAMES = ["1m", "3m", "5m", "15m", "30m", "1h", "2h", "4h", "6h", "12h", "1d", "1w"] as const;
 
-export type TimeframeId = typeof TIMEFRAMES[number]["id"];
+export type TimeframeId = typeof TIMEFRAMES[number];
+
+// A timeframe set and candle lookback, assigned per symbol
+export interface TimeframeProfile {
+  timeframes: TimeframeId[];  // Shortest to longest
+  lookback: number;           // Candles per timeframe (indicators use all of them)
+}
 
 // KuCoin data types
 export interface KuCoinKlineRaw extends Array<string> {
@@ -54,8 +134,8 @@ export interface KuCoinKlineRaw extends Array<string> {
   6: string;   // amount
 }
 
-// Simplified KuCoin candle format (no conversion needed)
-export interface KuCoinCandle {
+// Exchange-agnostic candle format (every adapter normalises into this)
+export interface Candle {
   timestamp: number;    // Unix timestamp in milliseconds
   open: string;         // Open price
   high: string;         // High price
@@ -65,9 +145,24 @@ export interface KuCoinCandle {
   amount: string;       // Quote volume (amount)
 }
 
+// Market data provider types
+export type ExchangeId = "kucoin" | "binance" | "okx" | "bybit";
+
+export interface CandleRange {
+  startAt: number;   // Unix ms
+  endAt?: number;    // Unix ms
+}
+
+export interface MarketDataProvider {
+  id: ExchangeId;
+  pageSize: number;  // Max candles returned per request
+  // symbol is the internal pair name (e.g., BTCUSDT); candles are returned oldest first
+  fetchCandles(env: Env, symbol: string, timeframe: TimeframeId, logger: Logger, range?: CandleRange): Promise<Candle[]>;
+}
+
 export interface TimeframeCandles {
   timeframe: TimeframeId;
-  candles: KuCoinCandle[];
+  candles: Candle[];
 }
 
 export interface PerCoinCandles {
@@ -87,6 +182,26 @@ export interface NewsArticle {
   source?: string;
   categories?: string[];
   keywords?: string;
+  origin?: NewsSourceId;           // Adapter the article came from
+  weight?: number;                 // Source weight applied when merging
+  relevance?: number;              // Score from the relevance ranker
+  relatedCount?: number;           // Other articles covering the same story
+}
+
+export type NewsSourceId = "thenewsapi" | "rss" | "cryptopanic" | "reddit";
+
+export interface NewsQuery {
+  terms?: string[];                // OR-ed search terms; none = general crypto news
+  coin?: string;                   // Ticker the terms belong to, e.g. SOL
+  limit: number;
+}
+
+export interface NewsSource {
+  id: NewsSourceId;
+  searchable: boolean;             // Can run a query for a single coin
+  isConfigured(env: Env): boolean;
+  // Articles normalised into NewsArticle, newest first
+  fetchArticles(env: Env, logger: Logger, query: NewsQuery): Promise<NewsArticle[]>;
 }
 
 export interface TheNewsAPIResponse {
@@ -113,14 +228,504 @@ export interface SentimentJSON {
   };
 }
 
+// Technical indicator types
+export interface TimeframeIndicators {
+  timeframe: TimeframeId;
+  candleCount: number;        // Candles the indicators were computed from
+  lastClose: number | null;
+  sma20: number | null;
+  sma50: number | null;
+  ema12: number | null;
+  ema26: number | null;
+  ema50: number | null;
+  rsi14: number | null;
+  macd: { macd: number; signal: number; histogram: number } | null;
+  bollinger: { upper: number; middle: number; lower: number; bandwidth: number } | null;
+  atr14: number | null;
+  obv: number | null;
+  obvChange10: number | null; // OBV change over the last 10 candles
+  vwap: number | null;        // VWAP over the fetched window
+}
+
 export interface AnalysisInput {
   symbol: string; // e.g., BTCUSDT
   allCandles: TimeframeCandles[];
+  indicators: TimeframeIndicators[];
+  sentiment: SentimentJSON;        // Scored from news about this coin only
+  marketSentiment: SentimentJSON;  // Global crypto market sentiment shared by all coins
+}
+
+// Global news and sentiment of a run, shared by every coin
+export interface MarketContext {
   sentiment: SentimentJSON;
+  articles: NewsArticle[];
+  newsError?: string;   // Why there is no market news (the sentiment is then neutral)
+}
+
+// Trade recommendation types
+export type SpotAction = "buy" | "sell" | "hold";
+export type LeveragedPosition = "long" | "short";
+
+export interface RecommendationRationale {
+  primarySignals: string;
+  laggingIndicators: string;
+  sentimentAnalysis: string;
+}
+
+export interface SpotRecommendation {
+  action: SpotAction;
+  entry: number | null;       // null only when action is "hold"
+  stopLoss: number | null;
+  takeProfit: number | null;
+  rationale: RecommendationRationale;
+}
+
+export interface LeveragedRecommendation {
+  position: LeveragedPosition;
+  leverage: number;           // e.g. 3 for 3x
+  entry: number;
+  stopLoss: number;
+  takeProfit: number;
+  rationale: RecommendationRationale;
+}
+
+export interface TradeRecommendation {
+  spot: {
+    shortTerm: SpotRecommendation;
+    longTerm: SpotRecommendation;
+  };
+  leveraged: {
+    shortTerm: LeveragedRecommendation;
+    longTerm: LeveragedRecommendation;
+  };
+}
+
+// Guardrail types
+export type RecommendationSlot =
+  | "spot.shortTerm"
+  | "spot.longTerm"
+  | "leveraged.shortTerm"
+  | "leveraged.longTerm";
+
+export interface GuardrailLimits {
+  maxLeverage: number;
+  minRewardRisk: number;
+  maxEntryDistancePct: number;
+  maxEntryDistanceAtr: number;
+}
+
+export interface GuardrailViolation {
+  slot: RecommendationSlot;
+  reason: string;
+}
+
+// Signal history types
+export type SignalStatus = "pending" | "open" | "tp" | "sl" | "expired";
+
+export interface TrackedSignal {
+  id: string;
+  runId: string;
+  symbol: string;              // e.g., BTCUSDT
+  slot: RecommendationSlot;
+  direction: LeveragedPosition;
+  entry: number;
+  stopLoss: number;
+  takeProfit: number;
+  leverage: number | null;     // null for spot
+  rejected: boolean;           // failed guardrails when published
+  createdAt: number;           // Unix ms
+  status: SignalStatus;
+  filledAt: number | null;
+  closedAt: number | null;
+}
+
+export interface SignalOutcome {
+  status: SignalStatus;
+  filledAt: number | null;
+  closedAt: number | null;
+}
+
+export interface RunSummary {
+  id: string;
+  startedAt: number;
+  finishedAt: number | null;
+  status: "running" | "queued" | "ok" | "partial" | "failed";
+  sentiment: SentimentJSON | null;
+  successfulCoins: string[];
+  failedCoins: string[];
+  error: string | null;
+  promptVersions: RunPromptVersions | null;
+  newsError: string | null;
+}
+
+// News article as kept with run history (descriptions are dropped)
+export type StoredArticle = Pick<NewsArticle, "title" | "url" | "source" | "origin" | "published_at" | "relevance">;
+
+// Dashboard types
+export interface RunCoinResult {
+  runId: string;
+  symbol: string;
+  createdAt: number;               // Unix ms
+  report: CoinReport | null;       // null when the coin failed
+  error: string | null;
+  articles: StoredArticle[];
+}
+
+export interface ErrorLogEntry {
+  id: number;
+  createdAt: number;               // Unix ms
+  errorType: string;
+  failureClass: string | null;
+  message: string;
+  details: unknown;
+}
+
+// Queue fan-out: one message per coin, tracked in run_jobs until the run's summary is sent
+export interface CoinJobMessage {
+  runId: string;
+  coin: string;
+  market: MarketContext;
+  prompts: PromptVersions;           // chosen when enqueued so manual overrides survive the queue
+}
+
+// On-demand /analyze request, answered in the chat that sent it
+export interface AnalyzeRequestMessage {
+  coin: string;
+  chatId: string;
+  requestedAt: number;
+}
+
+export type AnalysisQueueMessage = CoinJobMessage | AnalyzeRequestMessage;
+
+export type RunJobStatus = "queued" | "ok" | "failed" | "skipped";
+
+export interface RunJob {
+  coin: string;
+  status: RunJobStatus;
+  error: string | null;
+}
+
+// Prompt versions used by one coin, and all versions used across a run
+export type PromptVersions = Record<LLMStep, string>;
+export type RunPromptVersions = Record<LLMStep, string[]>;
+
+export interface CoinRunRecord {
+  runId: string;
+  symbol: string;
+  prompts?: PromptVersions;
+  input?: AnalysisInput;
+  recommendation?: TradeRecommendation;
+  violations?: GuardrailViolation[];
+  articles?: NewsArticle[];        // Coin news the sentiment was scored from
+  error?: string;
+}
+
+// Per-coin outcome of a run, as ranked in the digest
+export interface CoinReport {
+  symbol: string;
+  recommendation: TradeRecommendation;
+  violations: GuardrailViolation[];
+  sentiment: SentimentJSON;
+}
+
+// Backtest types
+export interface BacktestResponderContext {
+  input: AnalysisInput;
+  time: number;               // Simulated run time (Unix ms)
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+// Produces the raw model output for a simulated run
+export type BacktestResponder = (ctx: BacktestResponderContext) => string | Promise<string>;
+
+export interface BacktestTrade {
+  symbol: string;
+  slot: RecommendationSlot;
+  time: number;
+  direction: LeveragedPosition;
+  entry: number;
+  stopLoss: number;
+  takeProfit: number;
+  status: SignalStatus;
+  filledAt: number | null;
+  closedAt: number | null;
+  r: number | null;           // Result in multiples of initial risk; null when never filled or still open
+}
+
+export interface BacktestStats {
+  signals: number;
+  filled: number;
+  wins: number;
+  losses: number;
+  expired: number;
+  winRate: number | null;     // wins / (wins + losses)
+  averageR: number | null;
+  totalR: number;
+  maxDrawdownR: number;
+}
+
+export interface BacktestReport {
+  from: number;
+  to: number;
+  runs: number;
+  overall: BacktestStats;
+  perCoin: Record<string, BacktestStats>;
+  trades: BacktestTrade[];
+}
+
+// LLM providers
+export type LLMProviderId = "gemini" | "openai" | "http";
+export type LLMStep = "sentiment" | "agent";
+
+// Upstreams with their own request rate limit (see UPSTREAM_RATE_LIMITS)
+export type UpstreamId = ExchangeId | LLMProviderId | "telegram";
+
+export interface LLMTarget {
+  provider: LLMProviderId;
+  model: string;
+}
+
+export interface LLMRequest {
+  model: string;
+  system: string;
+  user: string;
+  temperature: number;
+  responseSchema?: Record<string, unknown>;  // Gemini-style schema, honored where the backend supports it
+  partial?: string;                          // Output so far when continuing a truncated response
+}
+
+// Token counts as reported by the provider (0 when it reports none)
+export interface LLMUsage {
+  promptTokens: number;
+  outputTokens: number;                      // Includes reasoning/thinking tokens
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  text: string;
+  usage: LLMUsage;
+  finishReason: string | null;
+  truncated: boolean;                        // Output hit the token limit; the text is partial
+}
+
+// Failure classes of a completion
+export type LLMErrorKind =
+  | "blocked"                                // Prompt rejected (Gemini promptFeedback.blockReason)
+  | "safety"                                 // Output stopped by safety filters
+  | "recitation"                             // Output stopped for reciting training data
+  | "max_tokens"                             // Still truncated after the continuation turns
+  | "empty"                                  // No candidate or no text
+  | "input_too_large";                       // Prompt exceeds the model's context window
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  isConfigured: (env: Env) => boolean;
+  completeJSON: (env: Env, logger: Logger, req: LLMRequest) => Promise<LLMCompletion>;
+  completeText: (env: Env, logger: Logger, req: LLMRequest) => Promise<LLMCompletion>;
+}
+
+// One provider call, successful or not
+export interface LLMCall extends LLMUsage {
+  step: LLMStep;
+  provider: LLMProviderId;
+  model: string;
+  latencyMs: number;
+  finishReason: string | null;
+  costUsd: number;                           // Estimate from the price table, 0 for unpriced models
+  ok: boolean;
+  createdAt: number;
+}
+
+// Roll-up of calls for a coin, a run or a period
+export interface LLMUsageTotals extends LLMUsage {
+  calls: number;
+  failedCalls: number;
+  latencyMs: number;
+  costUsd: number;
+}
+
+export interface LLMPrice {
+  input: number;                             // USD per 1M prompt tokens
+  output: number;                            // USD per 1M output tokens
+}
+
+// Prompt template with {{name}} placeholders
+export interface PromptTemplate {
+  step: LLMStep;
+  version: string;
+  system: string;
+  user: string;
+}
+
+// JSON completion function (the configured LLM providers by default, stubbed in backtests)
+export interface JsonCompletionOptions {
+  step?: LLMStep;                    // Selects the provider/model (default sentiment)
+  model?: string;                    // Overrides the primary provider's model
+  calls?: LLMCall[];                 // Receives one record per provider call
+  temperature?: number;
+  responseSchema?: Record<string, unknown>;
+}
+
+export type JsonCompletion = (
+  env: Env,
+  logger: Logger,
+  systemPrompt: string,
+  userPrompt: string,
+  options?: JsonCompletionOptions
+) => Promise<string>;
+
+// Price alerts
+export type AlertOperator = "above" | "below" | "crosses_above" | "crosses_below";
+export type AlertIndicator = "rsi14" | "sma20" | "sma50" | "ema12" | "ema26" | "ema50" | "atr14" | "vwap";
+export type AlertMode = "once" | "rearm";
+
+export type AlertCondition =
+  | { type: "price"; op: AlertOperator; value: number }
+  | { type: "indicator"; timeframe: TimeframeId; indicator: AlertIndicator; op: AlertOperator; value: number }
+  | { type: "change"; timeframe: TimeframeId; percent: number; direction: "up" | "down" | "any" };
+
+export interface PriceAlert {
+  id: string;
+  symbol: string;                    // Coin ticker, e.g. BTC
+  condition: AlertCondition;
+  mode: AlertMode;                   // once: disabled after firing; rearm: fires again once the condition resets
+  cooldownMs: number;                // Minimum time between two deliveries (dedup window)
+  note: string | null;
+  active: boolean;
+  armed: boolean;                    // rearm mode: false until the condition has been false again
+  createdAt: number;
+  lastValue: number | null;          // Value seen at the previous check (for crossings)
+  lastTriggeredAt: number | null;
+}
+
+export interface AlertEvaluation {
+  value: number | null;              // Current price / indicator / % change
+  triggered: boolean;
+  active: boolean;                   // Next state after this check
+  armed: boolean;
+}
+
+// Notifications
+export type NotifierId = "telegram" | "discord" | "slack" | "email" | "webhook";
+export type NotificationKind = "report" | "error" | "alert";
+export type NotificationLevel = "info" | "success" | "warning" | "error";
+
+export interface NotificationField {
+  name: string;
+  value: string;
+}
+
+export interface NotificationSection {
+  heading: string;
+  lines: string[];
+  code?: boolean;                    // Render as preformatted text (e.g. JSON details)
+}
+
+// Channel-neutral message; each backend formats it its own way
+export interface Notification {
+  kind: NotificationKind;
+  level: NotificationLevel;
+  title: string;
+  fields: NotificationField[];       // Short facts shown as key/value pairs
+  sections: NotificationSection[];   // Longer blocks of plain text
+  timestamp: number;                 // Unix ms
+  html?: string;                     // Pre-rendered Telegram HTML (otherwise built from the parts above)
+  images?: ChartImage[];             // Sent by channels that support images (Telegram)
+  buttons?: TelegramInlineButton[][]; // Inline keyboard rows under the Telegram message
+  data?: unknown;                    // Machine-readable payload for the generic webhook
+}
+
+// Chart image attached to a report
+export interface ChartImage {
+  timeframe: TimeframeId;
+  filename: string;                  // e.g. BTCUSDT-1h.png
+  caption: string;                   // Plain text
+  png: Uint8Array;
+}
+
+export interface Notifier {
+  id: NotifierId;
+  isConfigured(env: Env): boolean;
+  send(env: Env, logger: Logger, notification: Notification): Promise<void>;
+}
+
+// HTTP client types
+export interface HttpSettings {
+  timeoutMs: number;
+  circuitBreaker: boolean;
+  cacheTtlSeconds: number;           // 0 disables the cache
+}
+
+// Per-request overrides of the HTTP settings
+export interface HttpRequestOptions {
+  timeoutMs?: number;
+  cacheTtlSeconds?: number;          // GET only; 0 skips the cache
+}
+
+export type CircuitState = "CLOSED" | "OPEN" | "HALF_OPEN";
+
+// Breaker state persisted per host so it outlives the isolate
+export interface CircuitBreakerState {
+  state: CircuitState;
+  failures: number;
+  lastFailureTime: number;
+}
+
+// HTTP API auth types
+export const API_SCOPES = ["run", "read", "admin"] as const;
+export type ApiScope = typeof API_SCOPES[number];   // admin grants every scope
+
+export interface ApiKey {
+  id: string;
+  secret: string;
+  scopes: ApiScope[];
+}
+
+export type ApiAuthMethod = "bearer" | "hmac" | "basic";   // basic: browsers on /dashboard
+
+export type ApiAuditOutcome = "ok" | "error" | "unauthorized" | "forbidden" | "rate_limited";   // error: the handler threw
+
+// One request to a protected endpoint, as written to api_audit_log
+export interface ApiAuditEntry {
+  keyId: string | null;            // null when no key could be identified
+  method: ApiAuthMethod | null;
+  scope: ApiScope;                 // scope the endpoint requires
+  httpMethod: string;
+  path: string;
+  ip: string | null;
+  status: number;
+  outcome: ApiAuditOutcome;
+  reason: string | null;
+}
+
+// Telegram webhook types (only the fields the bot uses)
+export interface TelegramUpdate {
+  update_id: number;
+  message?: {
+    message_id: number;
+    chat: { id: number; type: string };
+    from?: { id: number; username?: string };
+    text?: string;
+  };
+  callback_query?: {
+    id: string;
+    from: { id: number; username?: string };
+    message?: { message_id: number; chat: { id: number; type: string } };
+    data?: string;
+  };
+}
+
+export interface TelegramInlineButton {
+  text: string;
+  callback_data: string;             // At most 64 bytes
 }
 
 // Gemini API types
 export interface GeminiRequest {
+  systemInstruction?: {
+    parts: Array<{ text: string }>;
+  };
   contents: Array<{
     role: "user" | "model";
     parts: Array<{ text: string }>;
@@ -128,14 +733,46 @@ export interface GeminiRequest {
   generationConfig?: {
     temperature?: number;
     responseMimeType?: string;
+    responseSchema?: Record<string, unknown>;
   };
 }
 
 export interface GeminiResponse {
-  candidates: Array<{
-    content: {
-      parts: Array<{ text: string }>;
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{ text?: string; thought?: boolean }>;
     };
-    finishReason: string;
+    finishReason?: string;
+    safetyRatings?: Array<{ category: string; probability: string; blocked?: boolean }>;
   }>;
+  promptFeedback?: {
+    blockReason?: string;
+    blockReasonMessage?: string;
+  };
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+// OpenAI-compatible chat completion types
+export interface OpenAIChatRequest {
+  model: string;
+  messages: Array<{ role: "system" | "user" | "assistant"; content: string }>;
+  temperature?: number;
+  response_format?: { type: "json_object" | "text" };
+}
+
+export interface OpenAIChatResponse {
+  choices: Array<{
+    message: { role: string; content: string | null };
+    finish_reason: string;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
 }
@@ -0,0 +1,171 @@
+// =====================================
+// ===== PRICE ALERT EVALUATION
+// =====================================
+
+import { AlertCondition, AlertEvaluation, AlertIndicator, AlertOperator, Candle, PriceAlert, TimeframeId, TIMEFRAMES } from '../types';
+import { ALERT_PRICE_TIMEFRAME, ALERT_DEFAULT_COOLDOWN_MS, ALERT_INDICATORS, ALERT_OPERATORS, INDICATOR_LOOKBACK } from '../config/constants';
+import { computeIndicators } from './indicators';
+import { splitSymbol } from './helpers';
+
+const TICKER_RE = /^[A-Z0-9]{2,15}$/;
+
+export type AlertInput = Pick<PriceAlert, "symbol" | "condition" | "mode" | "cooldownMs" | "note">;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function isTimeframe(value: unknown): value is TimeframeId {
+  return (TIMEFRAMES as readonly unknown[]).includes(value);
+}
+
+function isOperator(value: unknown): value is AlertOperator {
+  return (ALERT_OPERATORS as readonly unknown[]).includes(value);
+}
+
+// Validate an API request body, e.g. {"symbol":"BTC","type":"price","op":"crosses_above","value":70000}
+export function parseAlertInput(data: unknown): { alert?: AlertInput; errors: string[] } {
+  if (!isObject(data)) return { errors: ["body must be a JSON object"] };
+  const errors: string[] = [];
+
+  const symbol = typeof data.symbol === "string" ? splitSymbol(data.symbol.trim().toUpperCase()).base : "";
+  if (!TICKER_RE.test(symbol)) errors.push("symbol must be a coin ticker such as BTC");
+
+  let condition: AlertCondition | undefined;
+  switch (data.type) {
+    case "price":
+      if (!isOperator(data.op)) errors.push(`op must be one of ${ALERT_OPERATORS.join(", ")}`);
+      if (!isPositive(data.value)) errors.push("value must be a positive number");
+      if (isOperator(data.op) && isPositive(data.value)) {
+        condition = { type: "price", op: data.op, value: data.value };
+      }
+      break;
+    case "indicator": {
+      const indicator = data.indicator as AlertIndicator;
+      if (!isTimeframe(data.timeframe)) errors.push(`timeframe must be one of ${TIMEFRAMES.join(", ")}`);
+      if (!ALERT_INDICATORS.includes(indicator)) errors.push(`indicator must be one of ${ALERT_INDICATORS.join(", ")}`);
+      if (!isOperator(data.op)) errors.push(`op must be one of ${ALERT_OPERATORS.join(", ")}`);
+      if (typeof data.value !== "number" || !Number.isFinite(data.value)) errors.push("value must be a number");
+      if (isTimeframe(data.timeframe) && ALERT_INDICATORS.includes(indicator) && isOperator(data.op) && typeof data.value === "number") {
+        condition = { type: "indicator", timeframe: data.timeframe, indicator, op: data.op, value: data.value };
+      }
+      break;
+    }
+    case "change": {
+      const direction = data.direction ?? "any";
+      if (!isTimeframe(data.timeframe)) errors.push(`timeframe must be one of ${TIMEFRAMES.join(", ")}`);
+      if (!isPositive(data.percent)) errors.push("percent must be a positive number");
+      if (direction !== "up" && direction !== "down" && direction !== "any") errors.push("direction must be up, down or any");
+      if (isTimeframe(data.timeframe) && isPositive(data.percent) && (direction === "up" || direction === "down" || direction === "any")) {
+        condition = { type: "change", timeframe: data.timeframe, percent: data.percent, direction };
+      }
+      break;
+    }
+    default:
+      errors.push("type must be price, indicator or change");
+  }
+
+  const mode = data.mode ?? "once";
+  if (mode !== "once" && mode !== "rearm") errors.push("mode must be once or rearm");
+
+  const cooldownMinutes = data.cooldownMinutes ?? ALERT_DEFAULT_COOLDOWN_MS / 60000;
+  if (typeof cooldownMinutes !== "number" || !Number.isFinite(cooldownMinutes) || cooldownMinutes < 0) {
+    errors.push("cooldownMinutes must be a non-negative number");
+  }
+
+  if (data.note !== undefined && typeof data.note !== "string") errors.push("note must be a string");
+
+  if (errors.length || !condition) return { errors };
+  return {
+    alert: {
+      symbol,
+      condition,
+      mode: mode as PriceAlert["mode"],
+      cooldownMs: (cooldownMinutes as number) * 60000,
+      note: typeof data.note === "string" ? data.note.slice(0, 200) : null,
+    },
+    errors,
+  };
+}
+
+// Candles an alert is evaluated on
+export function alertTimeframe(condition: AlertCondition): TimeframeId {
+  return condition.type === "price" ? ALERT_PRICE_TIMEFRAME : condition.timeframe;
+}
+
+// Candles needed for an evaluation (indicators need their full warm-up)
+export function alertLookback(condition: AlertCondition): number {
+  return condition.type === "indicator" ? INDICATOR_LOOKBACK : 3;
+}
+
+// Current value of the watched quantity: close, indicator or % change against the previous close
+function valueOf(condition: AlertCondition, candles: Candle[]): number | null {
+  if (candles.length === 0) return null;
+  const close = parseFloat(candles[candles.length - 1].close);
+  switch (condition.type) {
+    case "price":
+      return Number.isFinite(close) ? close : null;
+    case "indicator":
+      return computeIndicators({ timeframe: condition.timeframe, candles })[condition.indicator];
+    case "change": {
+      if (candles.length < 2) return null;
+      const prev = parseFloat(candles[candles.length - 2].close);
+      return prev > 0 && Number.isFinite(close) ? ((close - prev) / prev) * 100 : null;
+    }
+  }
+}
+
+function compare(op: AlertOperator, previous: number | null, value: number, threshold: number): boolean {
+  switch (op) {
+    case "above": return value > threshold;
+    case "below": return value < threshold;
+    case "crosses_above": return previous !== null && previous <= threshold && value > threshold;
+    case "crosses_below": return previous !== null && previous >= threshold && value < threshold;
+  }
+}
+
+// Check an alert against fresh candles (oldest first). Crossings compare with the value from the
+// previous check, or the previous candle on the first check.
+export function evaluateAlert(alert: PriceAlert, candles: Candle[], now = Date.now()): AlertEvaluation {
+  const value = valueOf(alert.condition, candles);
+  if (value === null || !alert.active) {
+    return { value, triggered: false, active: alert.active, armed: alert.armed };
+  }
+
+  const c = alert.condition;
+  const conditionMet = c.type === "change"
+    ? (c.direction === "up" ? value >= c.percent : c.direction === "down" ? value <= -c.percent : Math.abs(value) >= c.percent)
+    : compare(c.op, alert.lastValue ?? valueOf(c, candles.slice(0, -1)), value, c.value);
+
+  // Dedup: a re-arming alert must reset (condition false) and wait out the cooldown before firing again
+  const coolingDown = alert.lastTriggeredAt !== null && now - alert.lastTriggeredAt < alert.cooldownMs;
+  const triggered = conditionMet && alert.armed && !coolingDown;
+
+  return {
+    value,
+    triggered,
+    active: triggered ? alert.mode === "rearm" : true,
+    armed: triggered ? false : (alert.armed || !conditionMet),
+  };
+}
+
+function formatOp(op: AlertOperator): string {
+  return op.replace("_", " ");
+}
+
+// Short human description, e.g. "BTC crosses above 70000" or "ETH 1h rsi14 below 30"
+export function describeAlert(alert: Pick<PriceAlert, "symbol" | "condition">): string {
+  const c = alert.condition;
+  switch (c.type) {
+    case "price":
+      return `${alert.symbol} ${formatOp(c.op)} ${c.value}`;
+    case "indicator":
+      return `${alert.symbol} ${c.timeframe} ${c.indicator} ${formatOp(c.op)} ${c.value}`;
+    case "change":
+      return `${alert.symbol} moves ${c.direction === "any" ? "" : c.direction + " "}${c.percent}% in ${c.timeframe}`;
+  }
+}
@@ -0,0 +1,181 @@
+// =====================================
+// ===== CHART RENDERING
+// ===== Purpose: Candlestick PNG per timeframe with the recommended levels, swing levels and moving averages
+// =====================================
+
+import { ChartImage, Candle, TimeframeCandles, TimeframeId, TradeRecommendation } from '../types';
+import { CHART_WIDTH, CHART_HEIGHT, CHART_CANDLES, TIMEFRAME_MS } from '../config/constants';
+import { Raster, Rgb, encodePng, textWidth, GLYPH_HEIGHT } from './png';
+import { sma, supportResistance } from './indicators';
+import { horizonTimeframes } from './helpers';
+
+const COLORS = {
+  background: [19, 23, 34],
+  grid: [42, 46, 57],
+  text: [209, 212, 220],
+  up: [38, 166, 154],
+  down: [239, 83, 80],
+  sma20: [255, 183, 77],
+  sma50: [171, 71, 188],
+  swing: [120, 123, 134],
+  entry: [66, 165, 245],
+  stopLoss: [239, 83, 80],
+  takeProfit: [102, 187, 106],
+} satisfies Record<string, Rgb>;
+
+const MARGIN = { left: 12, right: 120, top: 56, bottom: 40 };
+const TEXT_SCALE = 2;
+const GRID_LINES = 5;
+const TIME_LABELS = 5;
+
+interface Level {
+  price: number;
+  color: Rgb;
+  dashed: boolean;
+}
+
+type Horizon = "shortTerm" | "longTerm";
+
+function formatPrice(value: number): string {
+  return String(Number(value.toPrecision(6)));
+}
+
+function formatTime(timestamp: number, timeframe: TimeframeId): string {
+  const iso = new Date(timestamp).toISOString();
+  return TIMEFRAME_MS[timeframe] >= TIMEFRAME_MS["1d"] ? iso.slice(0, 10) : `${iso.slice(5, 10)} ${iso.slice(11, 16)}`;
+}
+
+// Entry, stop-loss and take-profit of a horizon: the leveraged trade solid, the spot trade dashed (none for hold)
+function tradeLevels(rec: TradeRecommendation, horizon: Horizon): Level[] {
+  const levels = (values: (number | null)[], dashed: boolean): Level[] =>
+    values.flatMap((price, idx) => price === null ? [] : [{
+      price,
+      color: [COLORS.entry, COLORS.stopLoss, COLORS.takeProfit][idx],
+      dashed,
+    }]);
+
+  const lev = rec.leveraged[horizon];
+  const spot = rec.spot[horizon];
+  return [
+    ...levels([lev.entry, lev.stopLoss, lev.takeProfit], false),
+    ...(spot.action === "hold" ? [] : levels([spot.entry, spot.stopLoss, spot.takeProfit], true)),
+  ];
+}
+
+function caption(symbol: string, timeframe: TimeframeId, rec: TradeRecommendation, horizon: Horizon): string {
+  const lev = rec.leveraged[horizon];
+  const spot = rec.spot[horizon];
+  return `${symbol} ${timeframe} · ${horizon === "shortTerm" ? "short" : "long"}-term levels: ` +
+    `${lev.position} ${lev.leverage}x (solid)` +
+    (spot.action === "hold" ? ", spot hold" : `, spot ${spot.action} (dashed)`) +
+    ` · SMA20 orange, SMA50 purple, swing levels grey`;
+}
+
+function drawLegend(raster: Raster, x: number, y: number): void {
+  const items: [string, Rgb][] = [
+    ["SMA20", COLORS.sma20], ["SMA50", COLORS.sma50], ["S/R", COLORS.swing],
+    ["ENTRY", COLORS.entry], ["SL", COLORS.stopLoss], ["TP", COLORS.takeProfit],
+  ];
+  const box = GLYPH_HEIGHT * TEXT_SCALE;
+  for (const [label, color] of items) {
+    raster.fillRect(x, y, box, box, color);
+    raster.text(x + box + 6, y, label, COLORS.text, TEXT_SCALE);
+    x += box + 6 + textWidth(label, TEXT_SCALE) + 18;
+  }
+}
+
+async function renderChart(symbol: string, tf: TimeframeCandles, levels: Level[]): Promise<Uint8Array> {
+  const num = (key: keyof Candle) => tf.candles.map(c => parseFloat(String(c[key])));
+  const closesAll = num("close");
+  const sma20 = sma(closesAll, 20).slice(-CHART_CANDLES);
+  const sma50 = sma(closesAll, 50).slice(-CHART_CANDLES);
+  const opens = num("open").slice(-CHART_CANDLES);
+  const highs = num("high").slice(-CHART_CANDLES);
+  const lows = num("low").slice(-CHART_CANDLES);
+  const closes = closesAll.slice(-CHART_CANDLES);
+  const times = tf.candles.slice(-CHART_CANDLES).map(c => c.timestamp);
+  const swings = supportResistance(highs, lows, closes);
+  const swingLevels = [...swings.support, ...swings.resistance];
+
+  // The price range covers the candles and every level drawn, with a little headroom
+  const prices = [...highs, ...lows, ...levels.map(l => l.price), ...swingLevels];
+  const pad = (Math.max(...prices) - Math.min(...prices)) * 0.05 || Math.max(...prices) * 0.01 || 1;
+  const min = Math.min(...prices) - pad;
+  const max = Math.max(...prices) + pad;
+
+  const left = MARGIN.left;
+  const right = CHART_WIDTH - MARGIN.right;
+  const top = MARGIN.top;
+  const bottom = CHART_HEIGHT - MARGIN.bottom;
+  const y = (price: number) => bottom - ((price - min) / (max - min)) * (bottom - top);
+  const slot = (right - left) / Math.max(1, closes.length);
+  const x = (idx: number) => left + (idx + 0.5) * slot;
+  const half = (GLYPH_HEIGHT * TEXT_SCALE) / 2;
+
+  const raster = new Raster(CHART_WIDTH, CHART_HEIGHT, COLORS.background);
+
+  // Grid and axes
+  for (let i = 0; i <= GRID_LINES; i++) {
+    const price = min + ((max - min) * i) / GRID_LINES;
+    raster.line(left, y(price), right, y(price), COLORS.grid);
+    raster.text(right + 8, y(price) - half, formatPrice(price), COLORS.text, TEXT_SCALE);
+  }
+  for (let i = 0; i < TIME_LABELS && times.length; i++) {
+    const idx = Math.round((i * (times.length - 1)) / (TIME_LABELS - 1));
+    const label = formatTime(times[idx], tf.timeframe);
+    const lx = Math.min(Math.max(x(idx) - textWidth(label, TEXT_SCALE) / 2, left), right - textWidth(label, TEXT_SCALE));
+    raster.line(x(idx), top, x(idx), bottom, COLORS.grid);
+    raster.text(lx, bottom + 12, label, COLORS.text, TEXT_SCALE);
+  }
+
+  for (const price of swingLevels) raster.line(left, y(price), right, y(price), COLORS.swing, 1, 6);
+
+  // Candles
+  const body = Math.max(1, Math.floor(slot * 0.7));
+  closes.forEach((close, idx) => {
+    const color = close >= opens[idx] ? COLORS.up : COLORS.down;
+    raster.line(x(idx), y(highs[idx]), x(idx), y(lows[idx]), color);
+    const yTop = Math.min(y(opens[idx]), y(close));
+    raster.fillRect(x(idx) - body / 2, yTop, body, Math.max(1, Math.abs(y(opens[idx]) - y(close))), color);
+  });
+
+  raster.polyline(sma20.map((v, idx) => (v === null ? null : { x: x(idx), y: y(v) })), COLORS.sma20, 2);
+  raster.polyline(sma50.map((v, idx) => (v === null ? null : { x: x(idx), y: y(v) })), COLORS.sma50, 2);
+
+  // Trade levels with a price tag on the axis
+  for (const level of levels) {
+    const ly = y(level.price);
+    raster.line(left, ly, right, ly, level.color, 2, level.dashed ? 10 : 0);
+    raster.fillRect(right + 2, ly - half - 4, MARGIN.right - 4, half * 2 + 8, level.color);
+    raster.text(right + 8, ly - half, formatPrice(level.price), COLORS.background, TEXT_SCALE);
+  }
+
+  const title = `${symbol} ${tf.timeframe}`;
+  raster.text(left, 14, title, COLORS.text, 3);
+  drawLegend(raster, left + textWidth(title, 3) + 40, 18);
+
+  return encodePng(raster);
+}
+
+// One chart per fetched timeframe (shortest first), overlaid with the levels of the horizon it drives
+export async function renderCoinCharts(
+  symbol: string,
+  allCandles: TimeframeCandles[],
+  rec: TradeRecommendation
+): Promise<ChartImage[]> {
+  const timeframes = allCandles.filter(tf => tf.candles.length > 0);
+  const horizons = horizonTimeframes(timeframes.map(tf => tf.timeframe));
+  const sorted = [...timeframes].sort((a, b) => TIMEFRAME_MS[a.timeframe] - TIMEFRAME_MS[b.timeframe]);
+
+  const images: ChartImage[] = [];
+  for (const tf of sorted) {
+    const horizon: Horizon = tf.timeframe === horizons.longTerm && tf.timeframe !== horizons.shortTerm ? "longTerm" : "shortTerm";
+    images.push({
+      timeframe: tf.timeframe,
+      filename: `${symbol}-${tf.timeframe}.png`,
+      caption: caption(symbol, tf.timeframe, rec, horizon),
+      png: await renderChart(symbol, tf, tradeLevels(rec, horizon)),
+    });
+  }
+  return images;
+}
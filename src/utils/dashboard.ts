@@ -0,0 +1,270 @@
+// =====================================
+// ===== DASHBOARD RENDERING
+// ===== Purpose: Server-rendered HTML pages for browsing past runs, coins, news and errors
+// =====================================
+
+import {
+  CoinReport,
+  ErrorLogEntry,
+  RecommendationSlot,
+  RunCoinResult,
+  RunSummary,
+  SentimentJSON,
+  StoredArticle,
+} from '../types';
+import { escapeHtml, splitSymbol } from './helpers';
+import { renderRecommendationHtml } from './render';
+
+const STYLE = `
+  body { font: 14px/1.45 system-ui, sans-serif; margin: 0; background: #13171f; color: #d1d4dc; }
+  header { padding: 12px 24px; background: #1c212b; display: flex; gap: 24px; align-items: baseline; }
+  header h1 { font-size: 18px; margin: 0; }
+  main { padding: 8px 24px 32px; max-width: 1200px; }
+  a { color: #64b5f6; text-decoration: none; }
+  a:hover { text-decoration: underline; }
+  h2 { font-size: 16px; margin: 28px 0 8px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #2a2e39; vertical-align: top; }
+  th { color: #8a8f9c; font-weight: 600; }
+  .muted { color: #8a8f9c; }
+  .long, .buy, .Positive, .ok { color: #26a69a; }
+  .short, .sell, .Negative, .failed { color: #ef5350; }
+  .rejected, .partial, .queued, .running { color: #ffb74d; }
+  .report { white-space: pre-wrap; background: #1c212b; padding: 12px; border-radius: 6px; }
+  pre { white-space: pre-wrap; margin: 4px 0; }
+  details summary { cursor: pointer; }
+  svg text { fill: #8a8f9c; font-size: 11px; }
+`;
+
+const SLOTS: [RecommendationSlot, string][] = [
+  ["spot.shortTerm", "Spot short"],
+  ["spot.longTerm", "Spot long"],
+  ["leveraged.shortTerm", "Leveraged short"],
+  ["leveraged.longTerm", "Leveraged long"],
+];
+
+const SENTIMENT_CLASSES = ["Positive", "Neutral", "Negative"];
+const RUN_STATUSES = ["running", "queued", "ok", "partial", "failed"];
+
+function attr(value: string): string {
+  return escapeHtml(value).replace(/"/g, "&quot;");
+}
+
+function formatTime(ms: number | null): string {
+  return ms === null ? "—" : new Date(ms).toISOString().slice(0, 16).replace("T", " ") + " UTC";
+}
+
+function formatDuration(run: RunSummary): string {
+  if (run.finishedAt === null) return "—";
+  const seconds = Math.round((run.finishedAt - run.startedAt) / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function coinName(symbol: string): string {
+  return splitSymbol(symbol).base;
+}
+
+function runLink(runId: string, label: string): string {
+  return `<a href="/dashboard/runs/${encodeURIComponent(runId)}">${escapeHtml(label)}</a>`;
+}
+
+function coinLink(symbol: string): string {
+  return `<a href="/dashboard/coins/${encodeURIComponent(symbol)}">${escapeHtml(coinName(symbol))}</a>`;
+}
+
+// One recommendation slot as a table cell
+function tradeCell(report: CoinReport, slot: RecommendationSlot): string {
+  const rejected = report.violations.some(v => v.slot === slot);
+  const [market, horizon] = slot.split(".") as ["spot" | "leveraged", "shortTerm" | "longTerm"];
+  const levels = (entry: number | null, sl: number | null, tp: number | null) =>
+    entry === null ? "" : ` <span class="muted">${entry} · SL ${sl ?? "—"} · TP ${tp ?? "—"}</span>`;
+
+  let cell: string;
+  if (market === "spot") {
+    const t = report.recommendation.spot[horizon];
+    cell = `<span class="${t.action}">${t.action}</span>${t.action === "hold" ? "" : levels(t.entry, t.stopLoss, t.takeProfit)}`;
+  } else {
+    const t = report.recommendation.leveraged[horizon];
+    cell = `<span class="${t.position}">${t.position} ${t.leverage}x</span>${levels(t.entry, t.stopLoss, t.takeProfit)}`;
+  }
+  return rejected ? `<span class="rejected">rejected</span> ${cell}` : cell;
+}
+
+// Stored sentiment is model output that was never validated: only known values become classes, the rest is text
+function sentimentScore(s: SentimentJSON["shortTermSentiment"] | undefined): number | null {
+  return typeof s?.score === "number" && Number.isFinite(s.score) ? s.score : null;
+}
+
+function sentimentCell(s: SentimentJSON["shortTermSentiment"] | undefined): string {
+  const category = String(s?.category ?? "—");
+  const score = sentimentScore(s);
+  return `<span class="${SENTIMENT_CLASSES.includes(category) ? category : "muted"}">${escapeHtml(category)}</span> ` +
+    `<span class="muted">${score === null ? "—" : score.toFixed(2)}</span>`;
+}
+
+function rationale(s: SentimentJSON["shortTermSentiment"] | undefined): string {
+  return escapeHtml(String(s?.rationale ?? ""));
+}
+
+function statusCell(status: string): string {
+  return `<td class="${RUN_STATUSES.includes(status) ? status : "muted"}">${escapeHtml(status)}</td>`;
+}
+
+function articleList(articles: StoredArticle[]): string {
+  if (!articles.length) return `<p class="muted">No articles recorded.</p>`;
+  const items = articles.map(a => {
+    const title = escapeHtml(a.title || a.url || "Untitled");
+    const link = a.url && /^https?:\/\//i.test(a.url) ? `<a href="${attr(a.url)}" rel="noopener noreferrer">${title}</a>` : title;
+    const meta = [a.source, a.origin, a.published_at ? formatTime(Date.parse(a.published_at)) : null].filter(Boolean).join(" · ");
+    return `<li>${link} <span class="muted">${escapeHtml(meta)}</span></li>`;
+  });
+  return `<ul>${items.join("")}</ul>`;
+}
+
+// Short- and long-term sentiment scores (-1..1) over time as an inline SVG line chart, oldest on the left
+function sentimentChart(points: { at: number; sentiment: SentimentJSON }[]): string {
+  if (points.length < 2) return `<p class="muted">Not enough history yet.</p>`;
+  const width = 900;
+  const height = 180;
+  const pad = 28;
+  const sorted = [...points].sort((a, b) => a.at - b.at);
+  const x = (idx: number) => pad + (idx * (width - 2 * pad)) / (sorted.length - 1);
+  const y = (score: number) => pad + ((1 - score) * (height - 2 * pad)) / 2;
+  const line = (pick: (s: SentimentJSON) => number, color: string) =>
+    `<polyline fill="none" stroke="${color}" stroke-width="2" points="${sorted.map((p, idx) => `${x(idx).toFixed(1)},${y(pick(p.sentiment)).toFixed(1)}`).join(" ")}"/>`;
+
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" role="img" aria-label="Sentiment history">
+    <line x1="${pad}" x2="${width - pad}" y1="${y(0)}" y2="${y(0)}" stroke="#2a2e39"/>
+    <text x="2" y="${y(1) + 4}">+1</text><text x="6" y="${y(0) + 4}">0</text><text x="2" y="${y(-1) + 4}">-1</text>
+    <text x="${pad}" y="${height - 6}">${escapeHtml(formatTime(sorted[0].at))}</text>
+    <text x="${width - pad}" y="${height - 6}" text-anchor="end">${escapeHtml(formatTime(sorted[sorted.length - 1].at))}</text>
+    ${line(s => sentimentScore(s.shortTermSentiment) ?? 0, "#64b5f6")}
+    ${line(s => sentimentScore(s.longTermSentiment) ?? 0, "#ffb74d")}
+  </svg>
+  <p class="muted"><span style="color:#64b5f6">■</span> short term <span style="color:#ffb74d">■</span> long term</p>`;
+}
+
+function layout(title: string, body: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} · Crypto Automation</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header><h1>Crypto Automation</h1><a href="/dashboard">Overview</a></header>
+<main>
+<h2>${escapeHtml(title)}</h2>
+${body}
+</main>
+</body>
+</html>`;
+}
+
+function runsTable(runs: RunSummary[]): string {
+  if (!runs.length) return `<p class="muted">No runs recorded yet.</p>`;
+  const rows = runs.map(run => `<tr>
+    <td>${runLink(run.id, formatTime(run.startedAt))}</td>
+    ${statusCell(run.status)}
+    <td>${formatDuration(run)}</td>
+    <td>${run.successfulCoins.length}</td>
+    <td>${escapeHtml(run.failedCoins.join(", ")) || "—"}</td>
+    <td class="muted">${escapeHtml(run.error || "")}</td>
+  </tr>`);
+  return `<table><tr><th>Started</th><th>Status</th><th>Duration</th><th>Analyzed</th><th>Failed / skipped</th><th>Error</th></tr>${rows.join("")}</table>`;
+}
+
+function errorTable(errors: ErrorLogEntry[]): string {
+  if (!errors.length) return `<p class="muted">No errors logged.</p>`;
+  const rows = errors.map(e => `<tr>
+    <td>${formatTime(e.createdAt)}</td>
+    <td>${escapeHtml(e.errorType)}${e.failureClass ? ` <span class="muted">${escapeHtml(e.failureClass)}</span>` : ""}</td>
+    <td>${escapeHtml(e.message)}${e.details === null ? "" : `<details><summary class="muted">Details</summary><pre>${escapeHtml(JSON.stringify(e.details, null, 2))}</pre></details>`}</td>
+  </tr>`);
+  return `<table><tr><th>Time</th><th>Type</th><th>Error</th></tr>${rows.join("")}</table>`;
+}
+
+export function renderOverviewPage(data: {
+  latest: RunCoinResult[];
+  runs: RunSummary[];
+  errors: ErrorLogEntry[];
+}): string {
+  const coins = data.latest.filter(c => c.report).map(c => `<tr>
+    <td>${coinLink(c.symbol)}</td>
+    <td>${runLink(c.runId, formatTime(c.createdAt))}</td>
+    ${SLOTS.map(([slot]) => `<td>${tradeCell(c.report!, slot)}</td>`).join("")}
+    <td>${sentimentCell(c.report!.sentiment.shortTermSentiment)}</td>
+  </tr>`);
+  const market = data.runs.filter(r => r.sentiment).map(r => ({ at: r.startedAt, sentiment: r.sentiment! }));
+
+  return layout("Overview", `
+    <h2>Latest recommendation per coin</h2>
+    ${coins.length
+      ? `<table><tr><th>Coin</th><th>As of</th>${SLOTS.map(([, label]) => `<th>${label}</th>`).join("")}<th>Coin news</th></tr>${coins.join("")}</table>`
+      : `<p class="muted">No coin has been analyzed yet.</p>`}
+    <h2>Market sentiment</h2>
+    ${sentimentChart(market)}
+    <h2>Runs</h2>
+    ${runsTable(data.runs)}
+    <h2>Error log</h2>
+    ${errorTable(data.errors)}
+  `);
+}
+
+export function renderRunPage(detail: { run: RunSummary; articles: StoredArticle[]; coins: RunCoinResult[] }): string {
+  const { run } = detail;
+  const sentiment = run.sentiment;
+  const coins = detail.coins.map(c => `
+    <h2>${coinLink(c.symbol)}</h2>
+    ${c.error ? `<p class="failed">${escapeHtml(c.error)}</p>` : ""}
+    ${c.report ? `<div class="report">${renderRecommendationHtml(c.symbol, c.report.recommendation, c.report.violations, new Date(c.createdAt))}</div>
+      <p><b>Coin news:</b> ${sentimentCell(c.report.sentiment.shortTermSentiment)} short term,
+        ${sentimentCell(c.report.sentiment.longTermSentiment)} long term<br>
+        <span class="muted">${rationale(c.report.sentiment.shortTermSentiment)}</span></p>` : ""}
+    <details><summary>${c.articles.length} coin articles</summary>${articleList(c.articles)}</details>
+  `);
+
+  return layout(`Run ${formatTime(run.startedAt)}`, `
+    <table>
+      <tr><th>Status</th>${statusCell(run.status)}</tr>
+      <tr><th>Started</th><td>${formatTime(run.startedAt)}</td></tr>
+      <tr><th>Finished</th><td>${formatTime(run.finishedAt)} <span class="muted">(${formatDuration(run)})</span></td></tr>
+      <tr><th>Analyzed</th><td>${escapeHtml(run.successfulCoins.join(", ")) || "—"}</td></tr>
+      <tr><th>Failed / skipped</th><td>${escapeHtml(run.failedCoins.join(", ")) || "—"}</td></tr>
+      ${run.error ? `<tr><th>Error</th><td class="failed">${escapeHtml(run.error)}</td></tr>` : ""}
+      ${run.newsError ? `<tr><th>Market news</th><td class="failed">Unavailable: ${escapeHtml(run.newsError)}</td></tr>` : ""}
+      ${run.promptVersions ? `<tr><th>Prompts</th><td>sentiment ${escapeHtml(run.promptVersions.sentiment.join("/"))}, agent ${escapeHtml(run.promptVersions.agent.join("/"))}</td></tr>` : ""}
+      <tr><th>Run ID</th><td class="muted">${escapeHtml(run.id)}</td></tr>
+    </table>
+    <h2>Market sentiment</h2>
+    ${sentiment ? `<p>${sentimentCell(sentiment.shortTermSentiment)} short term: ${rationale(sentiment.shortTermSentiment)}</p>
+      <p>${sentimentCell(sentiment.longTermSentiment)} long term: ${rationale(sentiment.longTermSentiment)}</p>` : `<p class="muted">No market sentiment.</p>`}
+    <details><summary>${detail.articles.length} market articles</summary>${articleList(detail.articles)}</details>
+    ${coins.join("")}
+  `);
+}
+
+export function renderCoinPage(symbol: string, history: RunCoinResult[]): string {
+  const points = history.filter(c => c.report).map(c => ({ at: c.createdAt, sentiment: c.report!.sentiment }));
+  const rows = history.map(c => `<tr>
+    <td>${runLink(c.runId, formatTime(c.createdAt))}</td>
+    ${c.report
+      ? SLOTS.map(([slot]) => `<td>${tradeCell(c.report!, slot)}</td>`).join("") + `<td>${sentimentCell(c.report.sentiment.shortTermSentiment)}</td>`
+      : `<td colspan="5" class="failed">${escapeHtml(c.error || "No recommendation")}</td>`}
+  </tr>`);
+
+  return layout(coinName(symbol), `
+    <h2>Coin news sentiment</h2>
+    ${sentimentChart(points)}
+    <h2>History</h2>
+    ${rows.length
+      ? `<table><tr><th>Run</th>${SLOTS.map(([, label]) => `<th>${label}</th>`).join("")}<th>Coin news</th></tr>${rows.join("")}</table>`
+      : `<p class="muted">${escapeHtml(symbol)} has not been analyzed yet.</p>`}
+  `);
+}
+
+export function renderNotFoundPage(message: string): string {
+  return layout("Not found", `<p class="muted">${escapeHtml(message)}</p>`);
+}
@@ -0,0 +1,186 @@
+// =====================================
+// ===== DIGEST REPORT
+// ===== Purpose: Condense the coins of a run into one overview ranked by setup strength
+// =====================================
+
+import {
+  CoinReport,
+  Notification,
+  RecommendationSlot,
+  SentimentJSON,
+  TelegramInlineButton,
+} from '../types';
+import { DIGEST_TOP_SETUPS, DIGEST_BUTTONS_PER_ROW, TELEGRAM_CALLBACK_COIN } from '../config/constants';
+import { escapeHtml, joinHtmlLines, formatDateForHeader, splitSymbol } from './helpers';
+
+interface Setup {
+  slot: RecommendationSlot;
+  label: string;        // e.g. "long 3x short term"
+  entry: number;
+  stopLoss: number;
+  takeProfit: number;
+  rewardRisk: number;
+}
+
+interface RankedCoin {
+  report: CoinReport;
+  best: Setup | null;   // null when every trade is a hold or failed the guardrails
+}
+
+const SLOTS: RecommendationSlot[] = ["leveraged.shortTerm", "leveraged.longTerm", "spot.shortTerm", "spot.longTerm"];
+
+function horizonLabel(slot: RecommendationSlot): string {
+  return slot.endsWith("shortTerm") ? "short term" : "long term";
+}
+
+// Trades that passed the guardrails, with their reward/risk
+function setups(report: CoinReport): Setup[] {
+  const rejected = new Set(report.violations.map(v => v.slot));
+  const { spot, leveraged } = report.recommendation;
+  const out: Setup[] = [];
+  for (const slot of SLOTS) {
+    if (rejected.has(slot)) continue;
+    const [market, horizon] = slot.split(".") as ["spot" | "leveraged", "shortTerm" | "longTerm"];
+    const trade = market === "spot" ? spot[horizon] : leveraged[horizon];
+    const label = market === "spot"
+      ? `spot ${spot[horizon].action}`
+      : `${leveraged[horizon].position} ${leveraged[horizon].leverage}x`;
+    if (trade.entry === null || trade.stopLoss === null || trade.takeProfit === null) continue;
+    const risk = Math.abs(trade.entry - trade.stopLoss);
+    if (risk === 0) continue;
+    out.push({
+      slot,
+      label: `${label} ${horizonLabel(slot)}`,
+      entry: trade.entry,
+      stopLoss: trade.stopLoss,
+      takeProfit: trade.takeProfit,
+      rewardRisk: Math.abs(trade.takeProfit - trade.entry) / risk,
+    });
+  }
+  return out;
+}
+
+// Strongest setup first: coins rank by their best reward/risk; coins without a tradeable setup go last
+function rankCoinReports(reports: CoinReport[]): RankedCoin[] {
+  return reports
+    .map(report => ({
+      report,
+      best: setups(report).reduce<Setup | null>((best, s) => (!best || s.rewardRisk > best.rewardRisk ? s : best), null),
+    }))
+    .sort((a, b) => (b.best?.rewardRisk ?? -1) - (a.best?.rewardRisk ?? -1));
+}
+
+function coinName(symbol: string): string {
+  return splitSymbol(symbol).base;
+}
+
+function formatSentiment(s: SentimentJSON): string {
+  const part = (p: SentimentJSON["shortTermSentiment"]) => `${p.category} (${p.score.toFixed(2)})`;
+  return `short term ${part(s.shortTermSentiment)} · long term ${part(s.longTermSentiment)}`;
+}
+
+function formatSetup(rank: number, coin: RankedCoin): string {
+  const s = coin.best!;
+  return `${rank}. ${coinName(coin.report.symbol)} ${s.label}: entry ${s.entry}, SL ${s.stopLoss}, TP ${s.takeProfit} ` +
+    `(R/R ${s.rewardRisk.toFixed(1)})`;
+}
+
+// Monospace table of every coin: spot actions, leveraged positions per horizon, coin news score and best R/R
+function overviewTable(ranked: RankedCoin[]): string {
+  const rows = ranked.map(({ report, best }) => {
+    const rejected = new Set(report.violations.map(v => v.slot));
+    const { spot, leveraged } = report.recommendation;
+    const cell = (slot: RecommendationSlot, text: string) => (rejected.has(slot) ? "rej" : text);
+    const score = report.sentiment.shortTermSentiment.score;
+    return [
+      coinName(report.symbol),
+      `${cell("spot.shortTerm", spot.shortTerm.action)}/${cell("spot.longTerm", spot.longTerm.action)}`,
+      cell("leveraged.shortTerm", `${leveraged.shortTerm.position} ${leveraged.shortTerm.leverage}x`),
+      cell("leveraged.longTerm", `${leveraged.longTerm.position} ${leveraged.longTerm.leverage}x`),
+      `${score > 0 ? "+" : ""}${score.toFixed(1)}`,
+      best ? best.rewardRisk.toFixed(1) : "-",
+    ];
+  });
+  const all = [["COIN", "SPOT ST/LT", "LEV ST", "LEV LT", "NEWS", "R/R"], ...rows];
+  const widths = all[0].map((_, col) => Math.max(...all.map(r => r[col].length)));
+  return all.map(r => r.map((c, col) => c.padEnd(widths[col])).join(" ").trimEnd()).join("\n");
+}
+
+// One button per coin; the bot answers with that coin's full report and charts
+function detailButtons(runId: string, ranked: RankedCoin[]): TelegramInlineButton[][] {
+  const buttons = ranked.map(({ report }) => ({
+    text: coinName(report.symbol),
+    callback_data: `${TELEGRAM_CALLBACK_COIN}:${runId}:${report.symbol}`,
+  }));
+  const rows: TelegramInlineButton[][] = [];
+  for (let i = 0; i < buttons.length; i += DIGEST_BUTTONS_PER_ROW) rows.push(buttons.slice(i, i + DIGEST_BUTTONS_PER_ROW));
+  return rows;
+}
+
+export function digestNotification(
+  runId: string,
+  reports: CoinReport[],
+  run: {
+    sentiment: SentimentJSON;
+    failedCoins: string[];
+    skippedCoins: string[];
+    newsError: string | null;  // Set when the run had no market news
+    usage: string;
+    withButtons: boolean;    // Details can only be looked up when the run is stored
+  },
+  date = new Date()
+): Notification {
+  const ranked = rankCoinReports(reports);
+  const top = ranked.filter(c => c.best).slice(0, DIGEST_TOP_SETUPS).map((c, idx) => formatSetup(idx + 1, c));
+  const table = overviewTable(ranked);
+  const problems = [
+    run.failedCoins.length ? `Failed: ${run.failedCoins.join(", ")}` : "",
+    run.skippedCoins.length ? `Skipped (LLM budget): ${run.skippedCoins.join(", ")}` : "",
+    run.newsError ? `No market news (${run.newsError}), neutral market sentiment used` : "",
+  ].filter(Boolean);
+
+  const html = joinHtmlLines([
+    `📊 <b>Market digest for ${formatDateForHeader(date)}</b>`,
+    ``,
+    `<b>Market sentiment:</b> ${escapeHtml(formatSentiment(run.sentiment))}`,
+    ``,
+    `<b>Strongest setups:</b>`,
+    ...(top.length ? top.map(escapeHtml) : ["None passed the guardrails."]),
+    ``,
+    `<pre>${escapeHtml(table)}</pre>`,
+    ...(problems.length ? [``, `⚠️ ${escapeHtml(problems.join(" · "))}`] : []),
+    ``,
+    `<i>LLM usage: ${escapeHtml(run.usage)}</i>`,
+    ...(run.withButtons ? [`Tap a coin for its full analysis and charts.`] : []),
+  ]);
+
+  return {
+    kind: "report",
+    level: "success",
+    title: `Market digest for ${formatDateForHeader(date)}`,
+    fields: [
+      { name: "Market sentiment", value: formatSentiment(run.sentiment) },
+      { name: "Analyzed", value: String(reports.length) },
+      ...(run.failedCoins.length ? [{ name: "Failed", value: run.failedCoins.join(", ") }] : []),
+      ...(run.skippedCoins.length ? [{ name: "Skipped (LLM budget)", value: run.skippedCoins.join(", ") }] : []),
+      ...(run.newsError ? [{ name: "Market news", value: `Unavailable (${run.newsError}), neutral market sentiment used` }] : []),
+      { name: "LLM usage", value: run.usage },
+    ],
+    sections: [
+      { heading: "Strongest setups", lines: top.length ? top : ["None passed the guardrails."] },
+      { heading: "Overview", lines: [table], code: true },
+    ],
+    timestamp: date.getTime(),
+    html,
+    buttons: run.withButtons ? detailButtons(runId, ranked) : undefined,
+    data: {
+      runId,
+      ranking: ranked.map(({ report, best }) => ({
+        symbol: report.symbol,
+        best: best && { slot: best.slot, rewardRisk: best.rewardRisk },
+        recommendation: report.recommendation,
+        violations: report.violations,
+      })),
+    },
+  };
+}
@@ -0,0 +1,113 @@
+// =====================================
+// ===== RECOMMENDATION GUARDRAILS
+// =====================================
+
+import {
+  AnalysisInput,
+  GuardrailLimits,
+  GuardrailViolation,
+  RecommendationSlot,
+  TradeRecommendation,
+} from '../types';
+import { horizonTimeframes } from './helpers';
+
+// Latest close across all fetched timeframes
+export function latestClose(input: AnalysisInput): number | null {
+  let latest: { timestamp: number; close: number } | null = null;
+  for (const tc of input.allCandles) {
+    for (const c of tc.candles) {
+      if (!latest || c.timestamp > latest.timestamp) {
+        latest = { timestamp: c.timestamp, close: parseFloat(c.close) };
+      }
+    }
+  }
+  return latest && Number.isFinite(latest.close) ? latest.close : null;
+}
+
+// ATR of the timeframe that drives the horizon bounds the entry distance
+function atrFor(input: AnalysisInput, horizon: "shortTerm" | "longTerm"): number | null {
+  if (!input.indicators.length) return null;
+  const timeframe = horizonTimeframes(input.indicators.map(i => i.timeframe))[horizon];
+  return input.indicators.find(i => i.timeframe === timeframe)?.atr14 ?? null;
+}
+
+// Check one trade's levels; `isLong` is the trade direction
+function checkLevels(
+  slot: RecommendationSlot,
+  isLong: boolean,
+  entry: number,
+  stopLoss: number,
+  takeProfit: number,
+  lastClose: number | null,
+  atr: number | null,
+  limits: GuardrailLimits,
+  out: GuardrailViolation[]
+): void {
+  const ordered = isLong
+    ? stopLoss < entry && entry < takeProfit
+    : takeProfit < entry && entry < stopLoss;
+  if (!ordered) {
+    out.push({
+      slot,
+      reason: isLong
+        ? `levels must satisfy stop-loss < entry < take-profit (got SL ${stopLoss}, entry ${entry}, TP ${takeProfit})`
+        : `levels must satisfy take-profit < entry < stop-loss (got TP ${takeProfit}, entry ${entry}, SL ${stopLoss})`,
+    });
+    return;
+  }
+
+  const risk = Math.abs(entry - stopLoss);
+  const reward = Math.abs(takeProfit - entry);
+  const rr = reward / risk;
+  if (rr < limits.minRewardRisk) {
+    out.push({ slot, reason: `reward/risk ${rr.toFixed(2)} is below the minimum ${limits.minRewardRisk}` });
+  }
+
+  // Entry must be close to the market: within the % limit or within N ATR
+  if (lastClose !== null) {
+    const distance = Math.abs(entry - lastClose);
+    const pct = (distance / lastClose) * 100;
+    const withinPct = pct <= limits.maxEntryDistancePct;
+    const withinAtr = atr !== null && distance <= atr * limits.maxEntryDistanceAtr;
+    if (!withinPct && !withinAtr) {
+      out.push({
+        slot,
+        reason: `entry ${entry} is ${pct.toFixed(2)}% from the last close ${lastClose}` +
+          (atr !== null ? ` (${(distance / atr).toFixed(1)} ATR)` : "") +
+          `, limit is ${limits.maxEntryDistancePct}%` +
+          (atr !== null ? ` or ${limits.maxEntryDistanceAtr} ATR` : ""),
+      });
+    }
+  }
+}
+
+// Run all sanity checks against a validated recommendation
+export function checkRecommendation(
+  rec: TradeRecommendation,
+  input: AnalysisInput,
+  limits: GuardrailLimits
+): GuardrailViolation[] {
+  const violations: GuardrailViolation[] = [];
+  const lastClose = latestClose(input);
+
+  for (const horizon of ["shortTerm", "longTerm"] as const) {
+    const spot = rec.spot[horizon];
+    if (spot.action !== "hold" && spot.entry !== null && spot.stopLoss !== null && spot.takeProfit !== null) {
+      checkLevels(
+        `spot.${horizon}`, spot.action === "buy", spot.entry, spot.stopLoss, spot.takeProfit,
+        lastClose, atrFor(input, horizon), limits, violations
+      );
+    }
+
+    const lev = rec.leveraged[horizon];
+    if (lev.leverage > limits.maxLeverage) {
+      violations.push({ slot: `leveraged.${horizon}`, reason: `leverage ${lev.leverage}x exceeds the maximum ${limits.maxLeverage}x` });
+    }
+    checkLevels(
+      `leveraged.${horizon}`, lev.position === "long", lev.entry, lev.stopLoss, lev.takeProfit,
+      lastClose, atrFor(input, horizon), limits, violations
+    );
+  }
+
+  return violations;
+}
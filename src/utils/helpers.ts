@@ -2,27 +2,72 @@
 // ===== UTILITY HELPERS
 // =====================================
 
-import { Env } from '../types';
-import { DEFAULT_SYMBOLS, TIMEFRAME_MS } from '../config/constants';
+import {
+  Env,
+  LogLevel,
+  GuardrailLimits,
+  ExchangeId,
+  TimeframeId,
+  TimeframeProfile,
+  TIMEFRAMES,
+  NotificationKind,
+  NotifierId,
+  NewsSourceId,
+  LLMProviderId,
+  LLMStep,
+  LLMTarget,
+  HttpSettings,
+  HttpRequestOptions,
+  LLMPrice,
+  ApiKey,
+  ApiScope,
+  API_SCOPES,
+} from '../types';
+import {
+  DEFAULT_SYMBOLS,
+  PAIRS_SUFFIX,
+  DEFAULT_EXCHANGE,
+  DEFAULT_EXCHANGE_FALLBACKS,
+  EXCHANGE_IDS,
+  NOTIFIER_IDS,
+  DEFAULT_NOTIFY_ROUTE,
+  COIN_ALIASES,
+  NEWS_SOURCE_IDS,
+  NEWS_SOURCE_WEIGHTS,
+  LLM_PROVIDER_IDS,
+  DEFAULT_LLM_PROVIDER,
+  LLM_DEFAULT_MODELS,
+  LLM_PRICES,
+  DEFAULT_PROMPT_VERSION,
+  TIMEFRAME_PROFILES,
+  DEFAULT_TIMEFRAME_PROFILE,
+  INDICATOR_LOOKBACK,
+  MAX_LOOKBACK,
+  TIMEFRAME_MS,
+  DEFAULT_MAX_CONCURRENT_REQUESTS,
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  DEFAULT_CACHE_TTL_SECONDS,
+  LLM_REQUEST_TIMEOUT_MS,
+  DEFAULT_MAX_LEVERAGE,
+  DEFAULT_MIN_REWARD_RISK,
+  DEFAULT_MAX_ENTRY_DISTANCE_PCT,
+  DEFAULT_MAX_ENTRY_DISTANCE_ATR,
+  DEFAULT_RATE_LIMIT_PER_KEY,
+  DEFAULT_RATE_LIMIT_PER_IP
+} from '../config/constants';
 
 // HTML utilities
 export function joinHtmlLines(lines: string[]): string {
   return lines.join("\n");
 }
 
-export function chunkForTelegram(html: string, maxLength: number): string[] {
-  if (html.length <= maxLength) return [html];
-  const chunks: string[] = [];
-  let start = 0;
-  while (start < html.length) {
-    let end = Math.min(start + maxLength, html.length);
-    // Try to split at a line break to avoid cutting tags
-    const lastBreak = html.lastIndexOf("\n", end);
-    if (lastBreak > start + 200) end = lastBreak;
-    chunks.push(html.slice(start, end));
-    start = end;
-  }
-  return chunks;
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// Cut text to a channel's field limit, marking the cut with an ellipsis
+export function truncate(text: string, max: number): string {
+  return text.length <= max ? text : text.slice(0, Math.max(0, max - 1)) + "…";
 }
 
 // Date formatting
@@ -47,7 +92,319 @@ export function buildSymbolList(env: Env): string[] {
   return DEFAULT_SYMBOLS;
 }
 
+// Split an internal pair name (BTCUSDT) into base and quote
+export function splitSymbol(symbol: string): { base: string; quote: string } {
+  return symbol.endsWith(PAIRS_SUFFIX)
+    ? { base: symbol.slice(0, -PAIRS_SUFFIX.length), quote: PAIRS_SUFFIX }
+    : { base: symbol, quote: "" };
+}
+
+function toExchangeId(value: string | undefined): ExchangeId | null {
+  const id = (value || "").trim().toLowerCase();
+  return (EXCHANGE_IDS as readonly string[]).includes(id) ? id as ExchangeId : null;
+}
+
+// Exchanges to try for a symbol: per-symbol override or default first, then the fallbacks
+export function exchangeOrder(env: Env, symbol: string): ExchangeId[] {
+  const { base } = splitSymbol(symbol);
+  let primary = toExchangeId(env.EXCHANGE) || DEFAULT_EXCHANGE as ExchangeId;
+
+  for (const entry of (env.EXCHANGE_OVERRIDES || "").split(",")) {
+    const [coin, exchange] = entry.split(":").map(s => s.trim().toUpperCase());
+    const id = toExchangeId(exchange);
+    if (id && (coin === base || coin === symbol)) primary = id;
+  }
+
+  const fallbacks = env.EXCHANGE_FALLBACKS !== undefined
+    ? env.EXCHANGE_FALLBACKS.split(",").map(toExchangeId).filter((id): id is ExchangeId => id !== null)
+    : DEFAULT_EXCHANGE_FALLBACKS as ExchangeId[];
+
+  return [primary, ...fallbacks.filter(id => id !== primary)]
+    .filter((id, idx, arr) => arr.indexOf(id) === idx);
+}
+
+function toTimeframeProfile(value: unknown): TimeframeProfile | null {
+  const raw = value as { timeframes?: unknown; lookback?: unknown } | null;
+  if (!raw || !Array.isArray(raw.timeframes)) return null;
+  const timeframes = raw.timeframes
+    .filter((tf): tf is TimeframeId => (TIMEFRAMES as readonly string[]).includes(tf))
+    .sort((a, b) => TIMEFRAME_MS[a] - TIMEFRAME_MS[b]);
+  if (!timeframes.length) return null;
+  const lookback = typeof raw.lookback === "number" && raw.lookback > 0
+    ? Math.min(Math.floor(raw.lookback), MAX_LOOKBACK)
+    : INDICATOR_LOOKBACK;
+  return { timeframes: [...new Set(timeframes)], lookback };
+}
+
+// Built-in profiles merged with any defined in TIMEFRAME_PROFILES (invalid entries are ignored)
+export function timeframeProfiles(env: Env): Record<string, TimeframeProfile> {
+  let custom: Record<string, unknown> = {};
+  try {
+    custom = env.TIMEFRAME_PROFILES ? JSON.parse(env.TIMEFRAME_PROFILES) : {};
+  } catch {
+    custom = {};
+  }
+
+  const profiles: Record<string, TimeframeProfile> = {};
+  for (const [name, value] of Object.entries({ ...TIMEFRAME_PROFILES, ...custom })) {
+    const profile = toTimeframeProfile(value);
+    if (profile) profiles[name.toLowerCase()] = profile;
+  }
+  return profiles;
+}
+
+// Profile for a symbol: SYMBOL_PROFILES override, else TIMEFRAME_PROFILE, else the built-in default
+export function timeframeProfile(env: Env, symbol: string): TimeframeProfile {
+  const profiles = timeframeProfiles(env);
+  const { base } = splitSymbol(symbol);
+  let name = (env.TIMEFRAME_PROFILE || DEFAULT_TIMEFRAME_PROFILE).trim().toLowerCase();
+
+  for (const entry of (env.SYMBOL_PROFILES || "").split(",")) {
+    const [coin, profile] = entry.split(":").map(s => s.trim());
+    if (profile && (coin.toUpperCase() === base || coin.toUpperCase() === symbol)) name = profile.toLowerCase();
+  }
+
+  return profiles[name] || profiles[DEFAULT_TIMEFRAME_PROFILE];
+}
+
+// Timeframes that drive each horizon: short-term uses the second-shortest, long-term the longest
+export function horizonTimeframes(timeframes: TimeframeId[]): { shortTerm: TimeframeId; longTerm: TimeframeId } {
+  const sorted = [...timeframes].sort((a, b) => TIMEFRAME_MS[a] - TIMEFRAME_MS[b]);
+  return {
+    shortTerm: sorted[Math.min(1, sorted.length - 1)],
+    longTerm: sorted[sorted.length - 1],
+  };
+}
+
 export function maxArticles(env: Env): number {
   const n = parseInt(env.MAX_ARTICLES || "", 10);
   return Number.isFinite(n) && n > 0 ? n : 25;
-}
\ No newline at end of file
+}
+
+export function maxConcurrentRequests(env: Env): number {
+  const n = parseInt(env.MAX_CONCURRENT_REQUESTS || "", 10);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_MAX_CONCURRENT_REQUESTS;
+}
+
+export function httpSettings(env: Env): HttpSettings {
+  const timeout = parseInt(env.REQUEST_TIMEOUT_MS || "", 10);
+  const ttl = parseInt(env.CACHE_TTL_SECONDS || "", 10);
+  return {
+    timeoutMs: Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_REQUEST_TIMEOUT_MS,
+    circuitBreaker: (env.ENABLE_CIRCUIT_BREAKER || "true").toLowerCase() !== "false",
+    cacheTtlSeconds: (env.ENABLE_CACHE || "true").toLowerCase() === "false"
+      ? 0
+      : Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_CACHE_TTL_SECONDS,
+  };
+}
+
+export function chartsEnabled(env: Env): boolean {
+  return (env.ENABLE_CHARTS || "true").toLowerCase() !== "false";
+}
+
+// LOG_LEVEL, falling back to info for unset or unknown values
+export function logLevel(env: Env): LogLevel {
+  const level = env.LOG_LEVEL?.toLowerCase();
+  return level === "debug" || level === "info" || level === "warn" || level === "error" ? level : "info";
+}
+
+// REPORT_MODE=digest replaces the per-coin reports of a run with one ranked overview
+export function digestMode(env: Env): boolean {
+  return env.REPORT_MODE?.toLowerCase() === "digest";
+}
+
+// Completions often take longer than ordinary requests, so LLM calls get at least LLM_REQUEST_TIMEOUT_MS
+export function llmHttpOptions(env: Env): HttpRequestOptions {
+  return { timeoutMs: Math.max(httpSettings(env).timeoutMs, LLM_REQUEST_TIMEOUT_MS) };
+}
+
+function positiveFloat(value: string | undefined, fallback: number): number {
+  const n = parseFloat(value || "");
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export function guardrailLimits(env: Env): GuardrailLimits {
+  return {
+    maxLeverage: positiveFloat(env.MAX_LEVERAGE, DEFAULT_MAX_LEVERAGE),
+    minRewardRisk: positiveFloat(env.MIN_REWARD_RISK, DEFAULT_MIN_REWARD_RISK),
+    maxEntryDistancePct: positiveFloat(env.MAX_ENTRY_DISTANCE_PCT, DEFAULT_MAX_ENTRY_DISTANCE_PCT),
+    maxEntryDistanceAtr: positiveFloat(env.MAX_ENTRY_DISTANCE_ATR, DEFAULT_MAX_ENTRY_DISTANCE_ATR),
+  };
+}
+
+// Channels a notification kind is routed to (NOTIFY_REPORTS / NOTIFY_ERRORS / NOTIFY_ALERTS, unknown ids are ignored)
+export function notifyRoute(env: Env, kind: NotificationKind): NotifierId[] {
+  const raw = kind === "error" ? env.NOTIFY_ERRORS : kind === "alert" ? env.NOTIFY_ALERTS : env.NOTIFY_REPORTS;
+  if (raw === undefined) return DEFAULT_NOTIFY_ROUTE as NotifierId[];
+  return raw.split(",")
+    .map(s => s.trim().toLowerCase())
+    .filter((id): id is NotifierId => (NOTIFIER_IDS as readonly string[]).includes(id))
+    .filter((id, idx, arr) => arr.indexOf(id) === idx);
+}
+
+// Names a coin goes by in the news: the ticker, built-in aliases and COIN_ALIASES overrides
+export function coinAliases(env: Env, coin: string): string[] {
+  const aliases = [coin, ...(COIN_ALIASES[coin] || [])];
+  for (const entry of (env.COIN_ALIASES || "").split(",")) {
+    const [ticker, names] = entry.split(":").map(s => s.trim());
+    if (ticker?.toUpperCase() === coin && names) {
+      aliases.push(...names.split("|").map(s => s.trim()).filter(Boolean));
+    }
+  }
+  return aliases.filter((a, idx) => aliases.findIndex(b => b.toLowerCase() === a.toLowerCase()) === idx);
+}
+
+// Enabled news sources (NEWS_SOURCES, unknown ids are ignored)
+export function newsSources(env: Env): NewsSourceId[] {
+  const raw = env.NEWS_SOURCES !== undefined ? env.NEWS_SOURCES.split(",") : [...NEWS_SOURCE_IDS];
+  return raw
+    .map(s => s.trim().toLowerCase())
+    .filter((id): id is NewsSourceId => (NEWS_SOURCE_IDS as readonly string[]).includes(id))
+    .filter((id, idx, arr) => arr.indexOf(id) === idx);
+}
+
+// Weight of a source's articles when merging (NEWS_SOURCE_WEIGHTS overrides the defaults)
+export function newsSourceWeight(env: Env, id: NewsSourceId): number {
+  for (const entry of (env.NEWS_SOURCE_WEIGHTS || "").split(",")) {
+    const [source, weight] = entry.split(":").map(s => s.trim().toLowerCase());
+    const n = parseFloat(weight);
+    if (source === id && Number.isFinite(n) && n >= 0) return n;
+  }
+  return NEWS_SOURCE_WEIGHTS[id] ?? 1;
+}
+
+// CSV env var as a trimmed list, or the defaults when unset
+export function csvList(value: string | undefined, fallback: string[]): string[] {
+  if (value === undefined) return fallback;
+  return value.split(",").map(s => s.trim()).filter(Boolean);
+}
+
+// Price of a model: LLM_PRICES (JSON) over the built-in table, exact match first, then the longest prefix
+export function llmPrice(env: Env, model: string): LLMPrice | null {
+  let custom: Record<string, Partial<LLMPrice>> = {};
+  try {
+    custom = env.LLM_PRICES ? JSON.parse(env.LLM_PRICES) : {};
+  } catch {
+    custom = {};
+  }
+
+  const prices: Record<string, LLMPrice> = { ...LLM_PRICES };
+  for (const [name, value] of Object.entries(custom)) {
+    const input = Number(value?.input);
+    const output = Number(value?.output);
+    if (Number.isFinite(input) && Number.isFinite(output)) prices[name.toLowerCase()] = { input, output };
+  }
+
+  const key = model.toLowerCase();
+  if (prices[key]) return prices[key];
+  const prefix = Object.keys(prices)
+    .filter(k => key.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+// LLM_DAILY_BUDGET_USD as a number, null when unset or invalid
+export function dailyBudgetUsd(env: Env): number | null {
+  const n = parseFloat(env.LLM_DAILY_BUDGET_USD || "");
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function llmProviderId(value: string | undefined): LLMProviderId | null {
+  const id = (value || "").trim().toLowerCase();
+  return (LLM_PROVIDER_IDS as readonly string[]).includes(id) ? id as LLMProviderId : null;
+}
+
+// Provider and model for an LLM step, then the fallback (LLM_PROVIDER_* / LLM_MODEL_* / LLM_FALLBACK_*).
+// GEMINI_MODEL_* still applies whenever Gemini serves the step.
+export function llmTargets(env: Env, step: LLMStep): LLMTarget[] {
+  const geminiModel = step === "agent" ? env.GEMINI_MODEL_AGENT : env.GEMINI_MODEL_SENTIMENT;
+  const modelFor = (provider: LLMProviderId, configured: string | undefined) =>
+    configured || (provider === "gemini" ? geminiModel : undefined) || LLM_DEFAULT_MODELS[provider];
+
+  const provider = llmProviderId(step === "agent" ? env.LLM_PROVIDER_AGENT : env.LLM_PROVIDER_SENTIMENT)
+    || DEFAULT_LLM_PROVIDER as LLMProviderId;
+  const targets: LLMTarget[] = [
+    { provider, model: modelFor(provider, step === "agent" ? env.LLM_MODEL_AGENT : env.LLM_MODEL_SENTIMENT) },
+  ];
+
+  const fallback = llmProviderId(env.LLM_FALLBACK_PROVIDER);
+  if (fallback) {
+    const model = modelFor(fallback, env.LLM_FALLBACK_MODEL);
+    if (fallback !== provider || model !== targets[0].model) targets.push({ provider: fallback, model });
+  }
+  return targets;
+}
+
+// Prompt versions configured for a step (PROMPT_VERSION_*); more than one means A/B testing
+export function promptVersions(env: Env, step: LLMStep): string[] {
+  const versions = csvList(step === "agent" ? env.PROMPT_VERSION_AGENT : env.PROMPT_VERSION_SENTIMENT, []);
+  return versions.length ? versions.filter((v, idx) => versions.indexOf(v) === idx) : [DEFAULT_PROMPT_VERSION];
+}
+
+// FNV-1a, used for stable bucketing
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Version for a step: the run (PROMPT_AB_SPLIT=run) or each coin of the run lands in a stable bucket.
+// Without a coin (the run-wide market sentiment) the run decides.
+export function selectPromptVersion(env: Env, step: LLMStep, runId: string, coin?: string): string {
+  const versions = promptVersions(env, step);
+  if (versions.length === 1) return versions[0];
+  const key = env.PROMPT_AB_SPLIT?.toLowerCase() === "run" || !coin ? runId : `${runId}:${coin}`;
+  return versions[hashString(`${step}:${key}`) % versions.length];
+}
+
+// Compare secrets without leaking where the first mismatch is through timing
+export function constantTimeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  return diff === 0;
+}
+
+// Hex HMAC-SHA256 of `message`
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return [...new Uint8Array(signature)].map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+// API_KEYS (JSON by key id) as keys with known scopes; entries without a secret or a valid scope are ignored
+export function apiKeys(env: Env): ApiKey[] {
+  let raw: Record<string, { secret?: unknown; scopes?: unknown }> = {};
+  try {
+    raw = env.API_KEYS ? JSON.parse(env.API_KEYS) : {};
+  } catch {
+    raw = {};
+  }
+  if (!raw || typeof raw !== "object") return [];
+
+  return Object.entries(raw).flatMap(([id, value]) => {
+    const secret = typeof value?.secret === "string" ? value.secret : "";
+    const scopes = (Array.isArray(value?.scopes) ? value.scopes : [])
+      .filter((s): s is ApiScope => (API_SCOPES as readonly unknown[]).includes(s));
+    return secret && scopes.length ? [{ id, secret, scopes }] : [];
+  });
+}
+
+// Requests per window allowed per API key and per client IP (RATE_LIMIT_PER_KEY / RATE_LIMIT_PER_IP)
+export function rateLimits(env: Env): { perKey: number; perIp: number } {
+  const limit = (value: string | undefined, fallback: number) => {
+    const n = parseInt(value || "", 10);
+    return Number.isFinite(n) && n > 0 ? n : fallback;
+  };
+  return {
+    perKey: limit(env.RATE_LIMIT_PER_KEY, DEFAULT_RATE_LIMIT_PER_KEY),
+    perIp: limit(env.RATE_LIMIT_PER_IP, DEFAULT_RATE_LIMIT_PER_IP),
+  };
+}
@@ -2,30 +2,51 @@
 // ===== HTTP UTILITIES
 // =====================================
 
-import { Logger } from '../types';
+import { Env, Logger, UpstreamId, CircuitState, CircuitBreakerState, HttpRequestOptions } from '../types';
+import {
+  UPSTREAM_RATE_LIMITS,
+  HTTP_RETRIABLE_STATUSES,
+  HTTP_MAX_RETRY_AFTER_MS,
+  CIRCUIT_BREAKER_THRESHOLD,
+  CIRCUIT_BREAKER_RESET_MS,
+  CIRCUIT_BREAKER_STATE_TTL_SECONDS,
+} from '../config/constants';
+import { httpSettings } from './helpers';
 
 // Utility function for sleeping
 export const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
-// Circuit Breaker implementation
+// Circuit Breaker implementation (state can be restored from and exported to a store)
 export class CircuitBreaker {
   private failures = 0;
   private lastFailureTime = 0;
-  private state: 'CLOSED' | 'OPEN' | 'HALF_OPEN' = 'CLOSED';
+  private state: CircuitState = 'CLOSED';
   private readonly failureThreshold: number;
   private readonly resetTimeout: number;
+  private readonly name: string;
 
-  constructor(failureThreshold = 5, resetTimeout = 60000) {
+  constructor(failureThreshold = 5, resetTimeout = 60000, saved?: CircuitBreakerState, name = "") {
     this.failureThreshold = failureThreshold;
     this.resetTimeout = resetTimeout;
+    this.name = name;
+    if (saved) {
+      this.state = saved.state;
+      this.failures = saved.failures;
+      this.lastFailureTime = saved.lastFailureTime;
+    }
+  }
+
+  get snapshot(): CircuitBreakerState {
+    return { state: this.state, failures: this.failures, lastFailureTime: this.lastFailureTime };
   }
 
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
+  // Errors for which isFailure returns false (e.g. a 404) pass through without counting
+  async execute<T>(fn: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
     if (this.state === 'OPEN') {
       if (Date.now() - this.lastFailureTime > this.resetTimeout) {
         this.state = 'HALF_OPEN';
       } else {
-        throw new Error('Circuit breaker is OPEN');
+        throw new Error(this.name ? `Circuit breaker for ${this.name} is OPEN` : 'Circuit breaker is OPEN');
       }
     }
 
@@ -34,7 +55,7 @@ export class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      if (isFailure(error)) this.onFailure();
       throw error;
     }
   }
@@ -65,51 +86,208 @@ export class RateLimiter {
     this.windowMs = windowMs;
   }
 
+  // Check and record in one synchronous step so concurrent callers can't take the same slot
   async waitForSlot(): Promise<void> {
-    const now = Date.now();
-    this.requests = this.requests.filter(time => now - time < this.windowMs);
-    
-    if (this.requests.length >= this.maxRequests) {
-      const oldestRequest = this.requests[0];
-      const waitTime = this.windowMs - (now - oldestRequest);
-      if (waitTime > 0) {
-        await sleep(waitTime);
+    for (;;) {
+      const now = Date.now();
+      this.requests = this.requests.filter(time => now - time < this.windowMs);
+      if (this.requests.length < this.maxRequests) {
+        this.requests.push(now);
+        return;
       }
+      await sleep(Math.max(this.windowMs - (now - this.requests[0]), 1));
     }
-    
-    this.requests.push(now);
   }
 }
 
-// Enhanced fetchWithRetry with better error handling and exponential backoff
+// One limiter per upstream, shared by every coin and timeframe of the isolate
+const upstreamLimiters = new Map<UpstreamId, RateLimiter>();
+
+export function upstreamLimiter(id: UpstreamId): RateLimiter {
+  let limiter = upstreamLimiters.get(id);
+  if (!limiter) {
+    const { maxRequests, windowMs } = UPSTREAM_RATE_LIMITS[id];
+    limiter = new RateLimiter(maxRequests, windowMs);
+    upstreamLimiters.set(id, limiter);
+  }
+  return limiter;
+}
+
+// Run fn over items with at most `limit` in flight; results keep the order of items
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const idx = next++;
+      try {
+        results[idx] = { status: "fulfilled", value: await fn(items[idx], idx) };
+      } catch (reason) {
+        results[idx] = { status: "rejected", reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+}
+
+// Non-2xx response; only retriable statuses are retried and count against the host's breaker
+export class HttpError extends Error {
+  readonly status: number;
+  readonly retriable: boolean;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.retriable = HTTP_RETRIABLE_STATUSES.includes(status);
+  }
+}
+
+// Retry-After as seconds or an HTTP date
+function retryAfterMs(res: Response): number | null {
+  const value = res.headers.get("Retry-After");
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+// One breaker per host, restored from HTTP_STATE on first use in the isolate
+const hostBreakers = new Map<string, Promise<CircuitBreaker>>();
+
+function hostBreaker(env: Env, logger: Logger, host: string): Promise<CircuitBreaker> {
+  let breaker = hostBreakers.get(host);
+  if (!breaker) {
+    breaker = (async () => {
+      let saved: CircuitBreakerState | null = null;
+      try {
+        saved = await env.HTTP_STATE?.get<CircuitBreakerState>(`breaker:${host}`, "json") ?? null;
+      } catch (error) {
+        logger.warn("Failed to load circuit breaker state", { host, error: String(error) });
+      }
+      return new CircuitBreaker(CIRCUIT_BREAKER_THRESHOLD, CIRCUIT_BREAKER_RESET_MS, saved ?? undefined, host);
+    })();
+    hostBreakers.set(host, breaker);
+  }
+  return breaker;
+}
+
+// Persist state changes only (opening, closing), which keeps KV writes rare
+async function saveBreakerState(env: Env, logger: Logger, host: string, before: CircuitState, breaker: CircuitBreaker): Promise<void> {
+  const state = breaker.snapshot;
+  if (state.state === before) return;
+  logger.warn(`Circuit breaker for ${host} is ${state.state}`, { host, ...state });
+  if (!env.HTTP_STATE) return;
+  try {
+    await env.HTTP_STATE.put(`breaker:${host}`, JSON.stringify(state), { expirationTtl: CIRCUIT_BREAKER_STATE_TTL_SECONDS });
+  } catch (error) {
+    logger.warn("Failed to save circuit breaker state", { host, error: String(error) });
+  }
+}
+
+// Cache API lookups and writes for GET responses (no-op outside Workers)
+async function cachedResponse(url: string): Promise<Response | undefined> {
+  if (typeof caches === "undefined") return undefined;
+  return caches.default.match(url);
+}
+
+async function cacheResponse(url: string, res: Response, ttlSeconds: number, logger: Logger): Promise<void> {
+  if (typeof caches === "undefined") return;
+  try {
+    const copy = new Response(res.clone().body, res);
+    copy.headers.delete("Set-Cookie");
+    copy.headers.set("Cache-Control", `max-age=${ttlSeconds}`);
+    await caches.default.put(url, copy);
+  } catch (error) {
+    logger.warn("Failed to cache response", { host: new URL(url).host, error: String(error) });
+  }
+}
+
+// One attempt with an AbortController timeout
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) throw new Error(`Request to ${new URL(url).host} timed out after ${timeoutMs}ms`);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// HTTP client: per-request timeout, retries with exponential backoff (or Retry-After) for network errors
+// and retriable statuses only, a circuit breaker per host and the Cache API for GET responses
 export async function fetchWithRetryEnhanced(
-  input: any, 
-  init: any, 
-  logger: Logger, 
-  attempts = 3, 
-  backoffMs = 500
-) {
-  let lastErr: any;
-  for (let i = 0; i < attempts; i++) {
-    try {
-      const res = await fetch(input, init);
-      if (!res.ok) {
+  env: Env,
+  url: string,
+  init: RequestInit,
+  logger: Logger,
+  attempts = 3,
+  backoffMs = 500,
+  options: HttpRequestOptions = {}
+): Promise<Response> {
+  const settings = httpSettings(env);
+  const host = new URL(url).host;
+  const timeoutMs = options.timeoutMs ?? settings.timeoutMs;
+  const cacheTtl = (init.method || "GET").toUpperCase() === "GET" && settings.cacheTtlSeconds > 0
+    ? options.cacheTtlSeconds ?? settings.cacheTtlSeconds
+    : 0;
+
+  if (cacheTtl > 0) {
+    const hit = await cachedResponse(url);
+    if (hit) {
+      logger.debug("HTTP cache hit", { host });
+      return hit;
+    }
+  }
+
+  const attemptAll = async (): Promise<Response> => {
+    let lastErr: unknown;
+    for (let i = 0; i < attempts; i++) {
+      let delay = backoffMs * Math.pow(2, i); // Exponential backoff
+      try {
+        const res = await fetchWithTimeout(url, init, timeoutMs);
+        if (res.ok) return res;
         const text = await res.text().catch(() => "");
-        throw new Error(`HTTP ${res.status}: ${text || res.statusText}`);
+        lastErr = new HttpError(res.status, `HTTP ${res.status}: ${text || res.statusText}`);
+        delay = retryAfterMs(res) ?? delay;
+      } catch (err) {
+        lastErr = err; // network error or timeout
       }
-      return res;
-    } catch (err) {
-      lastErr = err;
+      // Client errors and long Retry-After waits won't get better with a quick retry
+      if (lastErr instanceof HttpError && (!lastErr.retriable || delay > HTTP_MAX_RETRY_AFTER_MS)) throw lastErr;
       logger.warn(`fetchWithRetry attempt ${i + 1} failed`, { 
-        error: String(err), 
+        host,
+        error: String(lastErr), 
         attempt: i + 1,
         maxAttempts: attempts 
       });
-      if (i < attempts - 1) {
-        const delay = backoffMs * Math.pow(2, i); // Exponential backoff
-        await sleep(delay);
-      }
+      if (i < attempts - 1) await sleep(delay);
     }
+    throw lastErr;
+  };
+
+  let res: Response;
+  if (settings.circuitBreaker) {
+    const breaker = await hostBreaker(env, logger, host);
+    const before = breaker.snapshot.state;
+    try {
+      res = await breaker.execute(attemptAll, error => !(error instanceof HttpError) || error.retriable);
+    } finally {
+      await saveBreakerState(env, logger, host, before, breaker);
+    }
+  } else {
+    res = await attemptAll();
   }
-  throw lastErr;
+
+  if (cacheTtl > 0) await cacheResponse(url, res, cacheTtl, logger);
+  return res;
 }
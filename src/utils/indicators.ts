@@ -0,0 +1,247 @@
+// =====================================
+// ===== TECHNICAL INDICATORS
+// =====================================
+
+import { Candle, TimeframeCandles, TimeframeIndicators } from '../types';
+
+// Indicator periods
+const RSI_PERIOD = 14;
+const ATR_PERIOD = 14;
+const BOLLINGER_PERIOD = 20;
+const BOLLINGER_STDDEV = 2;
+const MACD_FAST = 12;
+const MACD_SLOW = 26;
+const MACD_SIGNAL = 9;
+const SWING_WINDOW = 5;
+
+// Keep numbers readable in the prompt without losing precision on low-priced coins
+function round(value: number | null): number | null {
+  if (value === null || !Number.isFinite(value)) return null;
+  return Number(value.toPrecision(8));
+}
+
+function last<T>(values: T[]): T | null {
+  return values.length ? values[values.length - 1] : null;
+}
+
+// Simple moving average series (null until enough data)
+export function sma(values: number[], period: number): (number | null)[] {
+  const out: (number | null)[] = [];
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    out.push(i >= period - 1 ? sum / period : null);
+  }
+  return out;
+}
+
+// Exponential moving average series, seeded with the SMA of the first period
+export function ema(values: number[], period: number): (number | null)[] {
+  const out: (number | null)[] = [];
+  const k = 2 / (period + 1);
+  let prev: number | null = null;
+  for (let i = 0; i < values.length; i++) {
+    if (i < period - 1) {
+      out.push(null);
+      continue;
+    }
+    if (prev === null) {
+      prev = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+    } else {
+      prev = values[i] * k + prev * (1 - k);
+    }
+    out.push(prev);
+  }
+  return out;
+}
+
+// Relative Strength Index using Wilder's smoothing
+export function rsi(closes: number[], period = RSI_PERIOD): (number | null)[] {
+  const out: (number | null)[] = closes.map(() => null);
+  if (closes.length <= period) return out;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    if (change > 0) avgGain += change;
+    else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  const toRsi = () => (avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss));
+  out[period] = toRsi();
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    out[i] = toRsi();
+  }
+  return out;
+}
+
+// MACD line, signal line and histogram
+export function macd(
+  closes: number[],
+  fast = MACD_FAST,
+  slow = MACD_SLOW,
+  signal = MACD_SIGNAL
+): { macd: number; signal: number; histogram: number } | null {
+  const fastEma = ema(closes, fast);
+  const slowEma = ema(closes, slow);
+  const macdLine: number[] = [];
+  for (let i = 0; i < closes.length; i++) {
+    const f = fastEma[i];
+    const s = slowEma[i];
+    if (f !== null && s !== null) macdLine.push(f - s);
+  }
+  const signalLine = last(ema(macdLine, signal));
+  const macdValue = last(macdLine);
+  if (macdValue === null || signalLine === null) return null;
+  return { macd: macdValue, signal: signalLine, histogram: macdValue - signalLine };
+}
+
+// Bollinger Bands over the last `period` closes
+export function bollinger(
+  closes: number[],
+  period = BOLLINGER_PERIOD,
+  multiplier = BOLLINGER_STDDEV
+): { upper: number; middle: number; lower: number; bandwidth: number } | null {
+  if (closes.length < period) return null;
+  const window = closes.slice(-period);
+  const middle = window.reduce((a, b) => a + b, 0) / period;
+  const variance = window.reduce((acc, v) => acc + (v - middle) ** 2, 0) / period;
+  const deviation = Math.sqrt(variance) * multiplier;
+  return {
+    upper: middle + deviation,
+    middle,
+    lower: middle - deviation,
+    bandwidth: middle === 0 ? 0 : (2 * deviation) / middle,
+  };
+}
+
+// Average True Range using Wilder's smoothing
+export function atr(highs: number[], lows: number[], closes: number[], period = ATR_PERIOD): number | null {
+  if (closes.length <= period) return null;
+  const trueRanges: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    trueRanges.push(Math.max(
+      highs[i] - lows[i],
+      Math.abs(highs[i] - closes[i - 1]),
+      Math.abs(lows[i] - closes[i - 1])
+    ));
+  }
+  let value = trueRanges.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  for (let i = period; i < trueRanges.length; i++) {
+    value = (value * (period - 1) + trueRanges[i]) / period;
+  }
+  return value;
+}
+
+// On-Balance Volume series
+export function obv(closes: number[], volumes: number[]): number[] {
+  const out: number[] = [];
+  let total = 0;
+  for (let i = 0; i < closes.length; i++) {
+    if (i > 0) {
+      if (closes[i] > closes[i - 1]) total += volumes[i];
+      else if (closes[i] < closes[i - 1]) total -= volumes[i];
+    }
+    out.push(total);
+  }
+  return out;
+}
+
+// Volume-weighted average price over the whole candle window
+export function vwap(highs: number[], lows: number[], closes: number[], volumes: number[]): number | null {
+  let pv = 0;
+  let vol = 0;
+  for (let i = 0; i < closes.length; i++) {
+    pv += ((highs[i] + lows[i] + closes[i]) / 3) * volumes[i];
+    vol += volumes[i];
+  }
+  return vol > 0 ? pv / vol : null;
+}
+
+// Swing levels: highs/lows that are the extreme of `window` candles on each side. Returns the nearest
+// `count` below the last close as support and above it as resistance, skipping levels within 0.3% of each other
+export function supportResistance(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  window = SWING_WINDOW,
+  count = 2
+): { support: number[]; resistance: number[] } {
+  const close = last(closes);
+  if (close === null) return { support: [], resistance: [] };
+
+  const pivots: number[] = [];
+  for (let i = window; i < highs.length - window; i++) {
+    const around = (values: number[]) => values.slice(i - window, i + window + 1);
+    if (highs[i] === Math.max(...around(highs))) pivots.push(highs[i]);
+    if (lows[i] === Math.min(...around(lows))) pivots.push(lows[i]);
+  }
+
+  const pick = (levels: number[]) => {
+    const out: number[] = [];
+    for (const level of levels) {
+      if (out.length < count && out.every(l => Math.abs(l - level) / close > 0.003)) out.push(level);
+    }
+    return out;
+  };
+  return {
+    support: pick(pivots.filter(p => p < close).sort((a, b) => b - a)),
+    resistance: pick(pivots.filter(p => p > close).sort((a, b) => a - b)),
+  };
+}
+
+// Compute the full indicator snapshot for one timeframe (candles must be oldest first)
+export function computeIndicators(tf: TimeframeCandles): TimeframeIndicators {
+  const candles: Candle[] = tf.candles;
+  const closes = candles.map(c => parseFloat(c.close));
+  const highs = candles.map(c => parseFloat(c.high));
+  const lows = candles.map(c => parseFloat(c.low));
+  const volumes = candles.map(c => parseFloat(c.volume));
+
+  const macdValue = macd(closes);
+  const bands = bollinger(closes);
+  const obvSeries = obv(closes, volumes);
+  const obvLookback = Math.min(10, obvSeries.length - 1);
+
+  return {
+    timeframe: tf.timeframe,
+    candleCount: candles.length,
+    lastClose: round(last(closes)),
+    sma20: round(last(sma(closes, 20))),
+    sma50: round(last(sma(closes, 50))),
+    ema12: round(last(ema(closes, 12))),
+    ema26: round(last(ema(closes, 26))),
+    ema50: round(last(ema(closes, 50))),
+    rsi14: round(last(rsi(closes))),
+    macd: macdValue && {
+      macd: round(macdValue.macd)!,
+      signal: round(macdValue.signal)!,
+      histogram: round(macdValue.histogram)!,
+    },
+    bollinger: bands && {
+      upper: round(bands.upper)!,
+      middle: round(bands.middle)!,
+      lower: round(bands.lower)!,
+      bandwidth: round(bands.bandwidth)!,
+    },
+    atr14: round(atr(highs, lows, closes)),
+    obv: round(last(obvSeries)),
+    obvChange10: obvLookback > 0
+      ? round(obvSeries[obvSeries.length - 1] - obvSeries[obvSeries.length - 1 - obvLookback])
+      : null,
+    vwap: round(vwap(highs, lows, closes, volumes)),
+  };
+}
+
+// Compute indicators for every fetched timeframe
+export function computeAllIndicators(allCandles: TimeframeCandles[]): TimeframeIndicators[] {
+  return allCandles.map(computeIndicators);
+}
@@ -0,0 +1,125 @@
+// =====================================
+// ===== NEWS RELEVANCE SCORING
+// ===== Purpose: Rank articles and collapse near-duplicate stories
+// =====================================
+
+import { NewsArticle } from '../types';
+import {
+  NEWS_KEYWORD_WEIGHTS,
+  NEWS_SOURCE_REPUTATION,
+  NEWS_RECENCY_HALF_LIFE_HOURS,
+  NEWS_CLUSTER_SIMILARITY,
+} from '../config/constants';
+
+const STOPWORDS = new Set([
+  "the", "a", "an", "and", "or", "of", "to", "in", "on", "for", "as", "at", "by", "with", "from",
+  "is", "are", "was", "be", "its", "it", "this", "that", "after", "amid", "over", "new", "says",
+]);
+
+// Title words without stopwords, with a light plural strip so "ETFs" and "ETF" match
+export function titleTokens(title: string | null | undefined): Set<string> {
+  return new Set(
+    (title || "")
+      .toLowerCase()
+      .replace(/[^a-z0-9$%. ]+/g, " ")
+      .split(/\s+/)
+      .map(t => t.replace(/^\.+|\.+$/g, ""))
+      .filter(t => t.length > 1 && !STOPWORDS.has(t))
+      .map(t => (t.length > 3 && t.endsWith("s") && !t.endsWith("ss") ? t.slice(0, -1) : t))
+  );
+}
+
+// Jaccard overlap of title words (1 = same words)
+export function titleSimilarity(a: Set<string>, b: Set<string>): number {
+  if (!a.size || !b.size) return 0;
+  let shared = 0;
+  for (const t of a) if (b.has(t)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+const KEYWORD_PATTERNS = Object.entries(NEWS_KEYWORD_WEIGHTS).map(([word, weight]) => ({
+  pattern: new RegExp(`\\b${word.replace(/ /g, "\\s+")}s?\\b`, "i"),
+  weight,
+}));
+
+function keywordScore(text: string): number {
+  return KEYWORD_PATTERNS.reduce((sum, k) => sum + (k.pattern.test(text) ? k.weight : 0), 0);
+}
+
+// Topic relevance: title matches count double; crypto-native sources (and `base`) add a floor
+export function topicScore(article: NewsArticle, base = 0): number {
+  const body = [article.description, article.snippet, article.keywords].filter(Boolean).join(" ");
+  const native = article.origin && article.origin !== "thenewsapi" ? 1 : 0;
+  return base + native + 2 * keywordScore(article.title || "") + keywordScore(body);
+}
+
+function reputationOf(article: NewsArticle): number {
+  let host = (article.source || "").toLowerCase();
+  try {
+    if (article.url) host = new URL(article.url).hostname.toLowerCase();
+  } catch {
+    // keep the source field
+  }
+  host = host.replace(/^www\./, "");
+  const match = Object.keys(NEWS_SOURCE_REPUTATION).find(d => host === d || host.endsWith(`.${d}`));
+  return match ? NEWS_SOURCE_REPUTATION[match] : 1;
+}
+
+// Exponential decay by age; undated articles are treated as a day old
+export function recencyFactor(article: NewsArticle, now = Date.now()): number {
+  const published = Date.parse(article.published_at || "");
+  const ageHours = Number.isFinite(published) ? Math.max(0, (now - published) / 3600000) : 24;
+  return Math.pow(0.5, ageHours / NEWS_RECENCY_HALF_LIFE_HOURS);
+}
+
+// Overall relevance; articles with no topical signal score 0
+export function scoreArticle(article: NewsArticle, now = Date.now(), base = 0): number {
+  const topic = topicScore(article, base);
+  if (topic <= 0) return 0;
+  return topic * reputationOf(article) * (article.weight ?? 1) * recencyFactor(article, now);
+}
+
+export interface NewsCluster {
+  representative: NewsArticle;
+  members: NewsArticle[];
+  score: number;
+}
+
+// Group near-duplicate stories by title similarity; the best-scored article represents each cluster
+export function clusterArticles(articles: NewsArticle[], now = Date.now(), base = 0): NewsCluster[] {
+  const scored = articles
+    .map(article => ({ article, score: scoreArticle(article, now, base), tokens: titleTokens(article.title) }))
+    .sort((a, b) => b.score - a.score);
+
+  const clusters: (NewsCluster & { tokens: Set<string>[] })[] = [];
+  for (const item of scored) {
+    const cluster = clusters.find(c => c.tokens.some(t => titleSimilarity(t, item.tokens) >= NEWS_CLUSTER_SIMILARITY));
+    if (cluster) {
+      cluster.members.push(item.article);
+      cluster.tokens.push(item.tokens);
+    } else {
+      clusters.push({ representative: item.article, members: [item.article], score: item.score, tokens: [item.tokens] });
+    }
+  }
+
+  // A story picked up by several outlets is worth a little more than a single report
+  return clusters
+    .map(({ representative, members, score }) => ({
+      representative,
+      members,
+      score: score * (1 + 0.25 * Math.log2(members.length)),
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// Most informative distinct stories first; irrelevant articles (score 0) are dropped.
+// `base` lifts articles already known to be on topic (e.g. tagged for a coin).
+export function rankArticles(articles: NewsArticle[], now = Date.now(), base = 0): NewsArticle[] {
+  return clusterArticles(articles, now, base)
+    .filter(c => c.score > 0)
+    .map(c => ({
+      ...c.representative,
+      relevance: Math.round(c.score * 1000) / 1000,
+      relatedCount: c.members.length - 1,
+    }));
+}
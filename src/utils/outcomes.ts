@@ -0,0 +1,75 @@
+// =====================================
+// ===== SIGNAL OUTCOME EVALUATION
+// =====================================
+
+import { Candle, SignalOutcome, TrackedSignal, TradeRecommendation, RecommendationSlot } from '../types';
+
+// Turn a recommendation into the tradeable signals worth tracking (spot "hold" is skipped)
+export function extractSignals(
+  rec: TradeRecommendation,
+  rejectedSlots: Set<RecommendationSlot>
+): Array<Pick<TrackedSignal, "slot" | "direction" | "entry" | "stopLoss" | "takeProfit" | "leverage" | "rejected">> {
+  const out: Array<Pick<TrackedSignal, "slot" | "direction" | "entry" | "stopLoss" | "takeProfit" | "leverage" | "rejected">> = [];
+  for (const horizon of ["shortTerm", "longTerm"] as const) {
+    const spot = rec.spot[horizon];
+    if (spot.action !== "hold" && spot.entry !== null && spot.stopLoss !== null && spot.takeProfit !== null) {
+      const slot: RecommendationSlot = `spot.${horizon}`;
+      out.push({
+        slot,
+        direction: spot.action === "buy" ? "long" : "short",
+        entry: spot.entry,
+        stopLoss: spot.stopLoss,
+        takeProfit: spot.takeProfit,
+        leverage: null,
+        rejected: rejectedSlots.has(slot),
+      });
+    }
+
+    const lev = rec.leveraged[horizon];
+    const slot: RecommendationSlot = `leveraged.${horizon}`;
+    out.push({
+      slot,
+      direction: lev.position,
+      entry: lev.entry,
+      stopLoss: lev.stopLoss,
+      takeProfit: lev.takeProfit,
+      leverage: lev.leverage,
+      rejected: rejectedSlots.has(slot),
+    });
+  }
+  return out;
+}
+
+// Walk candles (oldest first) after the signal was issued and decide whether the entry filled
+// and whether TP or SL was hit first. When SL and TP fall inside the same candle we assume SL
+// (the conservative reading, since intra-candle order is unknown).
+export function evaluateOutcome(
+  signal: Pick<TrackedSignal, "direction" | "entry" | "stopLoss" | "takeProfit" | "createdAt" | "status" | "filledAt">,
+  candles: Candle[],
+  expiryMs: number,
+  now = Date.now()
+): SignalOutcome {
+  const isLong = signal.direction === "long";
+  let filledAt = signal.filledAt;
+
+  for (const c of candles) {
+    if (c.timestamp < signal.createdAt) continue;
+    const high = parseFloat(c.high);
+    const low = parseFloat(c.low);
+
+    if (filledAt === null) {
+      if (low <= signal.entry && signal.entry <= high) filledAt = c.timestamp;
+      else continue;
+    }
+
+    const hitSl = isLong ? low <= signal.stopLoss : high >= signal.stopLoss;
+    const hitTp = isLong ? high >= signal.takeProfit : low <= signal.takeProfit;
+    if (hitSl) return { status: "sl", filledAt, closedAt: c.timestamp };
+    if (hitTp) return { status: "tp", filledAt, closedAt: c.timestamp };
+  }
+
+  if (now - signal.createdAt > expiryMs) {
+    return { status: "expired", filledAt, closedAt: now };
+  }
+  return { status: filledAt === null ? "pending" : "open", filledAt, closedAt: null };
+}
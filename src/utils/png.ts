@@ -0,0 +1,157 @@
+// =====================================
+// ===== PNG RASTER
+// ===== Purpose: Minimal RGB canvas with a bitmap font and a PNG encoder (no native or external renderer)
+// =====================================
+
+export type Rgb = readonly [number, number, number];
+
+// 5x7 glyphs, one hex byte per row (top to bottom, bit 4 = leftmost pixel); lower case is drawn upper case
+const GLYPHS: Record<string, string> = {
+  "0": "0E11131519110E", "1": "040C040404040E", "2": "0E11010204081F", "3": "1F02040201110E",
+  "4": "02060A121F0202", "5": "1F101E0101110E", "6": "0608101E11110E", "7": "1F010204080808",
+  "8": "0E11110E11110E", "9": "0E11110F01020C",
+  "A": "0E11111F111111", "B": "1E11111E11111E", "C": "0E11101010110E", "D": "1C12111111121C",
+  "E": "1F10101E10101F", "F": "1F10101E101010", "G": "0E11101711110F", "H": "1111111F111111",
+  "I": "0E04040404040E", "J": "0702020202120C", "K": "11121418141211", "L": "1010101010101F",
+  "M": "111B1515111111", "N": "11111915131111", "O": "0E11111111110E", "P": "1E11111E101010",
+  "Q": "0E11111115120D", "R": "1E11111E141211", "S": "0F10100E01011E", "T": "1F040404040404",
+  "U": "1111111111110E", "V": "11111111110A04", "W": "1111111515150A", "X": "11110A040A1111",
+  "Y": "1111110A040404", "Z": "1F01020408101F",
+  " ": "00000000000000", ".": "00000000000C0C", ",": "000000000C0408", ":": "000C0C000C0C00",
+  "-": "0000001F000000", "+": "0004041F040400", "%": "18190204081303", "/": "00010204081000",
+  "(": "02040808080402", ")": "08040202020408", "=": "00001F001F0000", "?": "0E110102040004",
+};
+
+export const GLYPH_WIDTH = 5;
+export const GLYPH_HEIGHT = 7;
+
+function glyph(char: string): number[] {
+  const hex = GLYPHS[char.toUpperCase()] ?? GLYPHS["?"];
+  return Array.from({ length: GLYPH_HEIGHT }, (_, row) => parseInt(hex.slice(row * 2, row * 2 + 2), 16));
+}
+
+export class Raster {
+  readonly pixels: Uint8Array;
+
+  constructor(readonly width: number, readonly height: number, background: Rgb) {
+    this.pixels = new Uint8Array(width * height * 3);
+    this.fillRect(0, 0, width, height, background);
+  }
+
+  fillRect(x: number, y: number, w: number, h: number, color: Rgb): void {
+    const x0 = Math.max(0, Math.round(x));
+    const y0 = Math.max(0, Math.round(y));
+    const x1 = Math.min(this.width, Math.round(x + w));
+    const y1 = Math.min(this.height, Math.round(y + h));
+    for (let py = y0; py < y1; py++) {
+      for (let px = x0; px < x1; px++) this.pixels.set(color, (py * this.width + px) * 3);
+    }
+  }
+
+  // Bresenham line; dash draws `dash` pixels on, `dash` pixels off
+  line(x0: number, y0: number, x1: number, y1: number, color: Rgb, thickness = 1, dash = 0): void {
+    x0 = Math.round(x0); y0 = Math.round(y0); x1 = Math.round(x1); y1 = Math.round(y1);
+    const dx = Math.abs(x1 - x0);
+    const dy = -Math.abs(y1 - y0);
+    const sx = x0 < x1 ? 1 : -1;
+    const sy = y0 < y1 ? 1 : -1;
+    const offset = Math.floor((thickness - 1) / 2);
+    let err = dx + dy;
+    for (let step = 0; ; step++) {
+      if (!dash || Math.floor(step / dash) % 2 === 0) {
+        this.fillRect(x0 - offset, y0 - offset, thickness, thickness, color);
+      }
+      if (x0 === x1 && y0 === y1) break;
+      const e2 = 2 * err;
+      if (e2 >= dy) { err += dy; x0 += sx; }
+      if (e2 <= dx) { err += dx; y0 += sy; }
+    }
+  }
+
+  // Connect the non-null points of a series
+  polyline(points: ({ x: number; y: number } | null)[], color: Rgb, thickness = 1): void {
+    let prev: { x: number; y: number } | null = null;
+    for (const p of points) {
+      if (p && prev) this.line(prev.x, prev.y, p.x, p.y, color, thickness);
+      prev = p;
+    }
+  }
+
+  text(x: number, y: number, text: string, color: Rgb, scale = 1): void {
+    [...text].forEach((char, idx) => {
+      const rows = glyph(char);
+      const left = x + idx * (GLYPH_WIDTH + 1) * scale;
+      rows.forEach((bits, row) => {
+        for (let col = 0; col < GLYPH_WIDTH; col++) {
+          if (bits & (1 << (GLYPH_WIDTH - 1 - col))) {
+            this.fillRect(left + col * scale, y + row * scale, scale, scale, color);
+          }
+        }
+      });
+    });
+  }
+}
+
+export function textWidth(text: string, scale = 1): number {
+  return text.length ? (text.length * (GLYPH_WIDTH + 1) - 1) * scale : 0;
+}
+
+// ===== PNG encoding
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(new TextEncoder().encode(type), 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+// zlib stream via the platform's CompressionStream (Workers and Node 18+)
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// 8-bit RGB PNG, no per-row filtering
+export async function encodePng(raster: Raster): Promise<Uint8Array> {
+  const { width, height, pixels } = raster;
+  const stride = width * 3;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([8, 2, 0, 0, 0], 8); // bit depth, colour type RGB, compression, filter, interlace
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", await deflate(raw)),
+    chunk("IEND", new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    png.set(p, offset);
+    offset += p.length;
+  }
+  return png;
+}
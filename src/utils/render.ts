@@ -0,0 +1,183 @@
+// =====================================
+// ===== REPORT RENDERING
+// =====================================
+
+import {
+  TradeRecommendation,
+  SpotRecommendation,
+  LeveragedRecommendation,
+  RecommendationRationale,
+  GuardrailViolation,
+  Notification,
+  NotificationField,
+  NotificationLevel,
+  NotificationSection,
+} from '../types';
+import { escapeHtml, joinHtmlLines, formatDateForHeader } from './helpers';
+
+function formatLevel(value: number | null): string {
+  return value === null ? "—" : String(value);
+}
+
+function renderRationale(r: RecommendationRationale, labels: [string, string, string]): string[] {
+  return [
+    `• Rationale:`,
+    ` - <b>${labels[0]}:</b> ${escapeHtml(r.primarySignals)}`,
+    ` - <b>${labels[1]}:</b> ${escapeHtml(r.laggingIndicators)}`,
+    ` - <b>${labels[2]}:</b> ${escapeHtml(r.sentimentAnalysis)}`,
+  ];
+}
+
+// Rejected trades keep their levels visible but are clearly marked with the failed checks
+function renderRejection(violations: GuardrailViolation[]): string[] {
+  if (!violations.length) return [];
+  return [
+    `⛔ <b>REJECTED</b> — failed risk checks:`,
+    ...violations.map(v => ` - ${escapeHtml(v.reason)}`),
+  ];
+}
+
+function renderSpot(title: string, rec: SpotRecommendation, violations: GuardrailViolation[]): string[] {
+  return [
+    `<b>${title}:</b>`,
+    ...renderRejection(violations),
+    `• Action: <b>${rec.action.toUpperCase()}</b>`,
+    `• Entry Price: ${formatLevel(rec.entry)}`,
+    `• Stop Loss: ${formatLevel(rec.stopLoss)}`,
+    `• Take Profit: ${formatLevel(rec.takeProfit)}`,
+    ...renderRationale(rec.rationale, ["Primary Signals", "Lagging Indicators", "Sentiment Analysis"]),
+  ];
+}
+
+function renderLeveraged(title: string, rec: LeveragedRecommendation, violations: GuardrailViolation[]): string[] {
+  return [
+    `<b>${title}:</b>`,
+    ...renderRejection(violations),
+    `• Position: <b>${rec.position.toUpperCase()}</b>`,
+    `• Leverage: ${rec.leverage}x`,
+    `• Entry Price: ${formatLevel(rec.entry)}`,
+    `• Stop Loss: ${formatLevel(rec.stopLoss)}`,
+    `• Take Profit: ${formatLevel(rec.takeProfit)}`,
+    ...renderRationale(rec.rationale, ["Primary Price Action Signals", "Lagging Indicator Confirmation", "Sentiment & Macro Analysis"]),
+  ];
+}
+
+// Render a validated recommendation as Telegram HTML
+export function renderRecommendationHtml(
+  symbol: string,
+  rec: TradeRecommendation,
+  violations: GuardrailViolation[] = [],
+  date = new Date()
+): string {
+  const forSlot = (slot: GuardrailViolation["slot"]) => violations.filter(v => v.slot === slot);
+  return joinHtmlLines([
+    `📊 <b>${escapeHtml(symbol)} analysis for ${formatDateForHeader(date)}</b>`,
+    ``,
+    `<b>Spot Recommendations</b>`,
+    ``,
+    ...renderSpot("Short-term", rec.spot.shortTerm, forSlot("spot.shortTerm")),
+    ``,
+    ...renderSpot("Long-term", rec.spot.longTerm, forSlot("spot.longTerm")),
+    ``,
+    `<b>Leveraged Recommendations</b>`,
+    ``,
+    ...renderLeveraged("Short-term", rec.leveraged.shortTerm, forSlot("leveraged.shortTerm")),
+    ``,
+    ...renderLeveraged("Long-term", rec.leveraged.longTerm, forSlot("leveraged.longTerm")),
+  ]);
+}
+
+const LEVEL_ICONS: Record<NotificationLevel, string> = {
+  info: "ℹ️",
+  success: "✅",
+  warning: "⚠️",
+  error: "🚨",
+};
+
+function slotTitle(market: "Spot" | "Leveraged", horizon: "shortTerm" | "longTerm"): string {
+  return `${market} ${horizon === "shortTerm" ? "short-term" : "long-term"}`;
+}
+
+function slotSection(
+  heading: string,
+  levels: string,
+  rationale: RecommendationRationale,
+  violations: GuardrailViolation[]
+): NotificationSection {
+  return {
+    heading,
+    lines: [
+      ...(violations.length ? ["REJECTED — failed risk checks:", ...violations.map(v => `- ${v.reason}`)] : []),
+      levels,
+      `Primary signals: ${rationale.primarySignals}`,
+      `Lagging indicators: ${rationale.laggingIndicators}`,
+      `Sentiment: ${rationale.sentimentAnalysis}`,
+    ],
+  };
+}
+
+// Channel-neutral version of the recommendation report (Telegram keeps the HTML rendering above)
+export function recommendationNotification(
+  symbol: string,
+  rec: TradeRecommendation,
+  violations: GuardrailViolation[] = [],
+  date = new Date()
+): Notification {
+  const fields: NotificationField[] = [];
+  const sections: NotificationSection[] = [];
+
+  for (const horizon of ["shortTerm", "longTerm"] as const) {
+    const spot = rec.spot[horizon];
+    const spotViolations = violations.filter(v => v.slot === `spot.${horizon}`);
+    const spotLevels = spot.action === "hold"
+      ? "HOLD"
+      : `${spot.action.toUpperCase()} @ ${formatLevel(spot.entry)} (SL ${formatLevel(spot.stopLoss)}, TP ${formatLevel(spot.takeProfit)})`;
+    fields.push({ name: slotTitle("Spot", horizon), value: spotViolations.length ? `⛔ ${spotLevels}` : spotLevels });
+    sections.push(slotSection(slotTitle("Spot", horizon), spotLevels, spot.rationale, spotViolations));
+  }
+
+  for (const horizon of ["shortTerm", "longTerm"] as const) {
+    const lev = rec.leveraged[horizon];
+    const levViolations = violations.filter(v => v.slot === `leveraged.${horizon}`);
+    const levLevels = `${lev.position.toUpperCase()} ${lev.leverage}x @ ${lev.entry} (SL ${lev.stopLoss}, TP ${lev.takeProfit})`;
+    fields.push({ name: slotTitle("Leveraged", horizon), value: levViolations.length ? `⛔ ${levLevels}` : levLevels });
+    sections.push(slotSection(slotTitle("Leveraged", horizon), levLevels, lev.rationale, levViolations));
+  }
+
+  return {
+    kind: "report",
+    level: violations.length ? "warning" : "info",
+    title: `${symbol} analysis for ${formatDateForHeader(date)}`,
+    fields,
+    sections,
+    timestamp: date.getTime(),
+    html: renderRecommendationHtml(symbol, rec, violations, date),
+    data: { symbol, recommendation: rec, violations },
+  };
+}
+
+// Generic Telegram HTML for notifications without a pre-rendered body
+export function renderNotificationHtml(n: Notification): string {
+  return n.html ?? joinHtmlLines([
+    `${LEVEL_ICONS[n.level]} <b>${escapeHtml(n.title)}</b>`,
+    ``,
+    ...n.fields.map(f => `<b>${escapeHtml(f.name)}:</b> ${escapeHtml(f.value)}`),
+    ...n.sections.flatMap(s => [
+      ``,
+      `<b>${escapeHtml(s.heading)}:</b>`,
+      ...(s.code ? [`<pre>${escapeHtml(s.lines.join("\n"))}</pre>`] : s.lines.map(escapeHtml)),
+    ]),
+  ]);
+}
+
+// Plain-text rendering for email and other text-only channels
+export function renderNotificationText(n: Notification): string {
+  return [
+    `${LEVEL_ICONS[n.level]} ${n.title}`,
+    ``,
+    ...n.fields.map(f => `${f.name}: ${f.value}`),
+    ...n.sections.flatMap(s => [``, `${s.heading}:`, ...s.lines]),
+    ``,
+    `Time: ${new Date(n.timestamp).toISOString()}`,
+  ].join("\n");
+}
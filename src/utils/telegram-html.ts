@@ -0,0 +1,179 @@
+// =====================================
+// ===== TELEGRAM HTML FORMATTING
+// ===== Purpose: Keep messages inside Telegram's HTML subset and split them without breaking tags
+// =====================================
+
+import { TELEGRAM_ALLOWED_TAGS } from '../config/constants';
+
+type Token =
+  | { type: "text"; text: string }
+  | { type: "open"; name: string; tag: string }
+  | { type: "close"; name: string };
+
+const TAG_RE = /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\s[^<>]*)?)>/g;
+const ATTR_RE = /([a-zA-Z-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+const ENTITY_RE = /^&(?:lt|gt|amp|quot|#\d+|#x[0-9a-fA-F]+);/;
+
+// Escape text, keeping the entities Telegram understands
+function escapeText(text: string): string {
+  return text
+    .replace(/&(?!(?:lt|gt|amp|quot|#\d+|#x[0-9a-fA-F]+);)/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function escapeAttr(value: string): string {
+  return escapeText(value).replace(/"/g, "&quot;");
+}
+
+function attributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of raw.matchAll(ATTR_RE)) attrs[m[1].toLowerCase()] = m[2] ?? m[3] ?? m[4] ?? "";
+  return attrs;
+}
+
+// Rebuild an allowed opening tag with only the attributes Telegram accepts (null drops the tag)
+function openingTag(name: string, raw: string, parent: string | undefined): string | null {
+  const attrs = attributes(raw);
+  switch (name) {
+    case "a":
+      return attrs.href ? `<a href="${escapeAttr(attrs.href)}">` : null;
+    case "span":
+      return attrs.class === "tg-spoiler" ? `<span class="tg-spoiler">` : null;
+    case "code":
+      return parent === "pre" && /^language-[\w+-]+$/.test(attrs.class || "") ? `<code class="${attrs.class}">` : "<code>";
+    case "blockquote":
+      return "expandable" in attrs ? "<blockquote expandable>" : "<blockquote>";
+    default:
+      return `<${name}>`;
+  }
+}
+
+// Parse into well-formed tokens: unknown tags become escaped text, stray closing tags are dropped,
+// crossed tags are closed and reopened, and anything left open is closed at the end
+function tokenize(html: string): Token[] {
+  const tokens: Token[] = [];
+  const stack: Extract<Token, { type: "open" }>[] = [];
+  const text = (t: string) => { if (t) tokens.push({ type: "text", text: escapeText(t) }); };
+
+  let last = 0;
+  for (const m of html.matchAll(TAG_RE)) {
+    text(html.slice(last, m.index));
+    last = m.index! + m[0].length;
+
+    const closing = m[1] === "/";
+    const name = m[2].toLowerCase();
+    const top = stack[stack.length - 1]?.name;
+    // Nothing opens inside code, and only code opens inside pre
+    const literal = !closing && (top === "code" || (top === "pre" && name !== "code"));
+    if (!TELEGRAM_ALLOWED_TAGS.includes(name) || literal) {
+      text(m[0]);
+      continue;
+    }
+
+    if (!closing) {
+      const tag = openingTag(name, m[3], top);
+      if (tag === null) {
+        text(m[0]);
+        continue;
+      }
+      const token = { type: "open" as const, name, tag };
+      tokens.push(token);
+      stack.push(token);
+      continue;
+    }
+
+    const idx = stack.map(t => t.name).lastIndexOf(name);
+    if (idx === -1) continue;
+    const reopen = stack.splice(idx).slice(1);
+    for (const t of [...reopen].reverse()) tokens.push({ type: "close", name: t.name });
+    tokens.push({ type: "close", name });
+    for (const t of reopen) {
+      tokens.push(t);
+      stack.push(t);
+    }
+  }
+  text(html.slice(last));
+  for (const t of stack.reverse()) tokens.push({ type: "close", name: t.name });
+  return tokens;
+}
+
+// Whitelist and escape an HTML message for parse_mode=HTML
+export function sanitizeTelegramHtml(html: string): string {
+  return tokenize(html).map(t => (t.type === "text" ? t.text : t.type === "open" ? t.tag : `</${t.name}>`)).join("");
+}
+
+// Length of the longest prefix of text that fits in room, preferring a space and never cutting an entity
+function cutText(text: string, room: number): number {
+  let end = Math.max(1, Math.min(room, text.length));
+  const amp = text.lastIndexOf("&", end - 1);
+  const entity = amp === -1 ? null : text.slice(amp).match(ENTITY_RE);
+  if (entity && amp + entity[0].length > end) end = amp || entity[0].length;
+  const space = text.lastIndexOf(" ", end - 1);
+  return end < text.length && space > end / 2 ? space + 1 : end;
+}
+
+// Split into messages of at most maxLength, at line breaks where possible; tags open at a cut are
+// closed at the end of the chunk and reopened at the start of the next one
+export function chunkTelegramHtml(html: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  // Tags are written with the first text inside them (stack entries below `written` are in `current`),
+  // so a cut never leaves an empty pair such as "<code></code>" in either chunk
+  const stack: Extract<Token, { type: "open" }>[] = [];
+  let written = 0;
+  let current = "";
+  const opening = () => stack.slice(written).map(t => t.tag).join("");
+  const closing = (count: number) => stack.slice(0, count).reverse().map(t => `</${t.name}>`).join("");
+  const room = () => maxLength - current.length - opening().length - closing(stack.length).length;
+
+  const write = (text: string) => {
+    current += opening() + text;
+    written = stack.length;
+  };
+  const flush = () => {
+    if (current) chunks.push(current + closing(written));
+    current = "";
+    written = 0;
+  };
+
+  for (const token of tokenize(html)) {
+    if (token.type === "open") {
+      stack.push(token);
+    } else if (token.type === "close") {
+      stack.pop();
+      if (written > stack.length) {
+        current += `</${token.name}>`;
+        written = stack.length;
+      }
+    } else {
+      // One line at a time so chunks end on line breaks where they can
+      for (let piece of token.text.split(/(?<=\n)/)) {
+        if (current && piece.length > room()) flush();
+        while (piece && piece.length > room()) {
+          const cut = cutText(piece, room());
+          write(piece.slice(0, cut));
+          piece = piece.slice(cut);
+          flush();
+        }
+        if (piece) write(piece);
+      }
+    }
+  }
+  flush();
+
+  // Telegram rejects messages without visible text
+  return chunks.filter(c => telegramHtmlToText(c).trim());
+}
+
+// Plain-text version for when Telegram still rejects the HTML
+export function telegramHtmlToText(html: string): string {
+  return html
+    .replace(/<a href="([^"]*)">([\s\S]*?)<\/a>/g, (_m, href, text) => `${text} (${href})`)
+    .replace(/<[^>]+>/g, "")
+    .replace(/&#x([0-9a-fA-F]+);/g, (_m, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_m, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&");
+}
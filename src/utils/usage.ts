@@ -0,0 +1,44 @@
+// =====================================
+// ===== LLM USAGE ACCOUNTING
+// =====================================
+
+import { Env, LLMCall, LLMUsage, LLMUsageTotals } from '../types';
+import { llmPrice } from './helpers';
+
+// Estimated cost in USD, 0 for models without a price (e.g. local models)
+export function llmCost(env: Env, model: string, usage: LLMUsage): number {
+  const price = llmPrice(env, model);
+  if (!price) return 0;
+  return (usage.promptTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+export function summarizeCalls(calls: LLMCall[]): LLMUsageTotals {
+  return calls.reduce<LLMUsageTotals>(
+    (acc, c) => ({
+      calls: acc.calls + 1,
+      failedCalls: acc.failedCalls + (c.ok ? 0 : 1),
+      promptTokens: acc.promptTokens + c.promptTokens,
+      outputTokens: acc.outputTokens + c.outputTokens,
+      totalTokens: acc.totalTokens + c.totalTokens,
+      latencyMs: acc.latencyMs + c.latencyMs,
+      costUsd: acc.costUsd + c.costUsd,
+    }),
+    { calls: 0, failedCalls: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0, latencyMs: 0, costUsd: 0 }
+  );
+}
+
+function compactNumber(n: number): string {
+  return n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+}
+
+export function formatCost(usd: number): string {
+  return `$${usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
+
+// e.g. "4 calls, 12.3k tokens (10.1k in / 2.2k out), $0.0041, 8.1s"
+export function formatUsage(t: LLMUsageTotals): string {
+  const failed = t.failedCalls ? ` (${t.failedCalls} failed)` : "";
+  return `${t.calls} call${t.calls === 1 ? "" : "s"}${failed}, ${compactNumber(t.totalTokens)} tokens ` +
+    `(${compactNumber(t.promptTokens)} in / ${compactNumber(t.outputTokens)} out), ` +
+    `${formatCost(t.costUsd)}, ${(t.latencyMs / 1000).toFixed(1)}s`;
+}
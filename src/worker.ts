@@ -5,40 +5,67 @@
 
 /// <reference types="@cloudflare/workers-types" />
 
+import { Env, AnalysisQueueMessage } from './types';
+import { OUTCOME_CHECK_CRON, ALERT_CHECK_CRON, ANALYSIS_DLQ_NAME, API_RATE_WINDOW_MS, API_AUDIT_RETENTION_MS } from './config/constants';
 import { createLogger } from './utils/logger';
+import { logLevel } from './utils/helpers';
 import { handleManualRun, handleTestTelegram, handleHealth } from './controllers/api';
-
-interface Env {
-  GEMINI_API_KEY: string;
-  THENEWSAPI_KEY: string;
-  TELEGRAM_BOT_TOKEN: string;
-  TELEGRAM_CHAT_ID: string;
-  MAX_ARTICLES?: string;
-  SYMBOLS?: string;
-  LOG_LEVEL?: string;
-}
+import { withApiKey, withIpRateLimit } from './controllers/auth';
 
 export default {
   // HTTP endpoint handler
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
-    const logger = createLogger(env.LOG_LEVEL as any || "info");
+    const logger = createLogger(logLevel(env));
     
     logger.info(`Request: ${request.method} ${url.pathname}`);
 
-    // Health check endpoint
+    // Health check endpoint (public; the API endpoints below need a key with the named scope)
     if (url.pathname === "/health") {
       return await handleHealth();
     }
     
     // Test telegram endpoint
     if (url.pathname === "/test-telegram" && request.method === "POST") {
-      return await handleTestTelegram(env, logger);
+      return await withApiKey(request, env, logger, ctx, "admin", () => handleTestTelegram(env, logger));
     }
     
     // Manual run endpoint
     if (url.pathname === "/run" && request.method === "POST") {
-      return await handleManualRun(env, logger);
+      return await withApiKey(request, env, logger, ctx, "run", () => handleManualRun(request, env, logger));
+    }
+
+    // Telegram bot commands
+    if (url.pathname === "/telegram/webhook" && request.method === "POST") {
+      const { handleTelegramWebhook } = await import('./controllers/telegram-bot');
+      return await withIpRateLimit(request, env, logger, () => handleTelegramWebhook(request, env, logger, ctx));
+    }
+
+    // LLM usage metrics
+    if (url.pathname === "/metrics" && request.method === "GET") {
+      const { handleMetrics } = await import('./controllers/metrics');
+      return await withApiKey(request, env, logger, ctx, "read", () => handleMetrics(request, env));
+    }
+
+    // Price alerts API
+    if (url.pathname === "/alerts" || url.pathname.startsWith("/alerts/")) {
+      const { handleListAlerts, handleCreateAlert, handleDeleteAlert } = await import('./controllers/alerts');
+      const id = url.pathname.slice("/alerts/".length);
+      if (url.pathname === "/alerts" && request.method === "GET") {
+        return await withApiKey(request, env, logger, ctx, "read", () => handleListAlerts(env));
+      }
+      if (url.pathname === "/alerts" && request.method === "POST") {
+        return await withApiKey(request, env, logger, ctx, "admin", () => handleCreateAlert(request, env, logger));
+      }
+      if (id && request.method === "DELETE") {
+        return await withApiKey(request, env, logger, ctx, "admin", () => handleDeleteAlert(env, logger, decodeURIComponent(id)));
+      }
+    }
+
+    // Web dashboard
+    if (url.pathname === "/dashboard" || url.pathname.startsWith("/dashboard/")) {
+      const { handleDashboard } = await import('./controllers/dashboard');
+      return await withApiKey(request, env, logger, ctx, "read", () => handleDashboard(request, env), "basic");
     }
 
     // Default response
@@ -46,8 +73,12 @@ export default {
       message: "Crypto Automation Worker",
       endpoints: {
         health: "GET /health",
-        testTelegram: "POST /test-telegram", 
-        manualRun: "POST /run"
+        testTelegram: "POST /test-telegram (scope admin)",
+        manualRun: "POST /run (scope run)",
+        telegramWebhook: "POST /telegram/webhook",
+        alerts: "GET /alerts (scope read), POST /alerts and DELETE /alerts/:id (scope admin)",
+        metrics: "GET /metrics (scope read)",
+        dashboard: "GET /dashboard (scope read, HTTP Basic with key id and secret)"
       }
     }), {
       headers: { "content-type": "application/json" },
@@ -55,22 +86,55 @@ export default {
   },
 
   // Scheduled Cron Trigger
-  async scheduled(_event: ScheduledEvent, env: Env, _ctx: ExecutionContext): Promise<void> {
-    const logger = createLogger(env.LOG_LEVEL as any || "info");
-    logger.info("Scheduled run triggered at:", { timestamp: new Date().toISOString() });
+  async scheduled(event: ScheduledEvent, env: Env, _ctx: ExecutionContext): Promise<void> {
+    const logger = createLogger(logLevel(env));
+    logger.info("Scheduled run triggered at:", { timestamp: new Date().toISOString(), cron: event.cron });
     
+    // Outcome tracking runs on its own cron, which also prunes the API access tables
+    if (event.cron === OUTCOME_CHECK_CRON) {
+      try {
+        const { handleOutcomeCheck } = await import('./controllers/outcomes');
+        const summary = await handleOutcomeCheck(env, logger);
+        logger.info("Signal outcome check completed", summary);
+      } catch (error) {
+        logger.error("Signal outcome check failed", { error: String(error) });
+      }
+      const { pruneRateLimits, pruneApiSignatures, pruneApiAudit } = await import('./services/storage');
+      await pruneRateLimits(env, logger, Date.now() - API_RATE_WINDOW_MS);
+      await pruneApiSignatures(env, logger, Date.now());
+      await pruneApiAudit(env, logger, Date.now() - API_AUDIT_RETENTION_MS);
+      return;
+    }
+
+    // Price alerts run on a frequent cron
+    if (event.cron === ALERT_CHECK_CRON) {
+      try {
+        const { handleAlertCheck } = await import('./controllers/alerts');
+        const summary = await handleAlertCheck(env, logger);
+        logger.info("Price alert check completed", summary);
+      } catch (error) {
+        logger.error("Price alert check failed", { error: String(error) });
+      }
+      return;
+    }
+
     try {
       // Import and execute the full analysis workflow
       const { handleRun } = await import('./controllers/analysis');
       const result = await handleRun(env, logger);
       
-      if (result.ok) {
+      if (result.queued) {
+        // Queued runs finish in the consumer, which sends the summary
+        logger.info("Scheduled analysis queued", { runId: result.runId, queued: result.queued, error: result.error });
+      } else if (result.ok) {
         logger.info("Scheduled analysis completed successfully", { 
+          runId: result.runId,
           coins: result.coins,
           successfulCount: result.coins.length 
         });
       } else {
         logger.warn("Scheduled analysis completed with errors", { 
+          runId: result.runId,
           coins: result.coins,
           error: result.error,
           successfulCount: result.coins.length 
@@ -80,4 +144,15 @@ export default {
       logger.error("Scheduled analysis failed", { error: String(error) });
     }
   },
+
+  // Queue consumer: per-coin analysis jobs and their dead letters
+  async queue(batch: MessageBatch<AnalysisQueueMessage>, env: Env, _ctx: ExecutionContext): Promise<void> {
+    const logger = createLogger(logLevel(env));
+    const { handleCoinJobs, handleDeadCoinJobs } = await import('./controllers/queue');
+    if (batch.queue === ANALYSIS_DLQ_NAME) {
+      await handleDeadCoinJobs(batch, env, logger);
+    } else {
+      await handleCoinJobs(batch, env, logger);
+    }
+  },
 };
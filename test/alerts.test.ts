@@ -0,0 +1,209 @@
+// =====================================
+// ===== PRICE ALERT TESTS
+// =====================================
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlertCondition, AlertEvaluation, Candle, PriceAlert, TIMEFRAMES } from '../src/types';
+import { ALERT_DEFAULT_COOLDOWN_MS } from '../src/config/constants';
+import { evaluateAlert, parseAlertInput } from '../src/utils/alerts';
+
+const MINUTE = 60 * 1000;
+const NOW = Date.UTC(2025, 0, 1, 12);
+
+function alert(condition: AlertCondition, overrides: Partial<PriceAlert> = {}): PriceAlert {
+  return {
+    id: "a1",
+    symbol: "BTC",
+    condition,
+    mode: "once",
+    cooldownMs: 60 * MINUTE,
+    note: null,
+    active: true,
+    armed: true,
+    createdAt: NOW - 24 * 60 * MINUTE,
+    lastValue: null,
+    lastTriggeredAt: null,
+    ...overrides,
+  };
+}
+
+// One-minute candles with the given closes, oldest first
+function closes(...values: number[]): Candle[] {
+  return values.map((close, idx) => ({
+    timestamp: NOW - (values.length - idx) * MINUTE,
+    open: String(close),
+    high: String(close),
+    low: String(close),
+    close: String(close),
+    volume: "1",
+    amount: "1",
+  }));
+}
+
+// The state the alert check stores after an evaluation
+function after(previous: PriceAlert, evaluation: AlertEvaluation, checkedAt: number): PriceAlert {
+  return {
+    ...previous,
+    lastValue: evaluation.value,
+    active: evaluation.active,
+    armed: evaluation.armed,
+    lastTriggeredAt: evaluation.triggered ? checkedAt : previous.lastTriggeredAt,
+  };
+}
+
+describe("evaluateAlert crossings", () => {
+  const crossesAbove: AlertCondition = { type: "price", op: "crosses_above", value: 100 };
+
+  it("fires when the value crosses the threshold since the previous check", () => {
+    const result = evaluateAlert(alert(crossesAbove, { lastValue: 99 }), closes(101), NOW);
+    assert.deepEqual(result, { value: 101, triggered: true, active: false, armed: false });
+  });
+
+  it("does not fire while the value stays above the threshold", () => {
+    assert.equal(evaluateAlert(alert(crossesAbove, { lastValue: 102 }), closes(101), NOW).triggered, false);
+  });
+
+  it("compares with the previous candle on the first check", () => {
+    assert.equal(evaluateAlert(alert(crossesAbove), closes(99, 101), NOW).triggered, true);
+    assert.equal(evaluateAlert(alert(crossesAbove), closes(102, 101), NOW).triggered, false);
+    assert.equal(evaluateAlert(alert(crossesAbove), closes(101), NOW).triggered, false);
+  });
+
+  it("counts a move from exactly the threshold as a crossing", () => {
+    assert.equal(evaluateAlert(alert(crossesAbove, { lastValue: 100 }), closes(101), NOW).triggered, true);
+    const crossesBelow: AlertCondition = { type: "price", op: "crosses_below", value: 100 };
+    assert.equal(evaluateAlert(alert(crossesBelow, { lastValue: 100 }), closes(99), NOW).triggered, true);
+    assert.equal(evaluateAlert(alert(crossesBelow, { lastValue: 101 }), closes(100), NOW).triggered, false);
+  });
+
+  it("fires level alerts on every check the condition holds", () => {
+    const below: AlertCondition = { type: "price", op: "below", value: 100 };
+    assert.equal(evaluateAlert(alert(below, { lastValue: 90 }), closes(95), NOW).triggered, true);
+    assert.equal(evaluateAlert(alert(below), closes(100), NOW).triggered, false);
+  });
+
+  it("leaves inactive alerts and missing data untouched", () => {
+    const inactive = alert(crossesAbove, { lastValue: 99, active: false });
+    assert.deepEqual(evaluateAlert(inactive, closes(101), NOW), { value: 101, triggered: false, active: false, armed: true });
+    assert.deepEqual(evaluateAlert(alert(crossesAbove), [], NOW), { value: null, triggered: false, active: true, armed: true });
+  });
+});
+
+describe("evaluateAlert re-arming and cooldown", () => {
+  const above: AlertCondition = { type: "price", op: "above", value: 100 };
+
+  it("keeps a re-arming alert active but disarmed after it fires", () => {
+    const result = evaluateAlert(alert(above, { mode: "rearm" }), closes(101), NOW);
+    assert.deepEqual(result, { value: 101, triggered: true, active: true, armed: false });
+  });
+
+  it("fires again only after the condition has reset", () => {
+    let state = alert(above, { mode: "rearm", cooldownMs: 0 });
+    const check = (close: number, at: number) => {
+      const evaluation = evaluateAlert(state, closes(close), at);
+      state = after(state, evaluation, at);
+      return evaluation.triggered;
+    };
+    assert.deepEqual(
+      [check(101, NOW), check(102, NOW + 5 * MINUTE), check(99, NOW + 10 * MINUTE), check(101, NOW + 15 * MINUTE)],
+      [true, false, false, true]
+    );
+  });
+
+  it("holds a re-armed alert back until the cooldown has passed", () => {
+    const rearmed = alert(above, { mode: "rearm", lastTriggeredAt: NOW - 30 * MINUTE, lastValue: 99 });
+    const blocked = evaluateAlert(rearmed, closes(101), NOW);
+    assert.equal(blocked.triggered, false);
+    assert.equal(blocked.armed, true, "an alert held back by the cooldown stays armed");
+    assert.equal(evaluateAlert(rearmed, closes(101), NOW + 30 * MINUTE).triggered, true);
+  });
+
+  it("applies the cooldown to change alerts", () => {
+    const move: AlertCondition = { type: "change", timeframe: "1m", percent: 5, direction: "any" };
+    const recent = alert(move, { mode: "rearm", lastTriggeredAt: NOW - 10 * MINUTE, cooldownMs: 15 * MINUTE });
+    assert.equal(evaluateAlert(recent, closes(100, 94), NOW).triggered, false);
+    assert.equal(evaluateAlert(recent, closes(100, 94), NOW + 5 * MINUTE).triggered, true);
+  });
+});
+
+describe("evaluateAlert moves", () => {
+  const move = (direction: "up" | "down" | "any"): AlertCondition => ({ type: "change", timeframe: "1h", percent: 5, direction });
+
+  it("measures the move against the previous close", () => {
+    assert.deepEqual(evaluateAlert(alert(move("up")), closes(100, 105), NOW), { value: 5, triggered: true, active: false, armed: false });
+    assert.equal(evaluateAlert(alert(move("up")), closes(100, 104), NOW).triggered, false);
+  });
+
+  it("respects the direction", () => {
+    assert.equal(evaluateAlert(alert(move("up")), closes(100, 94), NOW).triggered, false);
+    assert.equal(evaluateAlert(alert(move("down")), closes(100, 94), NOW).triggered, true);
+    assert.equal(evaluateAlert(alert(move("any")), closes(100, 94), NOW).triggered, true);
+    assert.equal(evaluateAlert(alert(move("any")), closes(100, 106), NOW).triggered, true);
+  });
+
+  it("needs two candles", () => {
+    assert.equal(evaluateAlert(alert(move("any")), closes(100), NOW).value, null);
+  });
+});
+
+describe("parseAlertInput", () => {
+  it("parses a price alert with defaults", () => {
+    assert.deepEqual(parseAlertInput({ symbol: " btcusdt ", type: "price", op: "crosses_above", value: 70000 }), {
+      alert: {
+        symbol: "BTC",
+        condition: { type: "price", op: "crosses_above", value: 70000 },
+        mode: "once",
+        cooldownMs: ALERT_DEFAULT_COOLDOWN_MS,
+        note: null,
+      },
+      errors: [],
+    });
+  });
+
+  it("parses indicator and change alerts with their options", () => {
+    const indicator = parseAlertInput({
+      symbol: "ETH", type: "indicator", timeframe: "1h", indicator: "rsi14", op: "below", value: 30, mode: "rearm", cooldownMinutes: 240, note: "oversold",
+    });
+    assert.deepEqual(indicator.alert?.condition, { type: "indicator", timeframe: "1h", indicator: "rsi14", op: "below", value: 30 });
+    assert.equal(indicator.alert?.mode, "rearm");
+    assert.equal(indicator.alert?.cooldownMs, 240 * MINUTE);
+    assert.equal(indicator.alert?.note, "oversold");
+
+    const change = parseAlertInput({ symbol: "SOL", type: "change", timeframe: "15m", percent: 5 });
+    assert.deepEqual(change.alert?.condition, { type: "change", timeframe: "15m", percent: 5, direction: "any" });
+  });
+
+  it("accepts negative indicator thresholds but only positive prices and moves", () => {
+    assert.equal(parseAlertInput({ symbol: "BTC", type: "indicator", timeframe: "1d", indicator: "ema12", op: "above", value: -1 }).errors.length, 0);
+    assert.deepEqual(parseAlertInput({ symbol: "BTC", type: "price", op: "above", value: 0 }).errors, ["value must be a positive number"]);
+    assert.deepEqual(parseAlertInput({ symbol: "BTC", type: "change", timeframe: "1h", percent: -2 }).errors, ["percent must be a positive number"]);
+  });
+
+  it("collects every problem of an invalid body", () => {
+    const { alert: parsed, errors } = parseAlertInput({ symbol: "$$", type: "indicator", timeframe: "7h", indicator: "rsi7", op: "near", value: "30", mode: "always", cooldownMinutes: -1, note: 5 });
+    assert.equal(parsed, undefined);
+    assert.deepEqual(errors, [
+      "symbol must be a coin ticker such as BTC",
+      `timeframe must be one of ${TIMEFRAMES.join(", ")}`,
+      "indicator must be one of rsi14, sma20, sma50, ema12, ema26, ema50, atr14, vwap",
+      "op must be one of above, below, crosses_above, crosses_below",
+      "value must be a number",
+      "mode must be once or rearm",
+      "cooldownMinutes must be a non-negative number",
+      "note must be a string",
+    ]);
+  });
+
+  it("rejects unknown types, bad directions and non-object bodies", () => {
+    assert.deepEqual(parseAlertInput({ symbol: "BTC", type: "volume" }).errors, ["type must be price, indicator or change"]);
+    assert.deepEqual(parseAlertInput({ symbol: "BTC", type: "change", timeframe: "1h", percent: 3, direction: "sideways" }).errors,
+      ["direction must be up, down or any"]);
+    assert.deepEqual(parseAlertInput([]).errors, ["body must be a JSON object"]);
+    assert.deepEqual(parseAlertInput(null).errors, ["body must be a JSON object"]);
+  });
+
+  it("truncates long notes", () => {
+    assert.equal(parseAlertInput({ symbol: "BTC", type: "price", op: "above", value: 1, note: "x".repeat(500) }).alert?.note?.length, 200);
+  });
+});
@@ -0,0 +1,157 @@
+// =====================================
+// ===== API AUTH TESTS
+// =====================================
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { Env, Logger } from '../src/types';
+import { API_SIGNATURE_TOLERANCE_SECONDS } from '../src/config/constants';
+import { withApiKey } from '../src/controllers/auth';
+
+const SECRET = "ci-secret-0123456789";
+
+// No DB binding: rate limits are counted in memory, high enough not to interfere
+const env = {
+  API_KEYS: JSON.stringify({
+    ci: { secret: SECRET, scopes: ["run"] },
+    ops: { secret: "ops-secret-0123456789", scopes: ["admin"] },
+  }),
+  RATE_LIMIT_PER_KEY: "1000",
+  RATE_LIMIT_PER_IP: "1000",
+} as unknown as Env;
+
+const ctx = { waitUntil: () => {}, passThroughOnException: () => {} } as unknown as ExecutionContext;
+
+function recordingLogger(): Logger & { entries: { level: string; msg: string; data?: any }[] } {
+  const entries: { level: string; msg: string; data?: any }[] = [];
+  const log = (level: string) => (msg: string, data?: any) => { entries.push({ level, msg, data }); };
+  return { entries, debug: log("debug"), info: log("info"), warn: log("warn"), error: log("error") };
+}
+
+function sign(secret: string, timestamp: string, method: string, pathAndQuery: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${method}.${pathAndQuery}.${body}`).digest("hex")}`;
+}
+
+function signedRequest(options: { path?: string; body?: string; keyId?: string; secret?: string; timestamp?: number; signedPath?: string; signedBody?: string } = {}): Request {
+  const path = options.path ?? "/run?prompt_agent=v2";
+  const body = options.body ?? `{"coins":["BTC"]}`;
+  const timestamp = String(options.timestamp ?? Math.floor(Date.now() / 1000));
+  return new Request(`https://worker.example${path}`, {
+    method: "POST",
+    body,
+    headers: {
+      "cf-connecting-ip": "203.0.113.7",
+      "x-key-id": options.keyId ?? "ci",
+      "x-signature-timestamp": timestamp,
+      "x-signature": sign(options.secret ?? SECRET, timestamp, "POST", options.signedPath ?? path, options.signedBody ?? body),
+    },
+  });
+}
+
+async function call(request: Request, scope: "read" | "run" | "admin" = "run", logger = recordingLogger()): Promise<Response> {
+  return withApiKey(request, env, logger, ctx, scope, async () => new Response(await request.text(), { status: 200 }));
+}
+
+describe("HMAC signatures", () => {
+  it("accepts a valid signature and leaves the body readable for the handler", async () => {
+    const res = await call(signedRequest());
+    assert.equal(res.status, 200);
+    assert.equal(await res.text(), `{"coins":["BTC"]}`);
+  });
+
+  it("rejects a signature over a different body", async () => {
+    assert.equal((await call(signedRequest({ signedBody: `{"coins":["ETH"]}` }))).status, 401);
+  });
+
+  it("rejects a signature over a different path or query", async () => {
+    assert.equal((await call(signedRequest({ signedPath: "/run" }))).status, 401);
+    assert.equal((await call(signedRequest({ signedPath: "/run?prompt_agent=v1" }))).status, 401);
+  });
+
+  it("rejects a signature made with another key's secret", async () => {
+    assert.equal((await call(signedRequest({ secret: "ops-secret-0123456789" }))).status, 401);
+  });
+
+  it("rejects unknown key ids", async () => {
+    assert.equal((await call(signedRequest({ keyId: "nobody" }))).status, 401);
+  });
+
+  it("rejects a replayed signature", async () => {
+    const timestamp = Math.floor(Date.now() / 1000) - 1;
+    assert.equal((await call(signedRequest({ timestamp, body: `{"coins":["SOL"]}` }))).status, 200);
+    const logger = recordingLogger();
+    assert.equal((await call(signedRequest({ timestamp, body: `{"coins":["SOL"]}` }), "run", logger)).status, 401);
+    assert.equal(logger.entries.find(e => e.msg === "API request rejected")?.data.reason, "signature already used");
+    assert.equal((await call(signedRequest({ timestamp, body: `{"coins":["ADA"]}` }))).status, 200);
+  });
+
+  it("rejects timestamps outside the allowed skew", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    assert.equal((await call(signedRequest({ timestamp: now - API_SIGNATURE_TOLERANCE_SECONDS - 5 }))).status, 401);
+    assert.equal((await call(signedRequest({ timestamp: now + API_SIGNATURE_TOLERANCE_SECONDS + 5 }))).status, 401);
+    assert.equal((await call(signedRequest({ timestamp: now - API_SIGNATURE_TOLERANCE_SECONDS + 5 }))).status, 200);
+  });
+});
+
+describe("bearer and basic credentials", () => {
+  const request = (authorization: string) =>
+    new Request("https://worker.example/run", { method: "POST", headers: { authorization, "cf-connecting-ip": "203.0.113.8" } });
+
+  it("accepts the secret as a bearer token", async () => {
+    assert.equal((await call(request(`Bearer ${SECRET}`))).status, 200);
+  });
+
+  it("rejects a wrong bearer token with a challenge", async () => {
+    const res = await call(request("Bearer wrong"));
+    assert.equal(res.status, 401);
+    assert.equal(res.headers.get("www-authenticate"), `Bearer realm="crypto-worker"`);
+  });
+
+  it("accepts the key id and secret as basic credentials", async () => {
+    assert.equal((await call(request(`Basic ${btoa(`ci:${SECRET}`)}`))).status, 200);
+    assert.equal((await call(request(`Basic ${btoa("ci:wrong")}`))).status, 401);
+    assert.equal((await call(request("Basic %%%"))).status, 401);
+  });
+
+  it("rejects requests without credentials", async () => {
+    assert.equal((await call(new Request("https://worker.example/run", { method: "POST" }))).status, 401);
+  });
+});
+
+describe("scopes and auditing", () => {
+  const bearer = (secret: string) =>
+    new Request("https://worker.example/alerts", { headers: { authorization: `Bearer ${secret}`, "cf-connecting-ip": "203.0.113.9" } });
+
+  it("requires the endpoint's scope, which admin keys always hold", async () => {
+    assert.equal((await call(bearer(SECRET), "admin")).status, 403);
+    assert.equal((await call(bearer("ops-secret-0123456789"), "read")).status, 200);
+  });
+
+  it("audits a handler that throws with an error outcome", async () => {
+    const logger = recordingLogger();
+    const failing = withApiKey(bearer(SECRET), env, logger, ctx, "run", async () => { throw new Error("boom"); });
+    await assert.rejects(failing, /boom/);
+    const entry = logger.entries.find(e => e.msg === "API request failed");
+    assert.equal(entry?.level, "error");
+    assert.equal(entry?.data.outcome, "error");
+    assert.equal(entry?.data.status, 500);
+    assert.equal(entry?.data.keyId, "ci");
+  });
+
+  it("audits a handler that answers 5xx with an error outcome", async () => {
+    const logger = recordingLogger();
+    const res = await withApiKey(bearer(SECRET), env, logger, ctx, "run", async () => new Response("failed", { status: 500 }));
+    assert.equal(res.status, 500);
+    const entry = logger.entries.find(e => e.msg === "API request failed");
+    assert.equal(entry?.data.outcome, "error");
+    assert.equal(entry?.data.status, 500);
+    assert.equal(logger.entries.some(e => e.msg === "API request"), false);
+  });
+
+  it("audits 4xx answers from the handler as ok", async () => {
+    const logger = recordingLogger();
+    await withApiKey(bearer(SECRET), env, logger, ctx, "run", async () => new Response("bad", { status: 400 }));
+    assert.equal(logger.entries.find(e => e.msg === "API request")?.data.outcome, "ok");
+  });
+});
@@ -0,0 +1,78 @@
+// =====================================
+// ===== BACKTEST STATISTICS TESTS
+// =====================================
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BacktestTrade, SignalStatus } from '../src/types';
+import { computeStats } from '../src/backtest/engine';
+
+const HOUR = 60 * 60 * 1000;
+
+function trade(status: SignalStatus, r: number | null, closedAt: number | null, filled = true): BacktestTrade {
+  return {
+    symbol: "BTCUSDT",
+    slot: "leveraged.shortTerm",
+    time: 0,
+    direction: "long",
+    entry: 100,
+    stopLoss: 95,
+    takeProfit: 110,
+    status,
+    filledAt: filled ? 0 : null,
+    closedAt,
+    r,
+  };
+}
+
+describe("computeStats", () => {
+  it("counts signals, fills, wins, losses and expiries", () => {
+    const stats = computeStats([
+      trade("tp", 2, HOUR),
+      trade("sl", -1, 2 * HOUR),
+      trade("tp", 2, 3 * HOUR),
+      trade("expired", 0.5, 4 * HOUR),
+      trade("pending", null, null, false),
+      trade("open", null, null),
+    ]);
+    assert.equal(stats.signals, 6);
+    assert.equal(stats.filled, 5);
+    assert.equal(stats.wins, 2);
+    assert.equal(stats.losses, 1);
+    assert.equal(stats.expired, 1);
+    assert.equal(stats.winRate, 2 / 3);
+  });
+
+  it("averages R over resolved trades only, expiries included", () => {
+    const stats = computeStats([trade("tp", 2, HOUR), trade("sl", -1, 2 * HOUR), trade("expired", 0.5, 3 * HOUR), trade("open", null, null)]);
+    assert.equal(stats.totalR, 1.5);
+    assert.equal(stats.averageR, 0.5);
+  });
+
+  it("builds the drawdown in close-time order, not in input order", () => {
+    // Equity by close time: +2, +1, 0, -1, +1 -> peak 2, trough -1
+    const stats = computeStats([
+      trade("tp", 2, 5 * HOUR),
+      trade("sl", -1, 2 * HOUR),
+      trade("tp", 2, HOUR),
+      trade("sl", -1, 4 * HOUR),
+      trade("sl", -1, 3 * HOUR),
+    ]);
+    assert.equal(stats.maxDrawdownR, 3);
+    assert.equal(stats.totalR, 1);
+  });
+
+  it("measures drawdown from the running peak, including an early loss", () => {
+    assert.equal(computeStats([trade("sl", -1, HOUR), trade("sl", -1, 2 * HOUR), trade("tp", 2, 3 * HOUR)]).maxDrawdownR, 2);
+    assert.equal(computeStats([trade("tp", 2, HOUR), trade("tp", 2, 2 * HOUR)]).maxDrawdownR, 0);
+  });
+
+  it("reports no rates without resolved trades", () => {
+    const stats = computeStats([trade("pending", null, null, false)]);
+    assert.equal(stats.winRate, null);
+    assert.equal(stats.averageR, null);
+    assert.equal(stats.totalR, 0);
+    assert.equal(stats.maxDrawdownR, 0);
+    assert.equal(computeStats([trade("expired", -0.5, HOUR)]).winRate, null);
+  });
+});
@@ -0,0 +1,134 @@
+// =====================================
+// ===== RECOMMENDATION GUARDRAILS TESTS
+// =====================================
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnalysisInput, GuardrailLimits, TimeframeId, TimeframeIndicators, TradeRecommendation } from '../src/types';
+import { checkRecommendation, latestClose } from '../src/utils/guardrails';
+
+const LIMITS: GuardrailLimits = { maxLeverage: 10, minRewardRisk: 1.5, maxEntryDistancePct: 5, maxEntryDistanceAtr: 3 };
+
+const RATIONALE = { primarySignals: "-", laggingIndicators: "-", sentimentAnalysis: "-" };
+
+function indicators(timeframe: TimeframeId, atr14: number | null): TimeframeIndicators {
+  return {
+    timeframe,
+    candleCount: 100,
+    lastClose: null,
+    sma20: null,
+    sma50: null,
+    ema12: null,
+    ema26: null,
+    ema50: null,
+    rsi14: null,
+    macd: null,
+    bollinger: null,
+    atr14,
+    obv: null,
+    obvChange10: null,
+    vwap: null,
+  };
+}
+
+// Last close 100 on the 1h candles; ATR 1 on 1h (short term) and 10 on 1d (long term)
+function input(close = 100, atrs: { "1h": number | null; "1d": number | null } = { "1h": 1, "1d": 10 }): AnalysisInput {
+  const candle = (timestamp: number, price: number) => ({
+    timestamp, open: String(price), high: String(price), low: String(price), close: String(price), volume: "1", amount: "1",
+  });
+  const neutral = { category: "Neutral" as const, score: 0, rationale: "-" };
+  return {
+    symbol: "BTCUSDT",
+    allCandles: [
+      { timeframe: "1h", candles: [candle(1_000, 90), candle(3_000, close)] },
+      { timeframe: "1d", candles: [candle(2_000, 95)] },
+    ],
+    indicators: [indicators("15m", 0.5), indicators("1h", atrs["1h"]), indicators("1d", atrs["1d"])],
+    sentiment: { shortTermSentiment: neutral, longTermSentiment: neutral },
+    marketSentiment: { shortTermSentiment: neutral, longTermSentiment: neutral },
+  };
+}
+
+// Valid trades around 100 with reward/risk 2
+function recommendation(): TradeRecommendation {
+  const spot = { action: "buy" as const, entry: 100, stopLoss: 98, takeProfit: 104, rationale: RATIONALE };
+  const leveraged = { position: "long" as const, leverage: 3, entry: 100, stopLoss: 98, takeProfit: 104, rationale: RATIONALE };
+  return {
+    spot: { shortTerm: { ...spot }, longTerm: { ...spot } },
+    leveraged: { shortTerm: { ...leveraged }, longTerm: { ...leveraged } },
+  };
+}
+
+describe("latestClose", () => {
+  it("takes the newest candle across timeframes", () => {
+    assert.equal(latestClose(input(101)), 101);
+  });
+
+  it("is null without candles", () => {
+    assert.equal(latestClose({ ...input(), allCandles: [] }), null);
+  });
+});
+
+describe("checkRecommendation", () => {
+  it("accepts well-formed trades", () => {
+    assert.deepEqual(checkRecommendation(recommendation(), input(), LIMITS), []);
+  });
+
+  it("skips the level checks of a spot hold", () => {
+    const rec = recommendation();
+    rec.spot.shortTerm = { action: "hold", entry: null, stopLoss: null, takeProfit: null, rationale: RATIONALE };
+    assert.deepEqual(checkRecommendation(rec, input(), LIMITS), []);
+  });
+
+  it("requires stop-loss < entry < take-profit for longs", () => {
+    const rec = recommendation();
+    rec.spot.shortTerm.stopLoss = 101;
+    const violations = checkRecommendation(rec, input(), LIMITS);
+    assert.equal(violations.length, 1);
+    assert.equal(violations[0].slot, "spot.shortTerm");
+    assert.match(violations[0].reason, /stop-loss < entry < take-profit/);
+  });
+
+  it("requires take-profit < entry < stop-loss for shorts", () => {
+    const rec = recommendation();
+    rec.leveraged.longTerm = { ...rec.leveraged.longTerm, position: "short", stopLoss: 102, takeProfit: 96 };
+    assert.deepEqual(checkRecommendation(rec, input(), LIMITS), []);
+
+    rec.spot.longTerm = { ...rec.spot.longTerm, action: "sell" };
+    const violations = checkRecommendation(rec, input(), LIMITS);
+    assert.deepEqual(violations.map(v => v.slot), ["spot.longTerm"]);
+    assert.match(violations[0].reason, /take-profit < entry < stop-loss/);
+  });
+
+  it("rejects a reward/risk below the minimum", () => {
+    const rec = recommendation();
+    rec.leveraged.shortTerm.takeProfit = 102;
+    const violations = checkRecommendation(rec, input(), LIMITS);
+    assert.deepEqual(violations, [{ slot: "leveraged.shortTerm", reason: "reward/risk 1.00 is below the minimum 1.5" }]);
+  });
+
+  it("rejects leverage above the maximum", () => {
+    const rec = recommendation();
+    rec.leveraged.longTerm.leverage = 20;
+    const violations = checkRecommendation(rec, input(), LIMITS);
+    assert.deepEqual(violations, [{ slot: "leveraged.longTerm", reason: "leverage 20x exceeds the maximum 10x" }]);
+  });
+
+  it("allows an entry far from the close when it is within the ATR limit of its horizon", () => {
+    // 8% away: beyond 5%, but within 3 ATR on the long-term (1d) timeframe and not on the short-term (1h) one
+    const rec = recommendation();
+    for (const horizon of ["shortTerm", "longTerm"] as const) {
+      rec.spot[horizon] = { ...rec.spot[horizon], entry: 108, stopLoss: 106, takeProfit: 112 };
+    }
+    const violations = checkRecommendation(rec, input(), LIMITS);
+    assert.deepEqual(violations.map(v => v.slot), ["spot.shortTerm"]);
+    assert.equal(violations[0].reason, "entry 108 is 8.00% from the last close 100 (8.0 ATR), limit is 5% or 3 ATR");
+  });
+
+  it("only applies the percentage limit without an ATR", () => {
+    const rec = recommendation();
+    rec.spot.longTerm = { ...rec.spot.longTerm, entry: 108, stopLoss: 106, takeProfit: 112 };
+    const violations = checkRecommendation(rec, input(100, { "1h": null, "1d": null }), LIMITS);
+    assert.deepEqual(violations, [{ slot: "spot.longTerm", reason: "entry 108 is 8.00% from the last close 100, limit is 5%" }]);
+  });
+});
@@ -0,0 +1,162 @@
+// =====================================
+// ===== TECHNICAL INDICATORS TESTS
+// =====================================
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle } from '../src/types';
+import {
+  sma,
+  ema,
+  rsi,
+  macd,
+  bollinger,
+  atr,
+  obv,
+  vwap,
+  supportResistance,
+  computeIndicators,
+} from '../src/utils/indicators';
+
+function candle(idx: number, close: number, spread = 1, volume = 10): Candle {
+  return {
+    timestamp: idx * 60_000,
+    open: String(close),
+    high: String(close + spread),
+    low: String(close - spread),
+    close: String(close),
+    volume: String(volume),
+    amount: String(close * volume),
+  };
+}
+
+describe("moving averages", () => {
+  it("sma is null until a full period is seen", () => {
+    assert.deepEqual(sma([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4]);
+  });
+
+  it("ema is seeded with the sma of the first period", () => {
+    assert.deepEqual(ema([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4]);
+    assert.deepEqual(ema([3, 3, 3, 7], 3), [null, null, 3, 5]);
+  });
+});
+
+describe("rsi", () => {
+  it("uses Wilder's smoothing", () => {
+    const values = rsi([10, 11, 10, 12], 2);
+    assert.deepEqual(values.slice(0, 3), [null, null, 50]);
+    assert.ok(Math.abs(values[3]! - 250 / 3) < 1e-9);
+  });
+
+  it("is 100 without losses and 0 without gains", () => {
+    assert.equal(rsi([1, 2, 3, 4, 5], 3)[4], 100);
+    assert.equal(rsi([5, 4, 3, 2, 1], 3)[4], 0);
+  });
+
+  it("needs more closes than the period", () => {
+    assert.deepEqual(rsi([1, 2, 3], 3), [null, null, null]);
+  });
+});
+
+describe("macd", () => {
+  it("is null before the signal line has data", () => {
+    assert.equal(macd(Array.from({ length: 30 }, (_, i) => i)), null);
+  });
+
+  it("is flat for a constant series", () => {
+    assert.deepEqual(macd(Array(60).fill(5)), { macd: 0, signal: 0, histogram: 0 });
+  });
+
+  it("is positive in an uptrend", () => {
+    const result = macd(Array.from({ length: 60 }, (_, i) => 100 + i * 2))!;
+    assert.ok(result.macd > 0);
+    assert.ok(Math.abs(result.histogram - (result.macd - result.signal)) < 1e-9);
+  });
+});
+
+describe("bollinger", () => {
+  it("uses the population deviation of the last period", () => {
+    const bands = bollinger([100, 1, 2, 3, 4], 4, 2)!;
+    const deviation = 2 * Math.sqrt(1.25);
+    assert.equal(bands.middle, 2.5);
+    assert.ok(Math.abs(bands.upper - (2.5 + deviation)) < 1e-9);
+    assert.ok(Math.abs(bands.lower - (2.5 - deviation)) < 1e-9);
+    assert.ok(Math.abs(bands.bandwidth - (2 * deviation) / 2.5) < 1e-9);
+  });
+
+  it("is null with too few closes", () => {
+    assert.equal(bollinger([1, 2, 3], 4), null);
+  });
+});
+
+describe("atr", () => {
+  it("averages the true range, including gaps from the previous close", () => {
+    assert.equal(atr([11, 11, 11, 11], [9, 9, 9, 9], [10, 10, 10, 10], 2), 2);
+    // Second candle gaps up: its true range runs from the previous close (10) to its high (15)
+    assert.equal(atr([11, 15, 14], [9, 13, 12], [10, 14, 13], 2), 3.5);
+  });
+
+  it("is null with too few candles", () => {
+    assert.equal(atr([1, 2], [0, 1], [1, 2], 2), null);
+  });
+});
+
+describe("volume indicators", () => {
+  it("obv adds volume on up closes and subtracts it on down closes", () => {
+    assert.deepEqual(obv([1, 2, 2, 1], [10, 20, 30, 40]), [0, 20, 20, -20]);
+  });
+
+  it("vwap weights the typical price by volume", () => {
+    assert.equal(vwap([3, 6], [1, 2], [2, 4], [1, 3]), 3.5);
+    assert.equal(vwap([3], [1], [2], [0]), null);
+  });
+});
+
+describe("supportResistance", () => {
+  it("returns the nearest swing levels on each side of the last close", () => {
+    // Swing highs at 110 and 120, swing lows at 90 and 80; the series ends at 100
+    const closes = [100, 101, 102, 103, 104, 110, 104, 103, 102, 101, 90, 101, 102, 103, 104, 120, 104, 103, 102, 101, 80, 101, 102, 103, 104, 100];
+    const { support, resistance } = supportResistance(closes, closes, closes, 5, 2);
+    assert.deepEqual(support, [90, 80]);
+    assert.deepEqual(resistance, [110, 120]);
+  });
+
+  it("skips levels within 0.3% of a level already picked", () => {
+    const closes = [100, 101, 102, 103, 104, 110, 104, 103, 102, 101, 100, 101, 102, 103, 104, 110.2, 104, 103, 102, 101, 100, 100];
+    assert.deepEqual(supportResistance(closes, closes, closes, 5, 2).resistance, [110]);
+  });
+});
+
+describe("computeIndicators", () => {
+  it("summarizes the latest value of every indicator", () => {
+    const candles = Array.from({ length: 60 }, (_, i) => candle(i, 100 + i));
+    const result = computeIndicators({ timeframe: "1h", candles });
+    assert.equal(result.timeframe, "1h");
+    assert.equal(result.candleCount, 60);
+    assert.equal(result.lastClose, 159);
+    assert.equal(result.sma20, 149.5);
+    assert.equal(result.sma50, 134.5);
+    assert.equal(result.rsi14, 100);
+    assert.equal(result.atr14, 2);
+    assert.equal(result.obv, 590);
+    assert.equal(result.obvChange10, 100);
+    assert.ok(result.macd && result.macd.macd > 0);
+  });
+
+  it("rounds to 8 significant digits", () => {
+    const candles = Array.from({ length: 20 }, (_, i) => candle(i, 0.000123456789 + i * 1e-12, 0.000001));
+    const result = computeIndicators({ timeframe: "1m", candles });
+    assert.equal(result.lastClose, 0.00012345681);
+  });
+
+  it("leaves indicators without enough history empty", () => {
+    const result = computeIndicators({ timeframe: "1d", candles: [candle(0, 100)] });
+    assert.equal(result.sma20, null);
+    assert.equal(result.rsi14, null);
+    assert.equal(result.macd, null);
+    assert.equal(result.bollinger, null);
+    assert.equal(result.atr14, null);
+    assert.equal(result.obvChange10, null);
+    assert.equal(result.vwap, 100);
+  });
+});
@@ -0,0 +1,89 @@
+// =====================================
+// ===== SIGNAL OUTCOME TESTS
+// =====================================
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle, TrackedSignal } from '../src/types';
+import { evaluateOutcome } from '../src/utils/outcomes';
+
+const HOUR = 60 * 60 * 1000;
+const EXPIRY = 24 * HOUR;
+const START = Date.UTC(2025, 0, 1);
+
+type Signal = Parameters<typeof evaluateOutcome>[0];
+
+function signal(overrides: Partial<Pick<TrackedSignal, "direction" | "entry" | "stopLoss" | "takeProfit" | "status" | "filledAt">> = {}): Signal {
+  return { direction: "long", entry: 100, stopLoss: 95, takeProfit: 110, createdAt: START, status: "pending", filledAt: null, ...overrides };
+}
+
+// Hourly candles after the signal, given as [low, high]
+function candles(...ranges: [number, number][]): Candle[] {
+  return ranges.map(([low, high], idx) => ({
+    timestamp: START + idx * HOUR,
+    open: String(low),
+    high: String(high),
+    low: String(low),
+    close: String(high),
+    volume: "1",
+    amount: "1",
+  }));
+}
+
+describe("evaluateOutcome", () => {
+  it("stays pending until a candle reaches the entry", () => {
+    assert.deepEqual(evaluateOutcome(signal(), candles([101, 104], [102, 105]), EXPIRY, START + 2 * HOUR),
+      { status: "pending", filledAt: null, closedAt: null });
+  });
+
+  it("fills on the candle touching the entry and stays open without a hit", () => {
+    assert.deepEqual(evaluateOutcome(signal(), candles([101, 104], [99, 103], [98, 104]), EXPIRY, START + 3 * HOUR),
+      { status: "open", filledAt: START + HOUR, closedAt: null });
+  });
+
+  it("closes a long at the take-profit", () => {
+    assert.deepEqual(evaluateOutcome(signal(), candles([99, 103], [102, 111]), EXPIRY, START + 2 * HOUR),
+      { status: "tp", filledAt: START, closedAt: START + HOUR });
+  });
+
+  it("closes a short at the stop-loss above the entry", () => {
+    const short = signal({ direction: "short", stopLoss: 105, takeProfit: 90 });
+    assert.deepEqual(evaluateOutcome(short, candles([98, 101], [100, 106]), EXPIRY, START + 2 * HOUR),
+      { status: "sl", filledAt: START, closedAt: START + HOUR });
+  });
+
+  it("assumes the stop-loss when stop-loss and take-profit fall in the same candle", () => {
+    assert.equal(evaluateOutcome(signal(), candles([99, 101], [94, 111]), EXPIRY, START + 2 * HOUR).status, "sl");
+    const short = signal({ direction: "short", stopLoss: 105, takeProfit: 90 });
+    assert.equal(evaluateOutcome(short, candles([99, 101], [89, 106]), EXPIRY, START + 2 * HOUR).status, "sl");
+  });
+
+  it("checks stop-loss and take-profit on the filling candle itself", () => {
+    assert.deepEqual(evaluateOutcome(signal(), candles([94, 101]), EXPIRY, START + HOUR),
+      { status: "sl", filledAt: START, closedAt: START });
+  });
+
+  it("ignores candles from before the signal", () => {
+    const early = candles([94, 111], [101, 104]).map((c, idx) => ({ ...c, timestamp: START - HOUR + idx * HOUR }));
+    assert.deepEqual(evaluateOutcome(signal(), early, EXPIRY, START + HOUR), { status: "pending", filledAt: null, closedAt: null });
+  });
+
+  it("keeps the fill of an earlier check", () => {
+    const open = signal({ status: "open", filledAt: START - HOUR });
+    assert.deepEqual(evaluateOutcome(open, candles([104, 111]), EXPIRY, START + HOUR),
+      { status: "tp", filledAt: START - HOUR, closedAt: START });
+  });
+
+  it("expires filled and unfilled signals only after the expiry", () => {
+    const quiet = candles([101, 104], [102, 105]);
+    assert.equal(evaluateOutcome(signal(), quiet, EXPIRY, START + EXPIRY).status, "pending");
+    assert.deepEqual(evaluateOutcome(signal(), quiet, EXPIRY, START + EXPIRY + 1),
+      { status: "expired", filledAt: null, closedAt: START + EXPIRY + 1 });
+    assert.deepEqual(evaluateOutcome(signal(), candles([99, 104]), EXPIRY, START + EXPIRY + 1),
+      { status: "expired", filledAt: START, closedAt: START + EXPIRY + 1 });
+  });
+
+  it("reports a hit before the expiry even when checked late", () => {
+    assert.equal(evaluateOutcome(signal(), candles([99, 111]), EXPIRY, START + 2 * EXPIRY).status, "tp");
+  });
+});
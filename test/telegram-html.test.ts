@@ -0,0 +1,83 @@
+// =====================================
+// ===== TELEGRAM HTML FORMATTING TESTS
+// =====================================
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { sanitizeTelegramHtml, chunkTelegramHtml, telegramHtmlToText } from '../src/utils/telegram-html';
+
+describe("sanitizeTelegramHtml", () => {
+  it("keeps allowed tags and escapes the rest", () => {
+    assert.equal(sanitizeTelegramHtml("<b>BTC</b> <div>x</div> 1 < 2 & 3"), "<b>BTC</b> &lt;div&gt;x&lt;/div&gt; 1 &lt; 2 &amp; 3");
+  });
+
+  it("keeps entities Telegram understands", () => {
+    assert.equal(sanitizeTelegramHtml("&lt;tag&gt; &amp; &#128200; &nbsp;"), "&lt;tag&gt; &amp; &#128200; &amp;nbsp;");
+  });
+
+  it("drops unsupported attributes and links without href", () => {
+    assert.equal(
+      sanitizeTelegramHtml(`<a href="https://x.io/?a=1&b=2" onclick="bad()">link</a> <a>no href</a> <b class="x">bold</b>`),
+      `<a href="https://x.io/?a=1&amp;b=2">link</a> &lt;a&gt;no href <b>bold</b>`
+    );
+    assert.equal(sanitizeTelegramHtml(`<span class="tg-spoiler">s</span><span style="x">t</span>`), `<span class="tg-spoiler">s</span>&lt;span style="x"&gt;t`);
+  });
+
+  it("keeps the language class of code only inside pre", () => {
+    assert.equal(sanitizeTelegramHtml(`<pre><code class="language-ts">x</code></pre>`), `<pre><code class="language-ts">x</code></pre>`);
+    assert.equal(sanitizeTelegramHtml(`<code class="language-ts">x</code>`), `<code>x</code>`);
+  });
+
+  it("treats tags inside code as text", () => {
+    assert.equal(sanitizeTelegramHtml("<code>a <b> c</code>"), "<code>a &lt;b&gt; c</code>");
+  });
+
+  it("closes crossed and unclosed tags and drops stray closing tags", () => {
+    assert.equal(sanitizeTelegramHtml("<b><i>x</b>y</i>"), "<b><i>x</i></b><i>y</i>");
+    assert.equal(sanitizeTelegramHtml("<b>open"), "<b>open</b>");
+    assert.equal(sanitizeTelegramHtml("text</i>"), "text");
+  });
+});
+
+describe("chunkTelegramHtml", () => {
+  it("returns short messages unchanged", () => {
+    assert.deepEqual(chunkTelegramHtml("<b>short</b>", 100), ["<b>short</b>"]);
+  });
+
+  it("splits at line breaks", () => {
+    assert.deepEqual(chunkTelegramHtml("line one\nline two\nline three", 20), ["line one\nline two\n", "line three"]);
+  });
+
+  it("closes tags at a cut and reopens them in the next chunk", () => {
+    const chunks = chunkTelegramHtml("<b>first line\nsecond line</b>", 20);
+    assert.deepEqual(chunks, ["<b>first line\n</b>", "<b>second line</b>"]);
+  });
+
+  it("leaves no empty tag pair at a cut", () => {
+    assert.deepEqual(chunkTelegramHtml("<b>word word</b>\n<code>x</code>", 17), ["<b>word word</b>\n", "<code>x</code>"]);
+    for (const chunk of chunkTelegramHtml("<i>aaaa<b>bbbb</b>cccc</i>", 16)) {
+      assert.doesNotMatch(chunk, /<(\w+)[^>]*><\/\1>/);
+    }
+  });
+
+  it("never cuts inside an entity", () => {
+    const chunks = chunkTelegramHtml("aaaaaaa &amp; bbb", 10);
+    assert.ok(chunks.every(c => c.length <= 10));
+    assert.ok(chunks.every(c => !/&[a-z#0-9]*$/.test(c)));
+    assert.equal(chunks.map(telegramHtmlToText).join(""), "aaaaaaa & bbb");
+  });
+
+  it("keeps every chunk within the limit and the text intact", () => {
+    const html = Array.from({ length: 40 }, (_, i) => `<b>Coin ${i}</b>: <i>entry ${i * 10} &amp; stop</i> <code>${"x".repeat(i % 7)}</code>\n`).join("");
+    const chunks = chunkTelegramHtml(html, 120);
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.every(c => c.length <= 120));
+    assert.equal(chunks.map(telegramHtmlToText).join(""), telegramHtmlToText(sanitizeTelegramHtml(html)));
+  });
+});
+
+describe("telegramHtmlToText", () => {
+  it("strips tags, spells out links and decodes entities", () => {
+    assert.equal(telegramHtmlToText(`<b>Up</b> &gt; 5% &amp; <a href="https://x.io">chart</a> &#128200;`), "Up > 5% & chart (https://x.io) 📈");
+  });
+});